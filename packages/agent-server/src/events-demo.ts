@@ -148,23 +148,24 @@ function loadUserSubscriptions(): void {
   console.log(`[Events] Loading ${subscriptions.length} subscriptions from mcpe.json`);
 
   for (const sub of subscriptions) {
-    try {
-      const created = server.subscriptionManager.create(sub.name, {
+    server.subscriptionManager
+      .create(sub.name, {
         filter: sub.filter,
         delivery: sub.delivery || { channels: ['realtime'] },
         handler: sub.handler,
+      })
+      .then((created) => {
+        console.log(`[Events] Loaded subscription: ${sub.name} (${sub.filter.eventTypes?.join(', ') || 'all events'})`);
+
+        // Start scheduler for cron subscriptions
+        if (sub.delivery?.channels?.includes('cron')) {
+          server.scheduler.startSubscription(created);
+          console.log(`[Events] Started cron scheduler for: ${sub.name}`);
+        }
+      })
+      .catch((error) => {
+        console.error(`[Events] Failed to load subscription ${sub.name}:`, error);
       });
-
-      console.log(`[Events] Loaded subscription: ${sub.name} (${sub.filter.eventTypes?.join(', ') || 'all events'})`);
-
-      // Start scheduler for cron subscriptions
-      if (sub.delivery?.channels?.includes('cron')) {
-        server.scheduler.startSubscription(created);
-        console.log(`[Events] Started cron scheduler for: ${sub.name}`);
-      }
-    } catch (error) {
-      console.error(`[Events] Failed to load subscription ${sub.name}:`, error);
-    }
   }
 
   if (subscriptions.length === 0) {
@@ -82,7 +82,7 @@ export function getEnabledSubscriptions(): SubscriptionConfig[] {
  * Get subscriptions by handler type
  */
 export function getSubscriptionsByHandler(
-  type: 'agent' | 'bash' | 'webhook'
+  type: SubscriptionConfig['handler']['type']
 ): SubscriptionConfig[] {
   return getMCPEConfig().subscriptions.filter((s) => s.handler.type === type);
 }
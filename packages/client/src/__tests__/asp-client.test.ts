@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ASPClient, type ReconnectedEvent, type ResubscribedEvent } from '../client/asp-client.js';
+import { ASPMethods, ErrorCodes } from '@esmcp/core';
+import type {
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  Transport,
+  TransportEvents,
+  TransportState,
+} from '@esmcp/core';
+
+type Message = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification;
+
+const delivery = { channels: ['websocket' as const], priority: 'realtime' as const };
+
+/**
+ * In-process transport answering like a hub that forgets everything
+ * unless the session is resumed
+ */
+class FakeTransport implements Transport {
+  state: TransportState = 'disconnected';
+  resume = false;
+  protocolVersion = '2025-01-01';
+  /** Versions accepted as protocolVersion, like a hub from before negotiation (default: any) */
+  acceptedVersions?: string[];
+  sent: JsonRpcRequest[] = [];
+  private listeners: { [K in keyof TransportEvents]?: TransportEvents[K][] } = {};
+  private nextSubscription = 0;
+
+  async connect(): Promise<void> {
+    this.state = 'connected';
+    this.emit('connect');
+  }
+
+  async disconnect(): Promise<void> {
+    this.state = 'disconnected';
+  }
+
+  async send(message: Message): Promise<void> {
+    const request = message as JsonRpcRequest;
+    this.sent.push(request);
+    const params = (request.params ?? {}) as Record<string, unknown>;
+    let result: unknown = {};
+
+    switch (request.method) {
+      case ASPMethods.Initialize:
+        if (this.acceptedVersions && !this.acceptedVersions.includes(params.protocolVersion as string)) {
+          const error = { code: ErrorCodes.InvalidParams, message: `Unsupported protocol version` };
+          queueMicrotask(() => this.emit('message', { jsonrpc: '2.0', id: request.id, error } as Message));
+          return;
+        }
+        result = {
+          protocolVersion: this.protocolVersion,
+          serverInfo: { name: 'fake', version: '1.0.0' },
+          capabilities: {},
+          sessionToken: 'token-1',
+          resumed: this.resume && params.sessionToken === 'token-1',
+        };
+        break;
+      case ASPMethods.SubscriptionCreate:
+        result = {
+          id: `sub-${++this.nextSubscription}`,
+          clientId: 'client',
+          filter: params.filter,
+          delivery: params.delivery,
+          status: 'active',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+        break;
+      case ASPMethods.SubscriptionPause:
+      case ASPMethods.SubscriptionResume:
+        result = { success: true };
+        break;
+    }
+
+    queueMicrotask(() => this.emit('message', { jsonrpc: '2.0', id: request.id, result } as Message));
+  }
+
+  /** Simulate a dropped connection followed by a transport reconnect */
+  async reconnect(): Promise<void> {
+    this.state = 'connecting';
+    this.emit('disconnect', 'Connection lost');
+    await this.connect();
+  }
+
+  on<K extends keyof TransportEvents>(event: K, listener: TransportEvents[K]): void {
+    (this.listeners[event] ??= [] as never[]).push(listener as never);
+  }
+
+  off<K extends keyof TransportEvents>(event: K, listener: TransportEvents[K]): void {
+    const listeners = this.listeners[event] as TransportEvents[K][] | undefined;
+    this.listeners[event] = listeners?.filter((l) => l !== listener) as never;
+  }
+
+  private emit(event: keyof TransportEvents, ...args: unknown[]): void {
+    this.listeners[event]?.forEach((listener) => (listener as Function)(...args));
+  }
+}
+
+describe('ASPClient version negotiation', () => {
+  it('should offer every supported version and use the negotiated one', async () => {
+    const transport = new FakeTransport();
+    const client = new ASPClient({ transport, clientInfo: { name: 'test', version: '1.0.0' } });
+    await client.connect();
+
+    expect(transport.sent[0].params).toMatchObject({
+      protocolVersion: '2025-10-01',
+      supportedVersions: ['2025-10-01', '2025-01-01'],
+    });
+    expect(client.protocolVersion).toBe('2025-01-01');
+  });
+
+  it.each([
+    ['a current hub', undefined, '2025-10-01', 1],
+    ['a hub from before negotiation (2025-01-01)', ['2025-01-01'], '2025-01-01', 2],
+  ])('should negotiate with %s', async (_name, acceptedVersions, negotiated, attempts) => {
+    const transport = new FakeTransport();
+    transport.protocolVersion = negotiated;
+    transport.acceptedVersions = acceptedVersions;
+    const client = new ASPClient({ transport, clientInfo: { name: 'test', version: '1.0.0' } });
+    await client.connect();
+
+    expect(client.protocolVersion).toBe(negotiated);
+    const initialize = transport.sent.filter((r) => r.method === ASPMethods.Initialize);
+    expect(initialize).toHaveLength(attempts);
+    expect(initialize[attempts - 1].params).toMatchObject({
+      protocolVersion: negotiated,
+      supportedVersions: ['2025-10-01', '2025-01-01'].slice(attempts - 1),
+    });
+  });
+
+  it('should give up when the hub rejects every version', async () => {
+    const transport = new FakeTransport();
+    transport.acceptedVersions = [];
+    const client = new ASPClient({ transport, clientInfo: { name: 'test', version: '1.0.0' } });
+
+    await expect(client.connect()).rejects.toThrow('Unsupported protocol version');
+    expect(transport.sent.filter((r) => r.method === ASPMethods.Initialize)).toHaveLength(2);
+  });
+
+  it('should refuse a version it did not offer', async () => {
+    const transport = new FakeTransport();
+    const client = new ASPClient({
+      transport,
+      clientInfo: { name: 'test', version: '1.0.0' },
+      protocolVersions: ['2025-10-01'],
+    });
+
+    await expect(client.connect()).rejects.toThrow('unsupported protocol version: 2025-01-01');
+    expect(client.state).toBe('disconnected');
+  });
+});
+
+describe('ASPClient reconnects', () => {
+  let transport: FakeTransport;
+  let client: ASPClient;
+
+  beforeEach(async () => {
+    transport = new FakeTransport();
+    client = new ASPClient({ transport, clientInfo: { name: 'test', version: '1.0.0' } });
+    await client.connect();
+  });
+
+  function nextReconnect(): Promise<ReconnectedEvent> {
+    return new Promise((resolve) => {
+      const off = client.onReconnected((event) => {
+        off();
+        resolve(event);
+      });
+    });
+  }
+
+  it('should re-initialize with the session token and keep resumed subscriptions', async () => {
+    transport.resume = true;
+    await client.subscribe({ filter: { eventTypes: ['github.*'] }, delivery });
+
+    const reconnected = nextReconnect();
+    await transport.reconnect();
+
+    expect(await reconnected).toEqual({ resumed: true, resubscribed: 0 });
+    expect(client.state).toBe('initialized');
+    const initialize = transport.sent.filter((r) => r.method === ASPMethods.Initialize);
+    expect(initialize[1].params).toMatchObject({ sessionToken: 'token-1' });
+    expect(transport.sent.filter((r) => r.method === ASPMethods.SubscriptionCreate)).toHaveLength(1);
+  });
+
+  it('should recreate known subscriptions when the session was not resumed', async () => {
+    const active = await client.subscribe({ filter: { eventTypes: ['github.*'] }, delivery });
+    const paused = await client.subscribe({ filter: { eventTypes: ['slack.*'] }, delivery });
+    await client.pauseSubscription(paused.id);
+    const removed = await client.subscribe({ filter: { eventTypes: ['gmail.*'] }, delivery });
+    await client.unsubscribe(removed.id);
+
+    const resubscribed: ResubscribedEvent[] = [];
+    client.onResubscribed((event) => resubscribed.push(event));
+    const reconnected = nextReconnect();
+    await transport.reconnect();
+
+    expect(await reconnected).toEqual({ resumed: false, resubscribed: 2 });
+    expect(resubscribed.map((e) => e.previousSubscriptionId)).toEqual([active.id, paused.id]);
+    expect(resubscribed.map((e) => e.subscription.status)).toEqual(['active', 'paused']);
+    expect(resubscribed[1].subscription.filter).toEqual({ eventTypes: ['slack.*'] });
+  });
+
+  it('should not re-initialize when disabled', async () => {
+    client = new ASPClient({
+      transport: (transport = new FakeTransport()),
+      clientInfo: { name: 'test', version: '1.0.0' },
+      autoReinitialize: false,
+    });
+    await client.connect();
+
+    await transport.reconnect();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(client.state).toBe('disconnected');
+    expect(transport.sent.filter((r) => r.method === ASPMethods.Initialize)).toHaveLength(1);
+  });
+});
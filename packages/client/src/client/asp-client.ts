@@ -12,6 +12,7 @@
  */
 
 import type {
+  AuthCredentials,
   Transport,
   ClientInfo,
   ClientCapabilities,
@@ -29,15 +30,19 @@ import type {
   SubscriptionUpdateResult,
   DeviceRegisterResult,
   DeviceInvalidateResult,
+  EventPublishResult,
+  WebPushKeys,
   ESMCPEvent,
   ASPCapabilities,
   ASPSchemaResponse,
 } from '@esmcp/core';
 import {
-  PROTOCOL_VERSION,
+  MCPE_PROTOCOL_VERSIONS,
   createJsonRpcRequest,
-  getASPOperations,
+  getMCPECapabilitiesForVersion,
+  getMCPEOperationsForVersion,
   ASPMethods,
+  ErrorCodes,
   defaultASPCapabilities,
 } from '@esmcp/core';
 import { NotificationHandler, EventHandler } from '../handlers/notification.js';
@@ -69,6 +74,39 @@ export interface ASPClientOptions {
    * Request timeout in milliseconds (default: 30000)
    */
   requestTimeout?: number;
+
+  /**
+   * Acknowledge every received event after handlers run (default: false).
+   * Advertises the `acknowledgements` capability so the server redelivers
+   * events that were not acknowledged.
+   */
+  autoAcknowledge?: boolean;
+
+  /**
+   * Session token from a previous connection (see `sessionToken`), to take
+   * over its subscriptions when connecting
+   */
+  sessionToken?: string;
+
+  /**
+   * Credentials sent in initialize, for hubs with an authenticator. Use the
+   * transport's credentials option when the server checks them on connect.
+   */
+  credentials?: AuthCredentials;
+
+  /**
+   * Run the handshake again when the transport reconnects on its own, and
+   * recreate known subscriptions if the session could not be resumed
+   * (default: true)
+   */
+  autoReinitialize?: boolean;
+
+  /**
+   * Protocol versions to offer, newest first (default: every version this
+   * package speaks). Hubs from before version negotiation only accept
+   * 2025-01-01; when a hub rejects the offer, the next version is offered.
+   */
+  protocolVersions?: string[];
 }
 
 export type ASPClientState = 'disconnected' | 'connecting' | 'connected' | 'initialized';
@@ -81,6 +119,25 @@ export interface SubscriptionExpiredEvent {
   expiredAt: string;
 }
 
+/**
+ * Event emitted after the client re-initialized on a reconnected transport
+ */
+export interface ReconnectedEvent {
+  /** Whether the server resumed the previous session */
+  resumed: boolean;
+  /** Number of subscriptions recreated because the session was not resumed */
+  resubscribed: number;
+}
+
+/**
+ * Event emitted when a subscription was recreated after a reconnect.
+ * Events published while disconnected were not delivered to it.
+ */
+export interface ResubscribedEvent {
+  previousSubscriptionId: string;
+  subscription: Subscription;
+}
+
 /**
  * Unified ASP Client
  *
@@ -117,13 +174,19 @@ export class ASPClient {
   private _state: ASPClientState = 'disconnected';
   private _capabilities: ASPCapabilities | null = null;
   private _initializeResult: InitializeResult | null = null;
+  private _sessionToken: string | undefined;
   private subscriptionExpiredHandlers: Set<(event: SubscriptionExpiredEvent) => void> = new Set();
+  private reconnectedHandlers: Set<(event: ReconnectedEvent) => void> = new Set();
+  private resubscribedHandlers: Set<(event: ResubscribedEvent) => void> = new Set();
+  private knownSubscriptions: Map<string, Subscription> = new Map();
+  private reconnectPending = false;
   private requestTimeout: number;
 
   constructor(private options: ASPClientOptions) {
     this.transport = options.transport;
     this.notificationHandler = new NotificationHandler();
     this.requestTimeout = options.requestTimeout ?? 30000;
+    this._sessionToken = options.sessionToken;
     this.setupTransportHandlers();
   }
 
@@ -148,6 +211,22 @@ export class ASPClient {
     return this._initializeResult?.serverInfo ?? null;
   }
 
+  /**
+   * Session token issued by the server. Connecting again with it (also from
+   * a new ASPClient via the `sessionToken` option) resumes this session's
+   * subscriptions.
+   */
+  get sessionToken(): string | undefined {
+    return this._sessionToken;
+  }
+
+  /**
+   * Protocol version negotiated with the server
+   */
+  get protocolVersion(): string | null {
+    return this._initializeResult?.protocolVersion ?? null;
+  }
+
   // ============================================================
   // Connection Lifecycle
   // ============================================================
@@ -160,6 +239,7 @@ export class ASPClient {
       return;
     }
 
+    this.reconnectPending = false;
     this._state = 'connecting';
     await this.transport.connect();
     this._state = 'connected';
@@ -172,6 +252,7 @@ export class ASPClient {
    * Disconnect from the server
    */
   async disconnect(): Promise<void> {
+    this.reconnectPending = false;
     await this.transport.disconnect();
     this._state = 'disconnected';
     this._capabilities = null;
@@ -186,16 +267,37 @@ export class ASPClient {
   }
 
   private async initialize(): Promise<void> {
-    const params: InitializeParams = {
-      protocolVersion: PROTOCOL_VERSION,
-      clientInfo: this.options.clientInfo,
-      capabilities: this.options.capabilities,
-    };
+    const versions = this.options.protocolVersions ?? [...MCPE_PROTOCOL_VERSIONS];
+    let result: InitializeResult | undefined;
+    // Hubs from before version negotiation ignore supportedVersions and
+    // reject any protocolVersion but their own with InvalidParams, so each
+    // rejection drops the newest version offered
+    for (let offered = versions; !result; offered = offered.slice(1)) {
+      const params: InitializeParams = {
+        protocolVersion: offered[0],
+        supportedVersions: offered,
+        clientInfo: this.options.clientInfo,
+        capabilities: this.options.autoAcknowledge
+          ? { ...this.options.capabilities, acknowledgements: true }
+          : this.options.capabilities,
+        ...(this._sessionToken && { sessionToken: this._sessionToken }),
+        ...(this.options.credentials && { credentials: this.options.credentials }),
+      };
 
-    this._initializeResult = await this.request<InitializeResult>(
-      ASPMethods.Initialize,
-      params
-    );
+      try {
+        result = await this.request<InitializeResult>(ASPMethods.Initialize, params);
+      } catch (error) {
+        if ((error as { code?: number }).code !== ErrorCodes.InvalidParams || offered.length <= 1) {
+          throw error;
+        }
+      }
+    }
+    if (!versions.includes(result.protocolVersion)) {
+      await this.disconnect();
+      throw new Error(`Server chose unsupported protocol version: ${result.protocolVersion}`);
+    }
+    this._initializeResult = result;
+    this._sessionToken = this._initializeResult.sessionToken ?? this._sessionToken;
     this._state = 'initialized';
 
     // Fetch full capabilities
@@ -204,17 +306,20 @@ export class ASPClient {
     } catch {
       // Server may not support capabilities endpoint yet
       // Use defaults based on initialize result
-      this._capabilities = {
-        ...defaultASPCapabilities,
-        serverInfo: this._initializeResult.serverInfo,
-        subscriptions: {
-          ...defaultASPCapabilities.subscriptions,
-          maxActive: this._initializeResult.capabilities.maxSubscriptions,
-        },
-        filters: {
-          ...defaultASPCapabilities.filters,
+      this._capabilities = getMCPECapabilitiesForVersion(
+        {
+          ...defaultASPCapabilities,
+          serverInfo: result.serverInfo,
+          subscriptions: {
+            ...defaultASPCapabilities.subscriptions,
+            maxActive: result.capabilities.maxSubscriptions,
+          },
+          filters: {
+            ...defaultASPCapabilities.filters,
+          },
         },
-      };
+        result.protocolVersion
+      );
     }
   }
 
@@ -268,7 +373,7 @@ export class ASPClient {
     } catch {
       // Server may not support schema endpoint yet
       // Return local operation definitions
-      return getASPOperations(operationNames);
+      return { operations: getMCPEOperationsForVersion(this.protocolVersion!, operationNames) };
     }
   }
 
@@ -298,10 +403,12 @@ export class ASPClient {
    */
   async subscribe(request: CreateSubscriptionRequest): Promise<Subscription> {
     this.ensureInitialized();
-    return this.request<SubscriptionCreateResult>(
+    const subscription = await this.request<SubscriptionCreateResult>(
       ASPMethods.SubscriptionCreate,
       request
     );
+    this.knownSubscriptions.set(subscription.id, subscription);
+    return subscription;
   }
 
   /**
@@ -316,6 +423,7 @@ export class ASPClient {
       ASPMethods.SubscriptionRemove,
       { subscriptionId }
     );
+    this.knownSubscriptions.delete(subscriptionId);
     return result.success;
   }
 
@@ -346,10 +454,12 @@ export class ASPClient {
     updates: UpdateSubscriptionRequest
   ): Promise<Subscription> {
     this.ensureInitialized();
-    return this.request<SubscriptionUpdateResult>(ASPMethods.SubscriptionUpdate, {
-      subscriptionId,
-      updates,
-    });
+    const subscription = await this.request<SubscriptionUpdateResult>(
+      ASPMethods.SubscriptionUpdate,
+      { subscriptionId, updates }
+    );
+    this.knownSubscriptions.set(subscription.id, subscription);
+    return subscription;
   }
 
   /**
@@ -363,6 +473,7 @@ export class ASPClient {
   async pauseSubscription(subscriptionId: string): Promise<void> {
     this.ensureInitialized();
     await this.request(ASPMethods.SubscriptionPause, { subscriptionId });
+    this.setKnownStatus(subscriptionId, 'paused');
   }
 
   /**
@@ -373,6 +484,7 @@ export class ASPClient {
   async resumeSubscription(subscriptionId: string): Promise<void> {
     this.ensureInitialized();
     await this.request(ASPMethods.SubscriptionResume, { subscriptionId });
+    this.setKnownStatus(subscriptionId, 'active');
   }
 
   // ============================================================
@@ -419,6 +531,34 @@ export class ASPClient {
     };
   }
 
+  /**
+   * Register a handler called after the client re-initialized on a
+   * reconnected transport
+   *
+   * @param handler - Function to call after each reconnect
+   * @returns Unsubscribe function
+   */
+  onReconnected(handler: (event: ReconnectedEvent) => void): () => void {
+    this.reconnectedHandlers.add(handler);
+    return () => {
+      this.reconnectedHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Register a handler for subscriptions recreated after a reconnect.
+   * The subscription ID changes; update any stored references.
+   *
+   * @param handler - Function to call for each recreated subscription
+   * @returns Unsubscribe function
+   */
+  onResubscribed(handler: (event: ResubscribedEvent) => void): () => void {
+    this.resubscribedHandlers.add(handler);
+    return () => {
+      this.resubscribedHandlers.delete(handler);
+    };
+  }
+
   /**
    * Acknowledge receipt of an event
    *
@@ -432,6 +572,24 @@ export class ASPClient {
     await this.request(ASPMethods.EventAcknowledge, { eventId, subscriptionId });
   }
 
+  /**
+   * Publish an event through the hub to its subscribers
+   *
+   * The hub authenticates publishers separately from subscribers; without
+   * `credentials` it uses those of the connection request.
+   *
+   * @param event - Complete event, e.g. from createEvent()
+   * @param credentials - Publisher credentials
+   * @returns ID of the published event
+   */
+  async publishEvent(event: ESMCPEvent, credentials?: AuthCredentials): Promise<string> {
+    const result = await this.request<EventPublishResult>(ASPMethods.EventPublish, {
+      event,
+      ...(credentials && { credentials }),
+    });
+    return result.eventId;
+  }
+
   // ============================================================
   // Device Registration (for push notifications)
   // ============================================================
@@ -460,6 +618,24 @@ export class ASPClient {
     return result.deviceId;
   }
 
+  /**
+   * Register a browser push subscription for Web Push delivery
+   *
+   * @param subscription - Push subscription from PushManager.subscribe()
+   * @returns Device ID for future reference
+   */
+  async registerWebPushSubscription(subscription: {
+    endpoint: string;
+    keys: WebPushKeys;
+  }): Promise<string> {
+    this.ensureInitialized();
+    const result = await this.request<DeviceRegisterResult>(
+      ASPMethods.DeviceRegister,
+      { token: subscription.endpoint, platform: 'web', keys: subscription.keys }
+    );
+    return result.deviceId;
+  }
+
   /**
    * Invalidate a registered device
    *
@@ -486,9 +662,28 @@ export class ASPClient {
     });
 
     this.transport.on('disconnect', () => {
-      if (this._state === 'initialized') {
-        this._state = 'connected';
+      if (this._state !== 'initialized') {
+        return;
+      }
+      this._state = 'disconnected';
+      this.reconnectPending = this.options.autoReinitialize !== false;
+
+      // Responses to in-flight requests will not arrive on a new connection
+      this.pendingRequests.forEach(({ reject, timeout }) => {
+        clearTimeout(timeout);
+        reject(new Error('Connection lost'));
+      });
+      this.pendingRequests.clear();
+    });
+
+    this.transport.on('connect', () => {
+      if (!this.reconnectPending) {
+        return;
       }
+      this.reconnectPending = false;
+      this.reinitialize().catch((error) => {
+        console.error('Failed to re-initialize after reconnect:', error);
+      });
     });
 
     this.transport.on('error', (error) => {
@@ -496,6 +691,73 @@ export class ASPClient {
     });
   }
 
+  private async reinitialize(): Promise<void> {
+    this._state = 'connected';
+    await this.initialize();
+
+    const resumed = this._initializeResult?.resumed === true;
+    const resubscribed = resumed ? 0 : await this.resubscribe();
+
+    const event: ReconnectedEvent = { resumed, resubscribed };
+    this.reconnectedHandlers.forEach((handler) => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error('Error in reconnected handler:', error);
+      }
+    });
+  }
+
+  /**
+   * Recreate the known subscriptions on a new server session
+   * @returns number of subscriptions recreated
+   */
+  private async resubscribe(): Promise<number> {
+    const previous = Array.from(this.knownSubscriptions.values());
+    this.knownSubscriptions.clear();
+
+    let count = 0;
+    for (const old of previous) {
+      if (old.status === 'expired' || (old.expiresAt && new Date(old.expiresAt) <= new Date())) {
+        continue;
+      }
+
+      try {
+        const subscription = await this.subscribe({
+          filter: old.filter,
+          delivery: old.delivery,
+          ...(old.expiresAt && { expiresAt: old.expiresAt }),
+        });
+        if (old.status === 'paused') {
+          await this.pauseSubscription(subscription.id);
+        }
+        count++;
+
+        const event: ResubscribedEvent = {
+          previousSubscriptionId: old.id,
+          subscription: this.knownSubscriptions.get(subscription.id) ?? subscription,
+        };
+        this.resubscribedHandlers.forEach((handler) => {
+          try {
+            handler(event);
+          } catch (error) {
+            console.error('Error in resubscribed handler:', error);
+          }
+        });
+      } catch (error) {
+        console.error(`Failed to recreate subscription ${old.id}:`, error);
+      }
+    }
+    return count;
+  }
+
+  private setKnownStatus(subscriptionId: string, status: Subscription['status']): void {
+    const subscription = this.knownSubscriptions.get(subscriptionId);
+    if (subscription) {
+      this.knownSubscriptions.set(subscriptionId, { ...subscription, status });
+    }
+  }
+
   private handleMessage(
     message: JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
   ): void {
@@ -525,7 +787,9 @@ export class ASPClient {
 
     if (response.error) {
       pending.reject(
-        new Error(`${response.error.message} (code: ${response.error.code})`)
+        Object.assign(new Error(`${response.error.message} (code: ${response.error.code})`), {
+          code: response.error.code,
+        })
       );
     } else {
       pending.resolve(response.result);
@@ -540,11 +804,28 @@ export class ASPClient {
           subscriptionId: string;
         };
         this.notificationHandler.handleEvent(params.event, params.subscriptionId);
+        if (this.options.autoAcknowledge) {
+          this.acknowledgeEvent(params.event.id, params.subscriptionId).catch((error) => {
+            console.error('Failed to acknowledge event:', error);
+          });
+        }
+        break;
+      }
+
+      case ASPMethods.NotificationEventBatch: {
+        const params = notification.params as {
+          events: ESMCPEvent[];
+          subscriptionId: string;
+        };
+        for (const event of params.events) {
+          this.notificationHandler.handleEvent(event, params.subscriptionId);
+        }
         break;
       }
 
       case ASPMethods.NotificationSubscriptionExpired: {
         const params = notification.params as unknown as SubscriptionExpiredEvent;
+        this.knownSubscriptions.delete(params.subscriptionId);
         this.subscriptionExpiredHandlers.forEach((handler) => {
           try {
             handler(params);
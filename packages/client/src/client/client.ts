@@ -21,6 +21,7 @@ import type {
   ESMCPEvent,
 } from '@esmcp/core';
 import {
+  MCPE_PROTOCOL_VERSIONS,
   PROTOCOL_VERSION,
   createJsonRpcRequest,
 } from '@esmcp/core';
@@ -101,6 +102,7 @@ export class ESMCPClient {
   private async initialize(): Promise<void> {
     const params: InitializeParams = {
       protocolVersion: PROTOCOL_VERSION,
+      supportedVersions: [...MCPE_PROTOCOL_VERSIONS],
       clientInfo: this.options.clientInfo,
       capabilities: this.options.capabilities,
     };
@@ -1,2 +1,3 @@
 export * from './websocket.js';
 export * from './hybrid.js';
+export * from './mcp.js';
@@ -0,0 +1,134 @@
+import type {
+  Transport,
+  TransportState,
+  TransportEvents,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+} from '@esmcp/core';
+import { ASPMethods, MCPMethods } from '@esmcp/core';
+
+type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification;
+
+/**
+ * The parts of an MCP SDK client transport (e.g. StreamableHTTPClientTransport
+ * or StdioClientTransport) the adapter uses
+ */
+export interface MCPClientTransport {
+  start(): Promise<void>;
+  send(message: unknown): Promise<void>;
+  close(): Promise<void>;
+  onmessage?(message: unknown): void;
+  onclose?(): void;
+  onerror?(error: Error): void;
+}
+
+/**
+ * MCPTransportAdapter - runs ASPClient over an MCP SDK client transport
+ *
+ * Lets ASPClient talk to an EventsServer, which serves the jsonrpc flavour on
+ * its MCP transports. Sends `notifications/initialized` once the server
+ * answers initialize, as MCP requires (Streamable HTTP only opens its
+ * notification stream after it).
+ *
+ * @example
+ * ```typescript
+ * const transport = new MCPTransportAdapter(
+ *   new StreamableHTTPClientTransport(new URL('http://localhost:3000/mcp'))
+ * );
+ * const client = new ASPClient({ transport, clientInfo: { name: 'agent', version: '1.0.0' } });
+ * await client.connect();
+ * ```
+ */
+export class MCPTransportAdapter implements Transport {
+  private _state: TransportState = 'disconnected';
+  private listeners: Map<keyof TransportEvents, Set<Function>> = new Map();
+  private initializeId?: string | number;
+
+  constructor(private transport: MCPClientTransport) {}
+
+  get state(): TransportState {
+    return this._state;
+  }
+
+  async connect(): Promise<void> {
+    if (this._state === 'connected' || this._state === 'connecting') {
+      return;
+    }
+
+    this._state = 'connecting';
+    this.transport.onmessage = (message) => this.receive(message as JsonRpcMessage);
+    this.transport.onerror = (error) => {
+      // Closing aborts the notification stream
+      if (this._state !== 'disconnected') {
+        this.emit('error', error);
+      }
+    };
+    this.transport.onclose = () => {
+      if (this._state !== 'disconnected') {
+        this._state = 'disconnected';
+        this.emit('disconnect');
+      }
+    };
+
+    try {
+      await this.transport.start();
+    } catch (error) {
+      this._state = 'error';
+      throw error;
+    }
+    this._state = 'connected';
+    this.emit('connect');
+  }
+
+  async disconnect(): Promise<void> {
+    this._state = 'disconnected';
+    await this.transport.close();
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (this._state !== 'connected') {
+      throw new Error('Transport not connected');
+    }
+
+    if ('method' in message && message.method === ASPMethods.Initialize && 'id' in message) {
+      this.initializeId = message.id;
+      // MCP requires capabilities on initialize
+      message = { ...message, params: { ...message.params, capabilities: message.params?.capabilities ?? {} } };
+    }
+    await this.transport.send(message);
+  }
+
+  on<K extends keyof TransportEvents>(event: K, listener: TransportEvents[K]): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+  }
+
+  off<K extends keyof TransportEvents>(event: K, listener: TransportEvents[K]): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  private receive(message: JsonRpcMessage): void {
+    if ('id' in message && message.id === this.initializeId && 'result' in message) {
+      this.initializeId = undefined;
+      this.transport
+        .send({ jsonrpc: '2.0', method: MCPMethods.NotificationInitialized })
+        .catch((error) => this.emit('error', error));
+    }
+    this.emit('message', message);
+  }
+
+  private emit<K extends keyof TransportEvents>(
+    event: K,
+    ...args: Parameters<TransportEvents[K]>
+  ): void {
+    const set = this.listeners.get(event);
+    if (set) {
+      set.forEach((listener) => {
+        (listener as Function)(...args);
+      });
+    }
+  }
+}
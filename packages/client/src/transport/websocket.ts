@@ -1,4 +1,5 @@
 import WebSocket from 'ws';
+import { credentialsToHeaders } from '@esmcp/core';
 import type {
   Transport,
   TransportState,
@@ -15,6 +16,8 @@ export class WebSocketTransport implements Transport {
   private listeners: Map<keyof TransportEvents, Set<Function>> = new Map();
   private reconnectAttempts = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  // Set by disconnect() so the close does not trigger a reconnect
+  private closing = false;
 
   constructor(private options: ClientTransportOptions) {}
 
@@ -28,10 +31,13 @@ export class WebSocketTransport implements Transport {
     }
 
     this._state = 'connecting';
+    this.closing = false;
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.options.url);
+        this.ws = new WebSocket(this.options.url, {
+          headers: credentialsToHeaders(this.options.credentials ?? {}),
+        });
 
         this.ws.on('open', () => {
           this._state = 'connected';
@@ -52,7 +58,9 @@ export class WebSocketTransport implements Transport {
         this.ws.on('close', (_code, reason) => {
           this._state = 'disconnected';
           this.emit('disconnect', reason?.toString());
-          this.handleReconnect();
+          if (!this.closing) {
+            this.handleReconnect();
+          }
         });
 
         this.ws.on('error', (error) => {
@@ -68,6 +76,7 @@ export class WebSocketTransport implements Transport {
   }
 
   async disconnect(): Promise<void> {
+    this.closing = true;
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  credentialsFromRequest,
+  credentialsToHeaders,
+  isEventTypeAllowed,
+  isFilterAllowed,
+  type Principal,
+} from '../types/auth.js';
+
+describe('Auth', () => {
+  describe('credentialsFromRequest', () => {
+    it('should read bearer tokens and API keys from headers', () => {
+      expect(
+        credentialsFromRequest({ authorization: 'Bearer abc', 'x-api-key': 'key-1' })
+      ).toEqual({ bearerToken: 'abc', apiKey: 'key-1' });
+    });
+
+    it('should fall back to query parameters', () => {
+      const query = new URLSearchParams({ access_token: 'abc', api_key: 'key-1' });
+      expect(credentialsFromRequest({}, query)).toEqual({ bearerToken: 'abc', apiKey: 'key-1' });
+    });
+
+    it('should ignore other authorization schemes', () => {
+      expect(credentialsFromRequest({ authorization: 'Basic dXNlcjpwYXNz' })).toEqual({});
+    });
+
+    it('should round-trip through headers', () => {
+      const headers = credentialsToHeaders({ bearerToken: 'abc', apiKey: 'key-1' });
+      expect(
+        credentialsFromRequest({
+          authorization: headers.Authorization,
+          'x-api-key': headers['X-API-Key'],
+        })
+      ).toEqual({ bearerToken: 'abc', apiKey: 'key-1' });
+    });
+  });
+
+  describe('isFilterAllowed', () => {
+    const restricted: Principal = {
+      id: 'agent-1',
+      allowedEventTypes: ['github.*', 'slack.message'],
+      allowedTags: ['team-a'],
+    };
+
+    it('should allow anything for unrestricted principals', () => {
+      expect(isFilterAllowed({ id: 'admin' }, {})).toBe(true);
+    });
+
+    it('should allow event types within the allowed patterns', () => {
+      expect(
+        isFilterAllowed(restricted, {
+          eventTypes: ['github.push', 'github.*', 'slack.message'],
+          tags: ['team-a'],
+        })
+      ).toBe(true);
+    });
+
+    it('should reject event types outside the allowed patterns', () => {
+      expect(
+        isFilterAllowed(restricted, { eventTypes: ['slack.*'], tags: ['team-a'] })
+      ).toBe(false);
+      expect(
+        isFilterAllowed(restricted, { eventTypes: ['githubx.push'], tags: ['team-a'] })
+      ).toBe(false);
+    });
+
+    it('should require restricted principals to narrow the filter', () => {
+      expect(isFilterAllowed(restricted, { tags: ['team-a'] })).toBe(false);
+      expect(isFilterAllowed(restricted, { eventTypes: ['github.push'] })).toBe(false);
+      expect(
+        isFilterAllowed(restricted, { eventTypes: ['github.push'], tags: ['team-a', 'team-b'] })
+      ).toBe(false);
+    });
+  });
+
+  describe('isEventTypeAllowed', () => {
+    it('should limit publishers to their namespaces', () => {
+      const publisher: Principal = { id: 'ci', allowedEventTypes: ['ci.*', 'deploy.finished'] };
+      expect(isEventTypeAllowed(publisher, 'ci.build.failed')).toBe(true);
+      expect(isEventTypeAllowed(publisher, 'deploy.finished')).toBe(true);
+      expect(isEventTypeAllowed(publisher, 'deploy.started')).toBe(false);
+      expect(isEventTypeAllowed(publisher, 'cix.build')).toBe(false);
+      expect(isEventTypeAllowed({ id: 'admin' }, 'anything')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MCPE_NOTIFICATIONS,
+  MCPE_TOOLS,
+  flavourOfProtocolVersion,
+  getMCPEToolDefinitions,
+  requestToToolCall,
+  resultToToolResult,
+  toJsonRpcNotification,
+  toMcpToolsNotification,
+  toolCallToRequest,
+  toolResultToResult,
+} from '../types/compat.js';
+import { ErrorCodes } from '../types/messages.js';
+import { MCPEMethods, MCPE_PROTOCOL_VERSION } from '../types/protocol.js';
+
+describe('Compat', () => {
+  describe('flavourOfProtocolVersion', () => {
+    it('should tell the flavours apart', () => {
+      expect(flavourOfProtocolVersion(MCPE_PROTOCOL_VERSION)).toBe('jsonrpc');
+      expect(flavourOfProtocolVersion('2025-06-18')).toBe('mcp-tools');
+      expect(flavourOfProtocolVersion('1999-01-01')).toBeUndefined();
+    });
+  });
+
+  describe('toolCallToRequest', () => {
+    it('should map realtime delivery to the connection channel', () => {
+      expect(
+        toolCallToRequest(
+          MCPE_TOOLS.SUBSCRIBE,
+          { filter: { eventTypes: ['github.*'] }, delivery: { channels: ['realtime', 'cron'] } },
+          'sse'
+        )
+      ).toEqual({
+        method: MCPEMethods.SubscriptionCreate,
+        params: {
+          filter: { eventTypes: ['github.*'] },
+          delivery: { channels: ['sse', 'cron'], priority: 'normal' },
+        },
+      });
+    });
+
+    it('should nest update arguments', () => {
+      expect(toolCallToRequest(MCPE_TOOLS.UPDATE, { subscriptionId: 'sub-1', expiresAt: null })).toEqual({
+        method: MCPEMethods.SubscriptionUpdate,
+        params: { subscriptionId: 'sub-1', updates: { expiresAt: null } },
+      });
+    });
+
+    it('should reject unknown tools and unsupported arguments', () => {
+      expect(() => toolCallToRequest('events_history')).toThrow();
+      expect(() =>
+        toolCallToRequest(MCPE_TOOLS.SUBSCRIBE, { filter: {}, handler: { type: 'bash', command: 'true' } })
+      ).toThrow(expect.objectContaining({ code: ErrorCodes.InvalidParams }));
+    });
+  });
+
+  describe('requestToToolCall', () => {
+    it('should flatten updates and map channels to realtime', () => {
+      expect(
+        requestToToolCall(MCPEMethods.SubscriptionUpdate, {
+          subscriptionId: 'sub-1',
+          updates: { delivery: { channels: ['websocket', 'sse'], priority: 'high' } },
+        })
+      ).toEqual({
+        name: MCPE_TOOLS.UPDATE,
+        arguments: { subscriptionId: 'sub-1', delivery: { channels: ['realtime'] } },
+      });
+    });
+
+    it('should ignore methods without a tool and reject status updates', () => {
+      expect(requestToToolCall(MCPEMethods.GetCapabilities)).toBeUndefined();
+      expect(() =>
+        requestToToolCall(MCPEMethods.SubscriptionUpdate, { subscriptionId: 'sub-1', updates: { status: 'paused' } })
+      ).toThrow(expect.objectContaining({ code: ErrorCodes.InvalidParams }));
+    });
+  });
+
+  describe('results', () => {
+    const subscription = {
+      id: 'sub-1',
+      clientId: 'client-1',
+      filter: { eventTypes: ['github.*'] },
+      delivery: { channels: ['websocket'], priority: 'normal' },
+      status: 'active',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    it('should round-trip a subscription through both flavours', () => {
+      const toolResult = resultToToolResult(MCPE_TOOLS.SUBSCRIBE, subscription);
+      expect(toolResult).toEqual({
+        subscriptionId: 'sub-1',
+        status: 'active',
+        filter: { eventTypes: ['github.*'] },
+        delivery: { channels: ['realtime'] },
+        createdAt: '2025-01-01T00:00:00.000Z',
+      });
+      expect(toolResultToResult(MCPEMethods.SubscriptionCreate, toolResult, 'client-1')).toEqual(subscription);
+    });
+
+    it('should shape pause results for each flavour', () => {
+      expect(resultToToolResult(MCPE_TOOLS.PAUSE, { success: true, status: 'paused' }, { subscriptionId: 'sub-1' }))
+        .toEqual({ subscriptionId: 'sub-1', status: 'paused' });
+      expect(toolResultToResult(MCPEMethods.SubscriptionPause, { subscriptionId: 'sub-1', status: 'paused' }, 'c'))
+        .toEqual({ success: true, status: 'paused' });
+    });
+  });
+
+  describe('notifications', () => {
+    it('should rename notifications between flavours', () => {
+      const notification = { jsonrpc: '2.0' as const, method: MCPEMethods.NotificationEvent, params: { id: 'e' } };
+      const renamed = toMcpToolsNotification(notification);
+      expect(renamed.method).toBe(MCPE_NOTIFICATIONS.EVENT);
+      expect(toJsonRpcNotification(renamed)).toEqual(notification);
+    });
+
+    it('should add expiredAt to expiry notifications', () => {
+      const notification = toJsonRpcNotification({
+        jsonrpc: '2.0',
+        method: MCPE_NOTIFICATIONS.SUBSCRIPTION_EXPIRED,
+        params: { subscriptionId: 'sub-1' },
+      });
+      expect(notification.method).toBe(MCPEMethods.NotificationSubscriptionExpired);
+      expect(notification.params).toMatchObject({ subscriptionId: 'sub-1', expiredAt: expect.any(String) });
+    });
+  });
+
+  describe('getMCPEToolDefinitions', () => {
+    it('should describe the subscription tools', () => {
+      const tools = getMCPEToolDefinitions();
+      expect(tools.map((tool) => tool.name)).toEqual([
+        MCPE_TOOLS.SUBSCRIBE,
+        MCPE_TOOLS.UNSUBSCRIBE,
+        MCPE_TOOLS.LIST,
+        MCPE_TOOLS.PAUSE,
+        MCPE_TOOLS.RESUME,
+        MCPE_TOOLS.UPDATE,
+      ]);
+
+      const update = tools.find((tool) => tool.name === MCPE_TOOLS.UPDATE)!;
+      expect(update.inputSchema.required).toEqual(['subscriptionId']);
+      expect(update.inputSchema.properties).not.toHaveProperty('status');
+    });
+  });
+});
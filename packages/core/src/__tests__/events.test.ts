@@ -1,11 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import {
   ESMCPEventSchema,
+  EventFilterSchema,
   matchesFilter,
   createEvent,
   type ESMCPEvent,
   type EventFilter,
 } from '../types/events.js';
+import { MAX_MATCH_LENGTH, MAX_PATTERN_LENGTH } from '../types/predicates.js';
 
 describe('Events', () => {
   describe('ESMCPEventSchema', () => {
@@ -88,6 +90,104 @@ describe('Events', () => {
     });
   });
 
+  describe('data predicates (filter.where)', () => {
+    const event: ESMCPEvent = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      type: 'github.push',
+      data: {
+        branch: 'main',
+        additions: 42,
+        labels: ['bug', 'urgent'],
+        repository: { name: 'mcp-events', owner: 'acme' },
+      },
+      metadata: {
+        timestamp: '2024-01-01T00:00:00.000Z',
+        priority: 'normal',
+      },
+    };
+
+    it('should compare fields by dot path', () => {
+      expect(matchesFilter(event, { where: { field: 'data.branch', op: 'eq', value: 'main' } })).toBe(true);
+      expect(matchesFilter(event, { where: { field: 'data.repository.owner', op: 'ne', value: 'acme' } })).toBe(false);
+      expect(matchesFilter(event, { where: { field: '$.data.labels[1]', op: 'eq', value: 'urgent' } })).toBe(true);
+    });
+
+    it('should support ordering, membership and pattern operators', () => {
+      expect(matchesFilter(event, { where: { field: 'data.additions', op: 'gt', value: 10 } })).toBe(true);
+      expect(matchesFilter(event, { where: { field: 'data.additions', op: 'lte', value: 10 } })).toBe(false);
+      expect(matchesFilter(event, { where: { field: 'data.additions', op: 'gt', value: '10' } })).toBe(false);
+      expect(matchesFilter(event, { where: { field: 'data.branch', op: 'in', value: ['main', 'develop'] } })).toBe(true);
+      expect(matchesFilter(event, { where: { field: 'data.labels', op: 'contains', value: 'bug' } })).toBe(true);
+      expect(matchesFilter(event, { where: { field: 'data.repository.name', op: 'matches', value: '^mcp-' } })).toBe(true);
+      expect(matchesFilter(event, { where: { field: 'data.sha', op: 'exists' } })).toBe(false);
+      expect(matchesFilter(event, { where: { field: 'data.sha', op: 'exists', value: false } })).toBe(true);
+    });
+
+    it('should combine predicates with and/or/not', () => {
+      const filter: EventFilter = {
+        eventTypes: ['github.*'],
+        where: {
+          and: [
+            { or: [{ field: 'data.branch', op: 'eq', value: 'main' }, { field: 'data.branch', op: 'eq', value: 'release' }] },
+            { not: { field: 'data.labels', op: 'contains', value: 'wip' } },
+          ],
+        },
+      };
+      expect(matchesFilter(event, filter)).toBe(true);
+      expect(matchesFilter({ ...event, data: { ...event.data, labels: ['wip'] } }, filter)).toBe(false);
+    });
+
+    it('should reject invalid predicates', () => {
+      expect(EventFilterSchema.safeParse({ where: { field: 'data.x', op: 'eq', value: 1 } }).success).toBe(true);
+      expect(EventFilterSchema.safeParse({ where: { field: 'data.x', op: 'gt' } }).success).toBe(false);
+      expect(EventFilterSchema.safeParse({ where: { field: 'data.x', op: 'in', value: 'a' } }).success).toBe(false);
+      expect(EventFilterSchema.safeParse({ where: { field: 'data.x', op: 'matches', value: '(' } }).success).toBe(false);
+      expect(EventFilterSchema.safeParse({ where: { and: [] } }).success).toBe(false);
+      expect(EventFilterSchema.safeParse({ where: { field: 'data.x', op: 'like', value: 'a' } }).success).toBe(false);
+    });
+
+    it('should compare objects and arrays structurally', () => {
+      const owner = { field: 'data.repository', op: 'eq', value: { owner: 'acme', name: 'mcp-events' } } as const;
+      expect(matchesFilter(event, { where: owner })).toBe(true);
+      expect(matchesFilter(event, { where: { ...owner, value: { name: 'mcp-events' } } })).toBe(false);
+      expect(matchesFilter(event, { where: { ...owner, value: { name: 'mcp-events', owner: 'acme', x: 1 } } })).toBe(
+        false
+      );
+      expect(matchesFilter(event, { where: { field: 'data.labels', op: 'eq', value: ['bug', 'urgent'] } })).toBe(true);
+      expect(matchesFilter(event, { where: { field: 'data.labels', op: 'eq', value: ['urgent', 'bug'] } })).toBe(false);
+      expect(matchesFilter(event, { where: { field: 'data.labels', op: 'eq', value: { 0: 'bug', 1: 'urgent' } } })).toBe(
+        false
+      );
+    });
+
+    it('should reject over-long and catastrophic regular expressions', () => {
+      const parse = (value: string) => EventFilterSchema.safeParse({ where: { field: 'data.x', op: 'matches', value } });
+      expect(parse('a'.repeat(MAX_PATTERN_LENGTH)).success).toBe(true);
+      expect(parse('a'.repeat(MAX_PATTERN_LENGTH + 1)).success).toBe(false);
+      expect(parse('^(a+)+$').success).toBe(false);
+      expect(parse('(\\w*)*x').success).toBe(false);
+      expect(parse('(x{2,})+').success).toBe(false);
+      expect(parse('((a+))+$').success).toBe(false);
+      expect(parse('(a|a)+$').success).toBe(false);
+      expect(parse('(?:a+){3}').success).toBe(false);
+      expect(parse('(a)\\1+').success).toBe(false);
+      expect(parse('^(ab)+$').success).toBe(true);
+      expect(parse('(a\\+)+').success).toBe(true);
+      expect(parse('^(ab){2}(cd)?[(|+]+$').success).toBe(true);
+
+      // Unvalidated predicates never run unsafe patterns
+      const where = { field: 'data.branch', op: 'matches', value: '^(a+)+$' } as const;
+      expect(matchesFilter({ ...event, data: { branch: `${'a'.repeat(40)}!` } }, { where })).toBe(false);
+
+      // Long values are never matched
+      const prefix = { field: 'data.branch', op: 'matches', value: '^a' } as const;
+      expect(matchesFilter({ ...event, data: { branch: 'a'.repeat(MAX_MATCH_LENGTH) } }, { where: prefix })).toBe(true);
+      expect(matchesFilter({ ...event, data: { branch: 'a'.repeat(MAX_MATCH_LENGTH + 1) } }, { where: prefix })).toBe(
+        false
+      );
+    });
+  });
+
   describe('createEvent', () => {
     it('should create an event with generated ID and timestamp', () => {
       const event = createEvent(
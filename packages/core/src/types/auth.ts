@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import type { EventFilter } from './events.js';
+
+/**
+ * Credentials a client presents when connecting or initializing
+ */
+export const AuthCredentialsSchema = z.object({
+  bearerToken: z.string().optional(),
+  apiKey: z.string().optional(),
+});
+
+export type AuthCredentials = z.infer<typeof AuthCredentialsSchema>;
+
+/**
+ * The authenticated identity behind a connection
+ */
+export interface Principal {
+  id: string;
+  /**
+   * Event type patterns the principal may subscribe to, or publish when it
+   * is a publisher (e.g. 'github.*'). Unrestricted when omitted.
+   */
+  allowedEventTypes?: string[];
+  /** Tags the principal may subscribe to. Unrestricted when omitted. */
+  allowedTags?: string[];
+  /** Anything else the authenticator wants to keep with the connection */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Resolves client credentials to a principal
+ */
+export interface Authenticator {
+  /**
+   * @returns the principal, or null to reject the credentials
+   */
+  authenticate(credentials: AuthCredentials): Promise<Principal | null>;
+}
+
+/**
+ * Read credentials from `Authorization: Bearer`/`X-API-Key` headers, or from
+ * `access_token`/`api_key` query parameters for clients that cannot set
+ * headers (e.g. browser EventSource and WebSocket)
+ */
+export function credentialsFromRequest(
+  headers: Record<string, string | string[] | undefined>,
+  query?: URLSearchParams
+): AuthCredentials {
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const authorization = header('authorization');
+  const bearerToken = authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? query?.get('access_token') ?? undefined;
+  const apiKey = header('x-api-key') ?? query?.get('api_key') ?? undefined;
+
+  return {
+    ...(bearerToken && { bearerToken }),
+    ...(apiKey && { apiKey }),
+  };
+}
+
+/**
+ * Headers carrying credentials, for transports that can set them
+ */
+export function credentialsToHeaders(credentials: AuthCredentials): Record<string, string> {
+  return {
+    ...(credentials.bearerToken && { Authorization: `Bearer ${credentials.bearerToken}` }),
+    ...(credentials.apiKey && { 'X-API-Key': credentials.apiKey }),
+  };
+}
+
+function isPatternAllowed(allowedEventTypes: string[], pattern: string): boolean {
+  return allowedEventTypes.some(
+    (allowed) =>
+      allowed === pattern || (allowed.endsWith('.*') && pattern.startsWith(allowed.slice(0, -1)))
+  );
+}
+
+/**
+ * Whether a publisher may publish events of a type
+ */
+export function isEventTypeAllowed(principal: Principal, eventType: string): boolean {
+  return !principal.allowedEventTypes || isPatternAllowed(principal.allowedEventTypes, eventType);
+}
+
+/**
+ * Default authorization: a restricted principal must name event types and
+ * tags in its filter, and each must be within what it is allowed
+ */
+export function isFilterAllowed(principal: Principal, filter: EventFilter): boolean {
+  const { allowedEventTypes, allowedTags } = principal;
+
+  if (allowedEventTypes) {
+    const eventTypes = filter.eventTypes ?? [];
+    const covered = (pattern: string) => isPatternAllowed(allowedEventTypes, pattern);
+    if (eventTypes.length === 0 || !eventTypes.every(covered)) {
+      return false;
+    }
+  }
+
+  if (allowedTags) {
+    const tags = filter.tags ?? [];
+    if (tags.length === 0 || !tags.every((tag) => allowedTags.includes(tag))) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,413 @@
+import { z } from 'zod';
+import {
+  MCPE_PROTOCOL_VERSIONS,
+  MCPEMethods,
+  MCPEOperationDefinitions,
+  type MCPEMethod,
+} from './protocol.js';
+import { ErrorCodes, type JsonRpcNotification } from './messages.js';
+import type { DeliveryChannel } from './subscriptions.js';
+
+/**
+ * Protocol flavours
+ *
+ * The events protocol is spoken in two flavours:
+ * - jsonrpc: `subscriptions/*` methods and `notifications/*` notifications
+ *   (EventHub, ASPClient)
+ * - mcp-tools: `events_*` MCP tools and `events/*` notifications
+ *   (EventsServer, EventsClient)
+ *
+ * Both share the event, filter and schedule model. The converters in this
+ * module translate everything else, so either client works against either
+ * server.
+ */
+export type ProtocolFlavour = 'jsonrpc' | 'mcp-tools';
+
+/**
+ * MCP tool names of the mcp-tools flavour
+ */
+export const MCPE_TOOLS = {
+  SUBSCRIBE: 'events_subscribe',
+  UNSUBSCRIBE: 'events_unsubscribe',
+  LIST: 'events_list',
+  PAUSE: 'events_pause',
+  RESUME: 'events_resume',
+  UPDATE: 'events_update',
+  HISTORY: 'events_history',
+  DEADLETTERS_LIST: 'events_deadletters_list',
+  DEADLETTERS_REPLAY: 'events_deadletters_replay',
+} as const;
+
+export type MCPEToolName = (typeof MCPE_TOOLS)[keyof typeof MCPE_TOOLS];
+
+/**
+ * Notification names of the mcp-tools flavour
+ */
+export const MCPE_NOTIFICATIONS = {
+  /** Single event delivery */
+  EVENT: 'events/event',
+  /** Batch event delivery (for cron/scheduled) */
+  BATCH: 'events/batch',
+  /** Subscription expired notification */
+  SUBSCRIPTION_EXPIRED: 'events/subscription_expired',
+} as const;
+
+/**
+ * MCP protocol versions that select the mcp-tools flavour, newest first
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-11-25', '2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+/**
+ * MCP methods that servers of the mcp-tools flavour answer
+ */
+export const MCPMethods = {
+  ToolsList: 'tools/list',
+  ToolsCall: 'tools/call',
+  Ping: 'ping',
+  NotificationInitialized: 'notifications/initialized',
+} as const;
+
+export const MCPToolCallParamsSchema = z.object({
+  name: z.string(),
+  arguments: z.record(z.unknown()).optional(),
+});
+
+export type MCPToolCallParams = z.infer<typeof MCPToolCallParamsSchema>;
+
+/**
+ * Initialize result for clients of the mcp-tools flavour
+ */
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  serverInfo: { name: string; version: string };
+  capabilities: Record<string, unknown>;
+}
+
+/**
+ * Method of the jsonrpc flavour behind each tool. events_history and the
+ * dead-letter tools have none.
+ */
+export const MCPE_TOOL_METHODS = {
+  [MCPE_TOOLS.SUBSCRIBE]: MCPEMethods.SubscriptionCreate,
+  [MCPE_TOOLS.UNSUBSCRIBE]: MCPEMethods.SubscriptionRemove,
+  [MCPE_TOOLS.LIST]: MCPEMethods.SubscriptionList,
+  [MCPE_TOOLS.PAUSE]: MCPEMethods.SubscriptionPause,
+  [MCPE_TOOLS.RESUME]: MCPEMethods.SubscriptionResume,
+  [MCPE_TOOLS.UPDATE]: MCPEMethods.SubscriptionUpdate,
+} as const satisfies Partial<Record<MCPEToolName, MCPEMethod>>;
+
+type ToolWithMethod = keyof typeof MCPE_TOOL_METHODS;
+
+const NOTIFICATION_NAMES: ReadonlyArray<readonly [string, string]> = [
+  [MCPEMethods.NotificationEvent, MCPE_NOTIFICATIONS.EVENT],
+  [MCPEMethods.NotificationEventBatch, MCPE_NOTIFICATIONS.BATCH],
+  [MCPEMethods.NotificationSubscriptionExpired, MCPE_NOTIFICATIONS.SUBSCRIPTION_EXPIRED],
+];
+
+type Params = Record<string, unknown>;
+
+/**
+ * Flavour selected by the protocolVersion of an initialize request, or
+ * undefined for versions of neither flavour
+ */
+export function flavourOfProtocolVersion(protocolVersion: unknown): ProtocolFlavour | undefined {
+  if ((MCPE_PROTOCOL_VERSIONS as readonly unknown[]).includes(protocolVersion)) {
+    return 'jsonrpc';
+  }
+  if ((MCP_PROTOCOL_VERSIONS as readonly unknown[]).includes(protocolVersion)) {
+    return 'mcp-tools';
+  }
+  return undefined;
+}
+
+/**
+ * Tool of the mcp-tools flavour for a jsonrpc method
+ */
+export function toolForMethod(method: string): ToolWithMethod | undefined {
+  return (Object.keys(MCPE_TOOL_METHODS) as ToolWithMethod[]).find(
+    (tool) => MCPE_TOOL_METHODS[tool] === method
+  );
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+function defined(values: Params): Params {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Delivery preferences of the jsonrpc flavour for mcp-tools preferences.
+ * The realtime channel becomes the channel of the client's connection.
+ */
+export function toJsonRpcDelivery(delivery: Params, realtimeChannel: DeliveryChannel = 'websocket'): Params {
+  const channels = (delivery.channels as string[] | undefined) ?? [];
+  return {
+    ...delivery,
+    channels: unique(channels.map((channel) => (channel === 'realtime' ? realtimeChannel : channel))),
+    priority: delivery.priority ?? 'normal',
+  };
+}
+
+/**
+ * Delivery preferences of the mcp-tools flavour for jsonrpc preferences.
+ * Every connection or push channel becomes realtime; priority and batching
+ * have no mcp-tools equivalent and are dropped.
+ */
+export function toMcpToolsDelivery(delivery: Params): Params {
+  const channels = (delivery.channels as string[] | undefined) ?? [];
+  return defined({
+    channels: unique(
+      channels.map((channel) => (channel === 'cron' || channel === 'scheduled' ? channel : 'realtime'))
+    ),
+    cronSchedule: delivery.cronSchedule,
+    scheduledDelivery: delivery.scheduledDelivery,
+  });
+}
+
+/**
+ * Request of the jsonrpc flavour for an MCP tool call
+ *
+ * @param realtimeChannel - channel of the caller's connection
+ * @throws {code, message} for unknown tools and arguments without a jsonrpc equivalent
+ */
+export function toolCallToRequest(
+  name: string,
+  args: Params = {},
+  realtimeChannel: DeliveryChannel = 'websocket'
+): { method: MCPEMethod; params: Params } {
+  const method = MCPE_TOOL_METHODS[name as ToolWithMethod];
+  if (!method) {
+    throw { code: ErrorCodes.InvalidParams, message: `Unknown tool: ${name}` };
+  }
+
+  switch (name) {
+    case MCPE_TOOLS.SUBSCRIBE:
+      for (const key of ['handler', 'replay']) {
+        if (args[key] !== undefined) {
+          throw { code: ErrorCodes.InvalidParams, message: `${key} is not supported by this server` };
+        }
+      }
+      return {
+        method,
+        params: defined({
+          filter: args.filter ?? {},
+          delivery: toJsonRpcDelivery((args.delivery as Params) ?? { channels: ['realtime'] }, realtimeChannel),
+          expiresAt: args.expiresAt,
+        }),
+      };
+    case MCPE_TOOLS.UPDATE:
+      return {
+        method,
+        params: {
+          subscriptionId: args.subscriptionId,
+          updates: defined({
+            filter: args.filter,
+            delivery: args.delivery && toJsonRpcDelivery(args.delivery as Params, realtimeChannel),
+            expiresAt: args.expiresAt,
+          }),
+        },
+      };
+    case MCPE_TOOLS.LIST:
+      return { method, params: defined({ status: args.status }) };
+    default:
+      return { method, params: { subscriptionId: args.subscriptionId } };
+  }
+}
+
+/**
+ * Tool result of the mcp-tools flavour for the result of a jsonrpc method
+ *
+ * @param args - arguments of the tool call
+ */
+export function resultToToolResult(name: string, result: unknown, args: Params = {}): Params {
+  const value = result as Params;
+  switch (name) {
+    case MCPE_TOOLS.SUBSCRIBE:
+      return defined({
+        subscriptionId: value.id,
+        status: value.status,
+        filter: value.filter,
+        delivery: toMcpToolsDelivery(value.delivery as Params),
+        createdAt: value.createdAt,
+        expiresAt: value.expiresAt,
+      });
+    case MCPE_TOOLS.UPDATE:
+      return defined({
+        subscriptionId: value.id,
+        status: value.status,
+        filter: value.filter,
+        delivery: toMcpToolsDelivery(value.delivery as Params),
+        createdAt: value.createdAt,
+        updatedAt: value.updatedAt,
+        expiresAt: value.expiresAt,
+      });
+    case MCPE_TOOLS.LIST:
+      return {
+        subscriptions: (value.subscriptions as Params[]).map((subscription) =>
+          defined({
+            id: subscription.id,
+            status: subscription.status,
+            filter: subscription.filter,
+            delivery: toMcpToolsDelivery(subscription.delivery as Params),
+            createdAt: subscription.createdAt,
+            expiresAt: subscription.expiresAt,
+          })
+        ),
+      };
+    case MCPE_TOOLS.PAUSE:
+    case MCPE_TOOLS.RESUME:
+      return { subscriptionId: args.subscriptionId, status: value.status };
+    default:
+      return value;
+  }
+}
+
+/**
+ * MCP tool call for a request of the jsonrpc flavour, or undefined for
+ * methods without a tool
+ *
+ * @throws {code, message} for params without an mcp-tools equivalent
+ */
+export function requestToToolCall(
+  method: string,
+  params: Params = {}
+): { name: ToolWithMethod; arguments: Params } | undefined {
+  const name = toolForMethod(method);
+  switch (name) {
+    case undefined:
+      return undefined;
+    case MCPE_TOOLS.SUBSCRIBE:
+      return {
+        name,
+        arguments: defined({
+          filter: params.filter,
+          delivery: params.delivery && toMcpToolsDelivery(params.delivery as Params),
+          expiresAt: params.expiresAt,
+        }),
+      };
+    case MCPE_TOOLS.UPDATE: {
+      const updates = (params.updates as Params | undefined) ?? {};
+      if (updates.status !== undefined) {
+        throw {
+          code: ErrorCodes.InvalidParams,
+          message: 'Use subscriptions/pause or subscriptions/resume to change the status',
+        };
+      }
+      return {
+        name,
+        arguments: defined({
+          subscriptionId: params.subscriptionId,
+          filter: updates.filter,
+          delivery: updates.delivery && toMcpToolsDelivery(updates.delivery as Params),
+          expiresAt: updates.expiresAt,
+        }),
+      };
+    }
+    case MCPE_TOOLS.LIST:
+      return { name, arguments: defined({ status: params.status }) };
+    default:
+      return { name, arguments: { subscriptionId: params.subscriptionId } };
+  }
+}
+
+/**
+ * Result of a jsonrpc method for the result of its MCP tool
+ *
+ * @param clientId - owner reported in subscriptions
+ * @param realtimeChannel - channel reported for realtime delivery
+ */
+export function toolResultToResult(
+  method: string,
+  toolResult: Params,
+  clientId: string,
+  realtimeChannel: DeliveryChannel = 'websocket'
+): unknown {
+  const subscription = (value: Params, id: unknown) =>
+    defined({
+      id,
+      clientId,
+      filter: value.filter,
+      delivery: toJsonRpcDelivery(value.delivery as Params, realtimeChannel),
+      status: value.status,
+      createdAt: value.createdAt,
+      updatedAt: value.updatedAt ?? value.createdAt,
+      expiresAt: value.expiresAt,
+    });
+
+  switch (method) {
+    case MCPEMethods.SubscriptionCreate:
+    case MCPEMethods.SubscriptionUpdate:
+      return subscription(toolResult, toolResult.subscriptionId);
+    case MCPEMethods.SubscriptionList:
+      return {
+        subscriptions: (toolResult.subscriptions as Params[]).map((value) => subscription(value, value.id)),
+      };
+    case MCPEMethods.SubscriptionPause:
+    case MCPEMethods.SubscriptionResume:
+      return { success: true, status: toolResult.status };
+    default:
+      return toolResult;
+  }
+}
+
+/**
+ * Notification of the mcp-tools flavour for a jsonrpc notification
+ */
+export function toMcpToolsNotification(notification: JsonRpcNotification): JsonRpcNotification {
+  const names = NOTIFICATION_NAMES.find(([jsonrpc]) => jsonrpc === notification.method);
+  return names ? { ...notification, method: names[1] } : notification;
+}
+
+/**
+ * Notification of the jsonrpc flavour for an mcp-tools notification
+ */
+export function toJsonRpcNotification(notification: JsonRpcNotification): JsonRpcNotification {
+  const names = NOTIFICATION_NAMES.find(([, mcpTools]) => mcpTools === notification.method);
+  if (!names) {
+    return notification;
+  }
+
+  const params = notification.params ?? {};
+  return {
+    ...notification,
+    method: names[0],
+    params:
+      names[0] === MCPEMethods.NotificationSubscriptionExpired
+        ? { expiredAt: new Date().toISOString(), ...params }
+        : params,
+  };
+}
+
+/**
+ * MCP tool definitions of the mcp-tools flavour, derived from the operation
+ * definitions of the jsonrpc flavour
+ */
+export function getMCPEToolDefinitions(): Array<{
+  name: ToolWithMethod;
+  description: string;
+  inputSchema: Params;
+}> {
+  return (Object.keys(MCPE_TOOL_METHODS) as ToolWithMethod[]).flatMap((name) => {
+    const operation = MCPEOperationDefinitions.find((op) => op.method === MCPE_TOOL_METHODS[name]);
+    if (!operation) {
+      return [];
+    }
+
+    const inputSchema = JSON.parse(JSON.stringify(operation.inputSchema));
+    if (name === MCPE_TOOLS.SUBSCRIBE) {
+      const delivery = inputSchema.properties.delivery.properties;
+      delivery.channels.items.enum = ['realtime', 'cron', 'scheduled'];
+      delete delivery.priority;
+      delete delivery.batchInterval;
+    } else if (name === MCPE_TOOLS.UPDATE) {
+      // Updates are flattened into the tool's arguments
+      const { status: _status, ...updates } = inputSchema.properties.updates.properties;
+      inputSchema.properties = { subscriptionId: inputSchema.properties.subscriptionId, ...updates };
+      inputSchema.required = ['subscriptionId'];
+    }
+
+    return [{ name, description: operation.description, inputSchema }];
+  });
+}
@@ -1,10 +1,17 @@
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
+import { DataPredicateSchema, evaluatePredicate } from './predicates.js';
 
+/**
+ * Event priority levels
+ */
 export const EventPrioritySchema = z.enum(['low', 'normal', 'high', 'critical']);
 
 export type EventPriority = z.infer<typeof EventPrioritySchema>;
 
+/**
+ * Event metadata - standardized metadata attached to every event
+ */
 export const EventMetadataSchema = z.object({
   sourceEventId: z.string().optional(),
   timestamp: z.string().datetime(),
@@ -14,6 +21,9 @@ export const EventMetadataSchema = z.object({
 
 export type EventMetadata = z.infer<typeof EventMetadataSchema>;
 
+/**
+ * Event - the core event type, shared by EventHub and EventsServer
+ */
 export const ESMCPEventSchema = z.object({
   id: z.string().uuid(),
   type: z.string(),
@@ -23,15 +33,30 @@ export const ESMCPEventSchema = z.object({
 
 export type ESMCPEvent = z.infer<typeof ESMCPEventSchema>;
 
+/**
+ * Event filter for subscriptions - defines which events to receive
+ */
 export const EventFilterSchema = z.object({
   eventTypes: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
   priority: z.array(EventPrioritySchema).optional(),
+  where: DataPredicateSchema.optional().describe('Predicate over event fields, e.g. { field: "data.branch", op: "eq", value: "main" }'),
 });
 
 export type EventFilter = z.infer<typeof EventFilterSchema>;
 
+/**
+ * Check if an event matches a filter
+ *
+ * Matching rules:
+ * - Empty filter matches all events
+ * - eventTypes: supports exact match or wildcard (e.g., "github.*")
+ * - tags: event must have at least one matching tag (OR)
+ * - priority: event priority must be in the list
+ * - where: data predicate must evaluate to true
+ */
 export function matchesFilter(event: ESMCPEvent, filter: EventFilter): boolean {
+  // Event type filter (supports wildcards)
   if (filter.eventTypes && filter.eventTypes.length > 0) {
     const matches = filter.eventTypes.some((pattern) => {
       if (pattern.endsWith('.*')) {
@@ -45,6 +70,7 @@ export function matchesFilter(event: ESMCPEvent, filter: EventFilter): boolean {
     }
   }
 
+  // Tags filter (OR - matches if any tag matches)
   if (filter.tags && filter.tags.length > 0) {
     const eventTags = event.metadata.tags || [];
     const hasMatchingTag = filter.tags.some((tag) => eventTags.includes(tag));
@@ -53,15 +79,24 @@ export function matchesFilter(event: ESMCPEvent, filter: EventFilter): boolean {
     }
   }
 
+  // Priority filter
   if (filter.priority && filter.priority.length > 0) {
     if (!filter.priority.includes(event.metadata.priority)) {
       return false;
     }
   }
 
+  // Data predicate
+  if (filter.where && !evaluatePredicate(event, filter.where)) {
+    return false;
+  }
+
   return true;
 }
 
+/**
+ * Create a new event with auto-generated ID and timestamp
+ */
 export function createEvent(
   type: string,
   data: Record<string, unknown>,
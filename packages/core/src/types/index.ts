@@ -1,5 +1,9 @@
 export * from './events.js';
+export * from './predicates.js';
 export * from './subscriptions.js';
 export * from './messages.js';
 export * from './transport.js';
 export * from './protocol.js';
+export * from './auth.js';
+export * from './compat.js';
+export * from './versions.js';
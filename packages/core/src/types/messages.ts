@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ESMCPEventSchema } from './events.js';
+import { AuthCredentialsSchema } from './auth.js';
 import {
   SubscriptionSchema,
   CreateSubscriptionRequestSchema,
@@ -32,6 +33,8 @@ export type ServerInfo = z.infer<typeof ServerInfoSchema>;
 export const ClientCapabilitiesSchema = z.object({
   websocket: z.boolean().optional(),
   apns: z.boolean().optional(),
+  /** Client acknowledges every event with events/acknowledge; unacknowledged events are redelivered */
+  acknowledgements: z.boolean().optional(),
 });
 
 export type ClientCapabilities = z.infer<typeof ClientCapabilitiesSchema>;
@@ -77,17 +80,29 @@ export type JsonRpcNotification = z.infer<typeof JsonRpcNotificationSchema>;
 
 // Initialize
 export const InitializeParamsSchema = z.object({
+  /** Version the client prefers, normally its latest */
   protocolVersion: z.string(),
+  /** Every version the client speaks; the server picks the highest it shares */
+  supportedVersions: z.array(z.string()).optional(),
   clientInfo: ClientInfoSchema,
   capabilities: ClientCapabilitiesSchema.optional(),
+  /** Token from a previous initialize result, to take over that session's subscriptions */
+  sessionToken: z.string().optional(),
+  /** Credentials for hubs that require authentication */
+  credentials: AuthCredentialsSchema.optional(),
 });
 
 export type InitializeParams = z.infer<typeof InitializeParamsSchema>;
 
 export const InitializeResultSchema = z.object({
+  /** Version negotiated for the connection */
   protocolVersion: z.string(),
   serverInfo: ServerInfoSchema,
   capabilities: ServerCapabilitiesSchema,
+  /** Token to resume this session after reconnecting */
+  sessionToken: z.string().optional(),
+  /** Whether the session of the supplied sessionToken was resumed */
+  resumed: z.boolean().optional(),
 });
 
 export type InitializeResult = z.infer<typeof InitializeResultSchema>;
@@ -132,9 +147,18 @@ export type SubscriptionUpdateResult = z.infer<typeof SubscriptionUpdateResultSc
 export const EventNotificationParamsSchema = z.object({
   event: ESMCPEventSchema,
   subscriptionId: z.string().uuid(),
+  /** Delivery attempt, present when the client acknowledges events */
+  attempt: z.number().int().positive().optional(),
 });
 export type EventNotificationParams = z.infer<typeof EventNotificationParamsSchema>;
 
+/** Events coalesced for a subscription with batch priority, oldest first */
+export const EventBatchNotificationParamsSchema = z.object({
+  events: z.array(ESMCPEventSchema),
+  subscriptionId: z.string().uuid(),
+});
+export type EventBatchNotificationParams = z.infer<typeof EventBatchNotificationParamsSchema>;
+
 export const EventAcknowledgeParamsSchema = z.object({
   eventId: z.string().uuid(),
   subscriptionId: z.string().uuid(),
@@ -146,12 +170,40 @@ export const EventAcknowledgeResultSchema = z.object({
 });
 export type EventAcknowledgeResult = z.infer<typeof EventAcknowledgeResultSchema>;
 
-// Device registration (APNS)
-export const DeviceRegisterParamsSchema = z.object({
-  token: z.string(),
-  platform: z.enum(['ios', 'macos']),
-  bundleId: z.string(),
+/**
+ * Publish an event into the hub. Authenticated with the publisher's
+ * credentials, independently of the connection's subscriber credentials.
+ */
+export const EventPublishParamsSchema = z.object({
+  event: ESMCPEventSchema,
+  credentials: AuthCredentialsSchema.optional(),
+});
+export type EventPublishParams = z.infer<typeof EventPublishParamsSchema>;
+
+export const EventPublishResultSchema = z.object({
+  eventId: z.string().uuid(),
+});
+export type EventPublishResult = z.infer<typeof EventPublishResultSchema>;
+
+// Device registration (APNS and Web Push)
+export const WebPushKeysSchema = z.object({
+  p256dh: z.string(),
+  auth: z.string(),
 });
+export type WebPushKeys = z.infer<typeof WebPushKeysSchema>;
+
+export const DeviceRegisterParamsSchema = z.union([
+  z.object({
+    token: z.string(),
+    platform: z.enum(['ios', 'macos']),
+    bundleId: z.string(),
+  }),
+  z.object({
+    token: z.string().url().describe('Push subscription endpoint'),
+    platform: z.literal('web'),
+    keys: WebPushKeysSchema,
+  }),
+]);
 export type DeviceRegisterParams = z.infer<typeof DeviceRegisterParamsSchema>;
 
 export const DeviceRegisterResultSchema = z.object({
@@ -0,0 +1,310 @@
+import { z } from 'zod';
+
+/**
+ * Comparison operators for data predicates
+ * - eq / ne: strict equality (structural for objects and arrays, ignoring key order)
+ * - gt / gte / lt / lte: numeric or string ordering
+ * - in: field value is one of `value` (an array)
+ * - contains: string contains `value`, or array includes `value`
+ * - exists: field is present (`value: false` inverts)
+ * - matches: string matches the regular expression in `value` (see MAX_PATTERN_LENGTH and MAX_MATCH_LENGTH)
+ */
+export const PredicateOperatorSchema = z.enum([
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'contains',
+  'exists',
+  'matches',
+]);
+
+export type PredicateOperator = z.infer<typeof PredicateOperatorSchema>;
+
+/**
+ * Data predicate - a boolean expression over event fields
+ *
+ * Field paths are dot-separated and resolved against the whole event,
+ * e.g. "data.repository", "data.labels[0]", "metadata.priority".
+ * A leading "$." (JSONPath root) is accepted and ignored.
+ */
+export type DataPredicate =
+  | { field: string; op: PredicateOperator; value?: unknown }
+  | { and: DataPredicate[] }
+  | { or: DataPredicate[] }
+  | { not: DataPredicate };
+
+/** Longest regular expression accepted by the "matches" operator */
+export const MAX_PATTERN_LENGTH = 256;
+
+/** Longest string the "matches" operator runs a pattern against; longer values never match */
+export const MAX_MATCH_LENGTH = 1000;
+
+// Compiled "matches" patterns, shared by every predicate using the same pattern
+const MAX_CACHED_PATTERNS = 1000;
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Read the quantifier starting at `index` (*, +, ?, {n}, {n,} or {n,m},
+ * optionally lazy)
+ * @returns its length and whether it repeats the preceding item
+ */
+function readQuantifier(pattern: string, index: number): { length: number; repeats: boolean } | undefined {
+  let quantifier: { length: number; repeats: boolean } | undefined;
+  const char = pattern[index];
+  if (char === '*' || char === '+') {
+    quantifier = { length: 1, repeats: true };
+  } else if (char === '?') {
+    quantifier = { length: 1, repeats: false };
+  } else if (char === '{') {
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (!braces) return undefined;
+    const max = braces[2] === undefined ? Number(braces[1]) : braces[3] === '' ? Infinity : Number(braces[3]);
+    quantifier = { length: braces[0].length, repeats: max > 1 };
+  }
+  if (quantifier && pattern[index + quantifier.length] === '?') {
+    quantifier.length++;
+  }
+  return quantifier;
+}
+
+/**
+ * Find constructs that make a backtracking engine take exponential time:
+ * a repeated group that contains a quantifier, alternation or another group,
+ * e.g. (a+)+, ((a+))+ or (a|a)+, and backreferences
+ * @returns a description of the construct, or undefined if none
+ */
+function findUnsafeConstruct(pattern: string): string | undefined {
+  // Whether each open group (the whole pattern first) contains a quantifier, alternation or group
+  const complex: boolean[] = [false];
+  // Whether the group that just closed contains one, while a quantifier may follow it
+  let closedComplex = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const quantifier = readQuantifier(pattern, i);
+    if (quantifier) {
+      if (closedComplex && quantifier.repeats) {
+        return 'repeated group containing a quantifier, alternation or group';
+      }
+      complex[complex.length - 1] = true;
+      closedComplex = false;
+      i += quantifier.length - 1;
+      continue;
+    }
+
+    closedComplex = false;
+    switch (pattern[i]) {
+      case '\\':
+        if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+          return 'backreference';
+        }
+        i++;
+        break;
+      case '[':
+        // Skip the character class
+        for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+          if (pattern[i] === '\\') i++;
+        }
+        break;
+      case '(':
+        complex[complex.length - 1] = true;
+        complex.push(false);
+        if (pattern[i + 1] === '?') {
+          // Skip the group syntax: (?: (?= (?! (?<= (?<! (?<name>
+          const syntax = /^\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(pattern.slice(i + 1));
+          i += syntax ? syntax[0].length : 0;
+        }
+        break;
+      case ')':
+        closedComplex = complex.length > 1 ? complex.pop()! : false;
+        break;
+      case '|':
+        complex[complex.length - 1] = true;
+        break;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check that a "matches" pattern compiles and is safe to run on event data
+ * @returns an error message, or undefined if valid
+ */
+function checkPattern(pattern: string): string | undefined {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Regular expression is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return `Invalid regular expression: ${pattern}`;
+  }
+  const unsafe = findUnsafeConstruct(pattern);
+  if (unsafe) {
+    return `Regular expression may take exponential time (${unsafe}): ${pattern}`;
+  }
+  return undefined;
+}
+
+/**
+ * Compile a "matches" pattern once and reuse it
+ * @returns undefined for patterns that fail validation
+ */
+function compilePattern(pattern: string): RegExp | undefined {
+  let compiled = patternCache.get(pattern);
+  if (compiled === undefined) {
+    compiled = checkPattern(pattern) ? null : new RegExp(pattern);
+    if (patternCache.size >= MAX_CACHED_PATTERNS) {
+      // Drop the oldest entry
+      patternCache.delete(patternCache.keys().next().value!);
+    }
+    patternCache.set(pattern, compiled);
+  }
+  return compiled ?? undefined;
+}
+
+const FieldPredicateSchema = z
+  .object({
+    field: z.string().min(1).describe('Dot path into the event, e.g. "data.repository"'),
+    op: PredicateOperatorSchema,
+    value: z.unknown().optional(),
+  })
+  .strict()
+  .superRefine((predicate, ctx) => {
+    if (predicate.op === 'exists') {
+      if (predicate.value !== undefined && typeof predicate.value !== 'boolean') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: '"exists" takes an optional boolean value' });
+      }
+      return;
+    }
+    if (predicate.value === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${predicate.op}" requires a value` });
+      return;
+    }
+    if (predicate.op === 'in' && !Array.isArray(predicate.value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '"in" requires an array value' });
+    }
+    if (predicate.op === 'matches') {
+      if (typeof predicate.value !== 'string') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: '"matches" requires a regular expression string' });
+        return;
+      }
+      const error = checkPattern(predicate.value);
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+      }
+    }
+  });
+
+export const DataPredicateSchema: z.ZodType<DataPredicate> = z.lazy(() =>
+  z.union([
+    FieldPredicateSchema,
+    z.object({ and: z.array(DataPredicateSchema).min(1) }).strict(),
+    z.object({ or: z.array(DataPredicateSchema).min(1) }).strict(),
+    z.object({ not: DataPredicateSchema }).strict(),
+  ])
+);
+
+/**
+ * Resolve a dot path (with optional [index] segments) against a value
+ */
+export function resolveFieldPath(root: unknown, path: string): unknown {
+  const normalized = path.startsWith('$.') ? path.slice(2) : path;
+  const segments = normalized.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+
+  let current: unknown = root;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Structural equality for JSON values; object key order is ignored
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => isEqual(v, b[i]))
+    );
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  return (
+    keys.length === Object.keys(bRecord).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(bRecord, key) && isEqual(aRecord[key], bRecord[key]))
+  );
+}
+
+function compare(a: unknown, b: unknown): number | undefined {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return undefined;
+}
+
+/**
+ * Evaluate a data predicate against an event (or any object)
+ */
+export function evaluatePredicate(target: unknown, predicate: DataPredicate): boolean {
+  if ('and' in predicate) {
+    return predicate.and.every((p) => evaluatePredicate(target, p));
+  }
+  if ('or' in predicate) {
+    return predicate.or.some((p) => evaluatePredicate(target, p));
+  }
+  if ('not' in predicate) {
+    return !evaluatePredicate(target, predicate.not);
+  }
+
+  const actual = resolveFieldPath(target, predicate.field);
+  const expected = predicate.value;
+
+  switch (predicate.op) {
+    case 'eq':
+      return isEqual(actual, expected);
+    case 'ne':
+      return !isEqual(actual, expected);
+    case 'gt': {
+      const result = compare(actual, expected);
+      return result !== undefined && result > 0;
+    }
+    case 'gte': {
+      const result = compare(actual, expected);
+      return result !== undefined && result >= 0;
+    }
+    case 'lt': {
+      const result = compare(actual, expected);
+      return result !== undefined && result < 0;
+    }
+    case 'lte': {
+      const result = compare(actual, expected);
+      return result !== undefined && result <= 0;
+    }
+    case 'in':
+      return Array.isArray(expected) && expected.some((v) => isEqual(actual, v));
+    case 'contains':
+      if (typeof actual === 'string' && typeof expected === 'string') {
+        return actual.includes(expected);
+      }
+      return Array.isArray(actual) && actual.some((v) => isEqual(v, expected));
+    case 'exists':
+      return (actual !== undefined) === (expected !== false);
+    case 'matches': {
+      if (typeof actual !== 'string' || typeof expected !== 'string' || actual.length > MAX_MATCH_LENGTH) return false;
+      return compilePattern(expected)?.test(actual) ?? false;
+    }
+    default:
+      return false;
+  }
+}
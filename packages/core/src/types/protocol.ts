@@ -15,8 +15,18 @@ import { DeliveryChannelSchema, DeliveryPrioritySchema } from './subscriptions.j
  * 4. Schema-Driven: LLM-friendly schemas for reasoning about subscriptions
  */
 
-// Protocol version following semver-like date format
-export const MCPE_PROTOCOL_VERSION = '2025-01-01';
+/**
+ * Protocol versions this implementation speaks, newest first. Versions
+ * follow a date format, so later versions compare greater as strings.
+ * - 2025-10-01: data predicates (filter.where)
+ * - 2025-01-01: initial version
+ */
+export const MCPE_PROTOCOL_VERSIONS = ['2025-10-01', '2025-01-01'] as const;
+
+export type MCPEProtocolVersion = (typeof MCPE_PROTOCOL_VERSIONS)[number];
+
+// Latest protocol version, sent by clients as their preferred version
+export const MCPE_PROTOCOL_VERSION: MCPEProtocolVersion = MCPE_PROTOCOL_VERSIONS[0];
 
 // Protocol name for identification
 export const MCPE_PROTOCOL_NAME = 'mcpe';
@@ -52,9 +62,11 @@ export const MCPEMethods = {
 
   // Event Operations
   EventAcknowledge: 'events/acknowledge',
+  EventPublish: 'events/publish',
 
   // Notifications (server -> client)
   NotificationEvent: 'notifications/event',
+  NotificationEventBatch: 'notifications/event_batch',
   NotificationSubscriptionExpired: 'notifications/subscription_expired',
 
   // Device Management (for push notifications)
@@ -100,6 +112,7 @@ export const MCPECapabilitiesSchema = z.object({
     supportsWildcardTypes: z.boolean().describe('Whether event type wildcards (e.g., github.*) are supported'),
     supportsTagFiltering: z.boolean().describe('Whether filtering by tags is supported'),
     supportsPriorityFiltering: z.boolean().describe('Whether filtering by priority is supported'),
+    supportsDataFiltering: z.boolean().optional().describe('Whether data predicates (filter.where) are supported'),
   }),
 
   // Delivery capabilities
@@ -197,6 +210,12 @@ export const MCPEOperationDefinitions: MCPEOperation[] = [
               items: { type: 'string', enum: ['low', 'normal', 'high', 'critical'] },
               description: 'Filter by event priority',
             },
+            where: {
+              type: 'object',
+              description:
+                'Predicate over event fields. Either { field, op, value } with op one of eq, ne, gt, gte, lt, lte, in, contains, exists, matches ' +
+                '(field is a dot path such as "data.repository"), or { and: [...] }, { or: [...] }, { not: {...} }',
+            },
           },
         },
         delivery: {
@@ -211,7 +230,7 @@ export const MCPEOperationDefinitions: MCPEOperation[] = [
             priority: {
               type: 'string',
               enum: ['realtime', 'normal', 'batch'],
-              description: 'Delivery priority',
+              description: 'Delivery priority: realtime is sent ahead of normal; batch coalesces events into one notifications/event_batch',
             },
             batchInterval: {
               type: 'number',
@@ -581,6 +600,7 @@ export const defaultMCPECapabilities: MCPECapabilities = {
     supportsWildcardTypes: true,
     supportsTagFiltering: true,
     supportsPriorityFiltering: true,
+    supportsDataFiltering: true,
   },
   delivery: {
     supportedChannels: ['websocket', 'sse', 'webpush', 'apns', 'cron', 'scheduled'],
@@ -1,4 +1,5 @@
 import type { JsonRpcRequest, JsonRpcResponse, JsonRpcNotification } from './messages.js';
+import type { AuthCredentials } from './auth.js';
 
 export type TransportState = 'disconnected' | 'connecting' | 'connected' | 'error';
 
@@ -25,6 +26,8 @@ export interface ClientTransportOptions {
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  /** Credentials sent when connecting */
+  credentials?: AuthCredentials;
 }
 
 export interface ServerTransportOptions {
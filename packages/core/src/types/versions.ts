@@ -0,0 +1,92 @@
+import {
+  MCPE_PROTOCOL_VERSIONS,
+  MCPEOperationDefinitions,
+  type MCPECapabilities,
+  type MCPEOperation,
+  type MCPEProtocolVersion,
+} from './protocol.js';
+
+/**
+ * Protocol version that introduced each feature added after 2025-01-01
+ */
+export const MCPEFeatureVersions = {
+  /** filter.where and capabilities.filters.supportsDataFiltering */
+  dataFiltering: '2025-10-01',
+} as const satisfies Record<string, MCPEProtocolVersion>;
+
+export type MCPEFeature = keyof typeof MCPEFeatureVersions;
+
+type JsonSchema = { properties?: Record<string, JsonSchema>; [key: string]: unknown };
+
+/**
+ * Highest protocol version supported by both sides, or undefined when they
+ * share none
+ *
+ * @param requested - the client's preferred version
+ * @param supported - every version the client speaks (clients before
+ *   negotiation only send their preferred version)
+ */
+export function negotiateProtocolVersion(
+  requested: string,
+  supported: readonly string[] = []
+): MCPEProtocolVersion | undefined {
+  const offered = new Set([requested, ...supported]);
+  return MCPE_PROTOCOL_VERSIONS.find((version) => offered.has(version));
+}
+
+/**
+ * Whether a connection at the given protocol version has a feature
+ */
+export function supportsFeature(protocolVersion: string, feature: MCPEFeature): boolean {
+  return protocolVersion >= MCPEFeatureVersions[feature];
+}
+
+/**
+ * Server capabilities as reported to a connection at the given protocol
+ * version, without fields of later versions
+ */
+export function getMCPECapabilitiesForVersion(
+  capabilities: MCPECapabilities,
+  protocolVersion: string
+): MCPECapabilities {
+  const { supportsDataFiltering, ...filters } = capabilities.filters;
+  return {
+    ...capabilities,
+    protocolVersion,
+    filters: supportsFeature(protocolVersion, 'dataFiltering')
+      ? { ...filters, supportsDataFiltering }
+      : filters,
+  };
+}
+
+/**
+ * Operation definitions as described to a connection at the given protocol
+ * version, optionally limited to the named operations
+ */
+export function getMCPEOperationsForVersion(
+  protocolVersion: string,
+  operationNames?: string[]
+): MCPEOperation[] {
+  const operations = operationNames?.length
+    ? MCPEOperationDefinitions.filter((op) => operationNames.includes(op.name))
+    : MCPEOperationDefinitions;
+
+  if (supportsFeature(protocolVersion, 'dataFiltering')) {
+    return operations;
+  }
+  return operations.map((op) => {
+    const properties = op.inputSchema.properties as Record<string, JsonSchema> | undefined;
+    const filter = properties?.filter;
+    if (!filter?.properties?.where) {
+      return op;
+    }
+    const { where: _where, ...filterProperties } = filter.properties;
+    return {
+      ...op,
+      inputSchema: {
+        ...op.inputSchema,
+        properties: { ...properties, filter: { ...filter, properties: filterProperties } },
+      },
+    };
+  });
+}
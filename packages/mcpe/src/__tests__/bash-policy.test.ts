@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { EventsServer } from '../server/events-server.js';
+import { HandlerExecutor } from '../server/handler-executor.js';
+import { MCPE_TOOLS, createEvent, type BashEventHandler } from '../types/index.js';
+
+const event = createEvent('test.event', { name: '$HOME; echo injected' }, { priority: 'normal' });
+
+// Commands the tests run
+const allowedCommands = ['echo', 'env', 'pwd', 'yes', 'sleep', 'mcpe-missing-command'].map((command) => ({ command }));
+
+function bash(command: string, options: Partial<BashEventHandler> = {}): BashEventHandler {
+  return { type: 'bash', command, input: 'env', timeout: 5000, ...options };
+}
+
+describe('Bash handler policy', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'mcpe-bash-'));
+    mkdirSync(join(root, 'jobs'));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should deny every command without an allowlist', async () => {
+    const executor = new HandlerExecutor();
+    expect(executor.checkHandler(bash('echo'))).toBe('Bash handlers need allowedCommands on this server');
+
+    const result = await executor.execute(event, bash('echo'), 'sub-1');
+    expect(result).toMatchObject({ success: false, failure: 'denied' });
+  });
+
+  it('should run commands without a shell by default', async () => {
+    const result = await new HandlerExecutor({ bash: { allowedCommands } }).execute(event, bash('echo', { args: ['{{event.data.name}}'] }), 'sub-1');
+    expect(result.output).toBe('$HOME; echo injected\n');
+  });
+
+  it('should only pass the inherited environment and handler variables', async () => {
+    process.env.MCPE_TEST_SECRET = 'secret';
+    try {
+      const result = await new HandlerExecutor({ bash: { allowedCommands, allowedEnv: ['GREETING'] } }).execute(event, bash('env', { env: { GREETING: 'hi' } }), 'sub-1');
+      expect(result.output).toContain('GREETING=hi');
+      expect(result.output).toContain('MCPE_EVENT_TYPE=test.event');
+      expect(result.output).not.toContain('MCPE_TEST_SECRET');
+    } finally {
+      delete process.env.MCPE_TEST_SECRET;
+    }
+  });
+
+  it('should deny commands and arguments outside the allowlist', async () => {
+    const executor = new HandlerExecutor({
+      bash: { allowedCommands: [{ command: 'echo', args: ['-n', /[a-z]+/] }] },
+    });
+
+    expect(executor.checkHandler(bash('rm', { args: ['-rf', '/'] }))).toBe('Command not allowed: rm');
+    expect(executor.checkHandler(bash('echo', { args: ['-n', 'hello'] }))).toBeUndefined();
+    expect(executor.checkHandler(bash('echo', { args: ['hello world'] }))).toContain('Argument not allowed');
+    // Templated arguments are checked once rendered
+    expect(executor.checkHandler(bash('echo', { args: ['{{event.data.name}}'] }))).toBeUndefined();
+
+    const result = await executor.execute(event, bash('echo', { args: ['{{event.data.name}}'] }), 'sub-1');
+    expect(result).toMatchObject({ success: false, failure: 'denied' });
+    expect(result.error).toContain('Argument not allowed for echo: $HOME; echo injected');
+  });
+
+  it('should check the event JSON argument against the rule in args input mode', async () => {
+    const denied = await new HandlerExecutor({
+      bash: { allowedCommands: [{ command: 'echo', args: ['-n'] }] },
+    }).execute(event, bash('echo', { args: ['-n'], input: 'args' }), 'sub-1');
+    expect(denied).toMatchObject({ success: false, failure: 'denied' });
+    expect(denied.error).toContain(`Argument not allowed for echo: ${JSON.stringify(event)}`);
+
+    const allowed = await new HandlerExecutor({
+      bash: { allowedCommands: [{ command: 'echo', args: ['-n', /\{.*\}/] }] },
+    }).execute(event, bash('echo', { args: ['-n'], input: 'args' }), 'sub-1');
+    expect(allowed.output).toBe(JSON.stringify(event));
+  });
+
+  it('should only let handlers set variables in allowedEnv', () => {
+    const greeting = bash('echo', { env: { GREETING: 'hi' } });
+    expect(new HandlerExecutor({ bash: { allowedCommands } }).checkHandler(greeting)).toBe(
+      'Bash handlers may not set GREETING'
+    );
+
+    const executor = new HandlerExecutor({ bash: { allowedCommands, allowedEnv: ['GREETING'] } });
+    expect(executor.checkHandler(greeting)).toBeUndefined();
+    expect(executor.checkHandler(bash('echo', { env: { PATH: '/tmp' } }))).toContain('may not set PATH');
+    expect(executor.checkHandler(bash('echo', { env: { GREETING: 'hi', BASH_FUNC_echo: 'x' } }))).toContain(
+      'BASH_FUNC_echo'
+    );
+  });
+
+  it('should keep working directories within the root', async () => {
+    const executor = new HandlerExecutor({ bash: { allowedCommands, cwdRoot: root } });
+
+    expect(executor.checkHandler(bash('pwd', { cwd: '..' }))).toContain('is outside');
+    expect(executor.checkHandler(bash('pwd', { cwd: '/' }))).toContain('is outside');
+
+    const result = await executor.execute(event, bash('pwd', { cwd: 'jobs' }), 'sub-1');
+    expect(result.output?.trim()).toBe(join(root, 'jobs'));
+  });
+
+  it('should kill commands whose output exceeds the cap', async () => {
+    const executor = new HandlerExecutor({ bash: { allowedCommands, maxOutputBytes: 1000 } });
+    const result = await executor.execute(event, bash('yes'), 'sub-1');
+
+    expect(result).toMatchObject({ success: false, error: 'Output exceeded 1000 bytes' });
+    expect(result.output!.length).toBeLessThanOrEqual(1000);
+  });
+
+  it('should limit concurrent runs per subscription', async () => {
+    const executor = new HandlerExecutor({ bash: { allowedCommands } });
+    const sleep = bash('sleep', { args: ['0.2'] });
+
+    const started = Date.now();
+    await Promise.all([executor.execute(event, sleep, 'sub-1'), executor.execute(event, sleep, 'sub-1')]);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(380);
+  });
+
+  it('should report commands that do not exist', async () => {
+    const result = await new HandlerExecutor({ bash: { allowedCommands } }).execute(event, bash('mcpe-missing-command', { input: 'stdin' }), 'sub-1');
+    expect(result).toMatchObject({ success: false, failure: 'error' });
+  });
+});
+
+describe('Bash policy on events_subscribe', () => {
+  it('should reject denied handlers with a tool error', async () => {
+    const events = new EventsServer({ name: 'test-server', version: '1.0.0', handlers: { bash: { enabled: false } } });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await events.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    try {
+      const result = await client.callTool({
+        name: MCPE_TOOLS.SUBSCRIBE,
+        arguments: { filter: {}, handler: { type: 'bash', command: 'echo' } },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ text: string }>)[0].text).toContain('Bash handlers are disabled on this server');
+      expect(events.subscriptionManager.listByClient('default')).toHaveLength(0);
+    } finally {
+      await client.close();
+      await events.close();
+    }
+  });
+});
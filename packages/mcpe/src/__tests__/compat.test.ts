@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
+import { ASPClient, MCPTransportAdapter } from '@esmcp/client';
+import { EventHub } from '@esmcp/server';
+import { ErrorCodes, createEvent } from '@esmcp/core';
+import { EventsClient } from '../client/events-client.js';
+import { EventsServer } from '../server/events-server.js';
+import { StreamableHttpServer } from '../server/streamable-http.js';
+import type { MCPEvent } from '../types/index.js';
+
+// The MCP SDK's WebSocket transport expects a global WebSocket (Node 22+)
+(globalThis as { WebSocket?: unknown }).WebSocket ??= WebSocket;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 5000) reject(new Error('Timed out'));
+      else setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+describe('EventsClient against EventHub', () => {
+  let hub: EventHub;
+  let client: EventsClient;
+  let port: number;
+
+  beforeEach(async () => {
+    port = await freePort();
+    hub = new EventHub({ port, host: '127.0.0.1', serverInfo: { name: 'hub', version: '1.0.0' } });
+    await hub.start();
+    client = new EventsClient({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new WebSocketClientTransport(new URL(`ws://127.0.0.1:${port}`)));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await hub.stop();
+  });
+
+  it('should manage subscriptions through the events_* tools', async () => {
+    expect(client.supportsEvents()).toBe(true);
+    const received: MCPEvent[] = [];
+    client.onEvent('github.*', (event) => void received.push(event));
+
+    const subscription = await client.subscribe({
+      filter: { eventTypes: ['github.*'] },
+      delivery: { channels: ['realtime'] },
+    });
+    expect(subscription).toMatchObject({ status: 'active', delivery: { channels: ['realtime'] } });
+
+    await hub.publishEvent(createEvent('github.push', { branch: 'main' }, { priority: 'normal' }));
+    await waitFor(() => received.length === 1);
+    expect(received[0].data).toEqual({ branch: 'main' });
+
+    expect(await client.pause(subscription.subscriptionId)).toEqual({
+      subscriptionId: subscription.subscriptionId,
+      status: 'paused',
+    });
+    const { subscriptions } = await client.listSubscriptions();
+    expect(subscriptions).toMatchObject([{ id: subscription.subscriptionId, status: 'paused' }]);
+
+    expect(await client.unsubscribe(subscription.subscriptionId)).toBe(true);
+    expect((await client.listSubscriptions()).subscriptions).toEqual([]);
+  });
+
+  it('should reject tool arguments the hub cannot honour', async () => {
+    await expect(
+      client.subscribe({
+        filter: { eventTypes: ['github.*'] },
+        delivery: { channels: ['realtime'] },
+        replay: { limit: 10 },
+      })
+    ).rejects.toThrow('replay is not supported');
+  });
+});
+
+describe('ASPClient against EventsServer', () => {
+  let events: EventsServer;
+  let http: StreamableHttpServer;
+  let client: ASPClient;
+
+  beforeEach(async () => {
+    const port = await freePort();
+    events = new EventsServer({ name: 'events', version: '1.0.0', perSession: true });
+    http = new StreamableHttpServer(events, { port, host: '127.0.0.1' });
+    await http.start();
+
+    const transport = new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`));
+    client = new ASPClient({
+      transport: new MCPTransportAdapter(transport),
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    });
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await http.stop();
+    await events.close();
+  });
+
+  it('should manage subscriptions through subscriptions/* methods', async () => {
+    expect(client.serverInfo?.name).toBe('events');
+    const received: MCPEvent[] = [];
+    client.onEvent('github.*', (event) => void received.push(event));
+
+    const subscription = await client.subscribe({
+      filter: { eventTypes: ['github.*'] },
+      delivery: { channels: ['websocket'], priority: 'normal' },
+    });
+    expect(subscription).toMatchObject({ status: 'active', delivery: { channels: ['websocket'] } });
+    expect(events.subscriptionManager.get(subscription.id)?.delivery.channels).toEqual(['realtime']);
+
+    await events.publish('github.push', { branch: 'main' }, { priority: 'normal' });
+    await waitFor(() => received.length === 1);
+    expect(received[0].data).toEqual({ branch: 'main' });
+
+    await client.pauseSubscription(subscription.id);
+    const [listed] = await client.listSubscriptions();
+    expect(listed).toMatchObject({ id: subscription.id, status: 'paused', filter: { eventTypes: ['github.*'] } });
+
+    const updated = await client.updateSubscription(subscription.id, { filter: { eventTypes: ['slack.*'] } });
+    expect(updated.filter).toEqual({ eventTypes: ['slack.*'] });
+
+    expect(await client.unsubscribe(subscription.id)).toBe(true);
+  });
+
+  it('should report tool failures as JSON-RPC errors', async () => {
+    await expect(client.pauseSubscription('00000000-0000-4000-8000-000000000000')).rejects.toThrow(
+      `(code: ${ErrorCodes.SubscriptionNotFound})`
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { EventLog } from '../server/event-log.js';
+import { EventsServer, type EventsServerConfig } from '../server/events-server.js';
+import { MCPE_NOTIFICATIONS, MCPE_TOOLS, createEvent, type MCPEvent } from '../types/index.js';
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 5000) reject(new Error('Timed out'));
+      else setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+const event = (type: string, n: number) => createEvent(type, { n }, { priority: 'normal' });
+const numbers = (events: MCPEvent[]) => events.map((e) => e.data.n);
+
+describe('EventLog', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should evict the oldest events beyond maxEvents', () => {
+    const log = new EventLog({ maxEvents: 3 });
+    [1, 2, 3, 4, 5].forEach((n) => log.append(event('github.push', n)));
+
+    expect(log.size).toBe(3);
+    expect(numbers(log.query().events)).toEqual([3, 4, 5]);
+  });
+
+  it('should retain nothing when maxEvents is 0', () => {
+    const log = new EventLog({ maxEvents: 0 });
+    log.append(event('github.push', 1));
+
+    expect(log.enabled).toBe(false);
+    expect(log.size).toBe(0);
+  });
+
+  it('should evict events older than maxAgeMs', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const log = new EventLog({ maxAgeMs: 60000 });
+    log.append(event('github.push', 1));
+    vi.setSystemTime(new Date('2024-01-01T00:00:30Z'));
+    log.append(event('github.push', 2));
+
+    vi.setSystemTime(new Date('2024-01-01T00:01:10Z'));
+    expect(numbers(log.query().events)).toEqual([2]);
+    vi.setSystemTime(new Date('2024-01-01T00:02:00Z'));
+    expect(log.size).toBe(0);
+  });
+
+  describe('query', () => {
+    let log: EventLog;
+    let events: MCPEvent[];
+
+    beforeEach(() => {
+      log = new EventLog();
+      events = [1, 2, 3, 4, 5].map((n) => event(n % 2 ? 'github.push' : 'slack.message', n));
+      events.forEach((e, i) => {
+        e.metadata.timestamp = new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString();
+        log.append(e);
+      });
+    });
+
+    it('should page through events after a cursor', () => {
+      const first = log.query({ limit: 2 });
+      expect(numbers(first.events)).toEqual([1, 2]);
+      expect(first).toMatchObject({ hasMore: true, nextCursor: events[1].id, cursorFound: true });
+
+      const second = log.query({ limit: 2, sinceEventId: first.nextCursor });
+      expect(numbers(second.events)).toEqual([3, 4]);
+
+      const last = log.query({ limit: 2, sinceEventId: second.nextCursor });
+      expect(numbers(last.events)).toEqual([5]);
+      expect(last).toMatchObject({ hasMore: false, nextCursor: events[4].id });
+    });
+
+    it('should report an evicted cursor and start from the oldest event', () => {
+      const result = log.query({ sinceEventId: 'evicted' });
+      expect(result.cursorFound).toBe(false);
+      expect(numbers(result.events)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should filter by timestamp and event filter', () => {
+      expect(numbers(log.query({ since: '2024-01-01T00:02:00.000Z' }).events)).toEqual([4, 5]);
+      expect(numbers(log.query({ filter: { eventTypes: ['github.*'] } }).events)).toEqual([1, 3, 5]);
+      expect(log.query({ filter: { eventTypes: ['github.*'] }, limit: 2 }).hasMore).toBe(true);
+    });
+  });
+});
+
+describe('EventsServer history', () => {
+  let events: EventsServer;
+  let client: Client;
+  let received: Array<{ event: MCPEvent; replayed?: boolean }>;
+
+  async function start(config: Partial<EventsServerConfig> = {}) {
+    events = new EventsServer({ name: 'test-server', version: '1.0.0', ...config });
+    received = [];
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await events.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    client.fallbackNotificationHandler = async (notification) => {
+      if (notification.method === MCPE_NOTIFICATIONS.EVENT) {
+        received.push(notification.params as { event: MCPEvent; replayed?: boolean });
+      }
+    };
+    await client.connect(clientTransport);
+  }
+
+  afterEach(async () => {
+    await client.close();
+    await events.close();
+  });
+
+  async function call(name: string, args: Record<string, unknown> = {}) {
+    const result = await client.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ text: string }>)[0].text;
+    expect(result.isError, text).toBeFalsy();
+    return JSON.parse(text);
+  }
+
+  it('should answer events_history from the retained events', async () => {
+    await start({ history: { maxEvents: 3 } });
+    for (let n = 1; n <= 4; n++) {
+      await events.publish(event(n === 2 ? 'slack.message' : 'github.push', n));
+    }
+
+    const all = await call(MCPE_TOOLS.HISTORY);
+    expect(numbers(all.events)).toEqual([2, 3, 4]);
+
+    const page = await call(MCPE_TOOLS.HISTORY, { filter: { eventTypes: ['github.*'] }, limit: 1 });
+    expect(numbers(page.events)).toEqual([3]);
+    expect(page.hasMore).toBe(true);
+    const next = await call(MCPE_TOOLS.HISTORY, {
+      filter: { eventTypes: ['github.*'] },
+      sinceEventId: page.nextCursor,
+    });
+    expect(numbers(next.events)).toEqual([4]);
+  });
+
+  it('should not offer events_history when the feature is disabled', async () => {
+    await start({ events: { features: { history: false } } });
+    await events.publish(event('github.push', 1));
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).not.toContain(MCPE_TOOLS.HISTORY);
+    expect(events.history().events).toEqual([]);
+  });
+
+  it('should replay matching retained events on subscribe before live events', async () => {
+    await start();
+    const published = [1, 2, 3].map((n) => event(n === 2 ? 'slack.message' : 'github.push', n));
+    for (const e of published) {
+      await events.publish(e);
+    }
+
+    const result = await call(MCPE_TOOLS.SUBSCRIBE, { filter: { eventTypes: ['github.*'] }, replay: {} });
+    expect(result.replayed).toBe(2);
+    await events.publish(event('github.push', 4));
+
+    await waitFor(() => received.length === 3);
+    expect(received.map(({ event: e, replayed }) => [e.data.n, replayed])).toEqual([
+      [1, true],
+      [3, true],
+      [4, undefined],
+    ]);
+  });
+
+  it('should replay only events after sinceEventId', async () => {
+    await start();
+    const published = [1, 2, 3].map((n) => event('github.push', n));
+    for (const e of published) {
+      await events.publish(e);
+    }
+
+    const result = await call(MCPE_TOOLS.SUBSCRIBE, {
+      filter: { eventTypes: ['github.*'] },
+      replay: { sinceEventId: published[0].id },
+    });
+    expect(result.replayed).toBe(2);
+    await waitFor(() => received.length === 2);
+    expect(numbers(received.map(({ event: e }) => e))).toEqual([2, 3]);
+  });
+
+  it('should not replay without the replay option', async () => {
+    await start();
+    await events.publish(event('github.push', 1));
+
+    const result = await call(MCPE_TOOLS.SUBSCRIBE, { filter: { eventTypes: ['github.*'] } });
+    expect(result.replayed).toBeUndefined();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, appendFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EventScheduler, type MissedTickPolicy } from '../server/event-scheduler.js';
+import { FilePendingEventQueue, MemoryPendingEventQueue } from '../server/pending-event-queue.js';
+import { createEvent, type MCPEvent, type Subscription } from '../types/index.js';
+
+function cronSubscription(createdAt: Date, maxEventsPerDelivery = 100): Subscription {
+  return {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    clientId: 'client-1',
+    filter: {},
+    delivery: {
+      channels: ['cron'],
+      cronSchedule: { expression: '0 * * * *', timezone: 'UTC', aggregateEvents: true, maxEventsPerDelivery },
+    },
+    status: 'active',
+    createdAt: createdAt.toISOString(),
+    updatedAt: createdAt.toISOString(),
+  };
+}
+
+const event = (n: number) => createEvent('github.push', { n }, { priority: 'normal' });
+
+describe('EventScheduler', () => {
+  let batches: Array<{ events: MCPEvent[]; droppedEvents: number }>;
+  let scheduler: EventScheduler | undefined;
+
+  beforeEach(() => {
+    batches = [];
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    scheduler?.stopAll();
+    scheduler = undefined;
+    vi.useRealTimers();
+  });
+
+  function createScheduler(queue = new MemoryPendingEventQueue(), missedTickPolicy: MissedTickPolicy = 'fire-once') {
+    scheduler = new EventScheduler({
+      queue,
+      missedTickPolicy,
+      onDeliverBatch: async (_id, events, _subscription, droppedEvents) => {
+        batches.push({ events, droppedEvents });
+      },
+    });
+    return scheduler;
+  }
+
+  it('should report events dropped on overflow with the next batch', async () => {
+    vi.setSystemTime(new Date('2024-01-01T10:30:00Z'));
+    const queue = new MemoryPendingEventQueue();
+    const subscription = cronSubscription(new Date('2024-01-01T10:00:00Z'), 2);
+    const before = createScheduler(queue);
+    before.startSubscription(subscription);
+    [1, 2, 3, 4, 5].forEach((n) => before.queueEvent(subscription.id, event(n)));
+    expect(before.getPendingCount(subscription.id)).toBe(2);
+    before.stopAll();
+
+    // The next run is delivered as a missed tick after a restart
+    vi.setSystemTime(new Date('2024-01-01T11:30:00Z'));
+    await createScheduler(queue).restoreSubscription(subscription);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].events.map((e) => e.data.n)).toEqual([4, 5]);
+    expect(batches[0].droppedEvents).toBe(3);
+    expect(queue.getDroppedSinceDelivery(subscription.id)).toBe(0);
+    expect(queue.getDroppedTotal(subscription.id)).toBe(3);
+  });
+
+  describe('missed ticks', () => {
+    const subscription = cronSubscription(new Date('2024-01-01T09:00:00Z'));
+
+    async function restartAfterDowntime(policy: MissedTickPolicy) {
+      // Two events queued and the server stopped at 10:30
+      vi.setSystemTime(new Date('2024-01-01T10:30:00Z'));
+      const queue = new MemoryPendingEventQueue();
+      queue.setLastRun(subscription.id, new Date('2024-01-01T10:00:00Z'));
+      const before = createScheduler(queue);
+      before.startSubscription(subscription);
+      before.queueEvent(subscription.id, event(1));
+      before.queueEvent(subscription.id, event(2));
+      before.stopAll();
+
+      // Restarted at 13:30, after the 11:00, 12:00 and 13:00 runs
+      vi.setSystemTime(new Date('2024-01-01T13:30:00Z'));
+      const after = createScheduler(queue, policy);
+      await after.restoreSubscription(subscription);
+      return { queue, after };
+    }
+
+    it('should deliver everything in one batch with fire-once', async () => {
+      const { queue } = await restartAfterDowntime('fire-once');
+      expect(batches.map((batch) => batch.events.length)).toEqual([2]);
+      expect(queue.getLastRun(subscription.id)).toEqual(new Date('2024-01-01T13:30:00Z'));
+    });
+
+    it('should deliver one batch per missed run with fire-all', async () => {
+      const { queue } = await restartAfterDowntime('fire-all');
+      expect(batches.map((batch) => batch.events.length)).toEqual([2, 0, 0]);
+      expect(queue.list(subscription.id)).toEqual([]);
+      expect(queue.getLastRun(subscription.id)).toEqual(new Date('2024-01-01T13:30:00Z'));
+    });
+
+    it('should keep pending events for the next run with skip', async () => {
+      const { after } = await restartAfterDowntime('skip');
+      expect(batches).toHaveLength(0);
+      expect(after.getPendingCount(subscription.id)).toBe(2);
+    });
+  });
+});
+
+describe('FilePendingEventQueue', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcpe-queue-'));
+    filePath = join(dir, 'pending-events.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lines = () => readFileSync(filePath, 'utf-8').trim().split('\n');
+
+  async function open(options: { compactAfter?: number } = {}) {
+    const queue = new FilePendingEventQueue({ filePath, ...options });
+    await queue.ready;
+    return queue;
+  }
+
+  it('should restore queued events, drop counters and last runs after a restart', async () => {
+    const queue = await open();
+    [1, 2, 3, 4].forEach((n) => queue.enqueue('sub-1', event(n), 3));
+    queue.enqueue('sub-2', event(5), 10);
+    queue.remove('sub-1', 1);
+    queue.setLastRun('sub-1', new Date('2024-01-01T10:00:00Z'));
+    queue.delete('sub-2');
+    await queue.flush();
+
+    const restored = await open();
+    expect(restored.list('sub-1')).toEqual(queue.list('sub-1'));
+    expect(restored.list('sub-1').map((entry) => entry.event.data.n)).toEqual([3, 4]);
+    expect(restored.getDroppedSinceDelivery('sub-1')).toBe(1);
+    expect(restored.getDroppedTotal('sub-1')).toBe(1);
+    expect(restored.getLastRun('sub-1')).toEqual(new Date('2024-01-01T10:00:00Z'));
+    expect(restored.list('sub-2')).toEqual([]);
+  });
+
+  it('should append changes and compact them into a snapshot', async () => {
+    const queue = await open({ compactAfter: 3 });
+    expect(lines()).toHaveLength(1);
+
+    [1, 2, 3].forEach((n) => queue.enqueue('sub-1', event(n), 10));
+    await queue.flush();
+    expect(lines()).toHaveLength(4);
+    expect(JSON.parse(lines()[3])).toMatchObject({ op: 'enqueue', subscriptionId: 'sub-1' });
+
+    queue.enqueue('sub-1', event(4), 10);
+    await queue.flush();
+    expect(lines()).toHaveLength(1);
+    expect((await open()).list('sub-1')).toHaveLength(4);
+  });
+
+  it('should keep changes made while loading', async () => {
+    const queue = await open();
+    queue.enqueue('sub-1', event(1), 10);
+    await queue.flush();
+
+    const restored = new FilePendingEventQueue({ filePath });
+    restored.enqueue('sub-1', event(2), 10);
+    await restored.ready;
+    expect(restored.list('sub-1').map((entry) => entry.event.data.n)).toEqual([1, 2]);
+
+    await restored.flush();
+    expect(lines()).toHaveLength(1);
+    expect((await open()).list('sub-1').map((entry) => entry.event.data.n)).toEqual([1, 2]);
+  });
+
+  it('should skip invalid and truncated lines', async () => {
+    const queue = await open();
+    queue.enqueue('sub-1', event(1), 10);
+    await queue.flush();
+    appendFileSync(filePath, `${JSON.stringify({ op: 'enqueue', subscriptionId: 'sub-1', entry: { event: {} } })}\n`);
+    appendFileSync(filePath, JSON.stringify({ op: 'remove', subscriptionId: 'sub-1', count: 1 }).slice(0, 20));
+
+    const restored = await open();
+    expect(restored.list('sub-1').map((entry) => entry.event.data.n)).toEqual([1]);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { EventsServer } from '../server/events-server.js';
+import { HandlerExecutor, retryDelay } from '../server/handler-executor.js';
+import {
+  HandlerRetryPolicySchema,
+  MCPE_TOOLS,
+  createEvent,
+  type WebhookEventHandler,
+} from '../types/index.js';
+
+const target = { subscriptionId: 'sub-1', clientId: 'client-1' };
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 5000) reject(new Error('Timed out'));
+      else setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+describe('retryDelay', () => {
+  const policy = HandlerRetryPolicySchema.parse({ initialDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 });
+
+  it('should grow the delay by the multiplier up to the maximum', () => {
+    const delays = [1, 2, 3, 4, 5].map((attempt) => retryDelay(policy, attempt, () => 0.5));
+    expect(delays).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('should shift the delay by up to the jitter fraction', () => {
+    expect(retryDelay(policy, 1, () => 0)).toBe(50);
+    expect(retryDelay(policy, 1, () => 1)).toBe(150);
+  });
+});
+
+describe('Handler retries', () => {
+  let server: Server;
+  let url: string;
+  // Statuses the webhook answers with, in order; 200 once exhausted
+  let statuses: number[];
+  let requests: number;
+  let executor: HandlerExecutor;
+
+  beforeEach(async () => {
+    statuses = [];
+    requests = 0;
+    server = createServer((_req, res) => {
+      requests++;
+      res.writeHead(statuses.shift() ?? 200).end('ok');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    executor = new HandlerExecutor();
+  });
+
+  afterEach(async () => {
+    executor.close();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function webhook(retry?: Record<string, unknown>): WebhookEventHandler {
+    return {
+      type: 'webhook',
+      url,
+      timeout: 1000,
+      retry: retry && HandlerRetryPolicySchema.parse({ initialDelayMs: 10, jitter: 0, ...retry }),
+    };
+  }
+
+  const event = createEvent('test.event', { n: 1 }, { priority: 'normal' });
+
+  it('should retry retryable failures until an attempt succeeds', async () => {
+    statuses = [502, 503];
+
+    const first = await executor.run(event, webhook({ maxAttempts: 3 }), target);
+    expect(first).toMatchObject({ success: false, failure: 'http_5xx' });
+
+    await waitFor(() => requests === 3);
+    expect(executor.deadLetters.list()).toHaveLength(0);
+  });
+
+  it('should dead-letter the event once every attempt failed', async () => {
+    statuses = [500, 500];
+
+    await executor.run(event, webhook({ maxAttempts: 2 }), target);
+    await waitFor(() => executor.deadLetters.list().length === 1);
+
+    expect(requests).toBe(2);
+    expect(executor.deadLetters.list()[0]).toMatchObject({
+      event,
+      ...target,
+      attempts: 2,
+      reason: 'max_attempts',
+      lastError: 'HTTP 500: ok',
+    });
+  });
+
+  it('should dead-letter failures the policy does not retry at once', async () => {
+    statuses = [400];
+
+    const first = await executor.run(event, webhook({ maxAttempts: 3 }), target);
+    expect(first.failure).toBe('http_4xx');
+
+    expect(requests).toBe(1);
+    expect(executor.deadLetters.list()[0]).toMatchObject({ attempts: 1, reason: 'not_retryable' });
+  });
+
+  it('should dead-letter failures of handlers without a retry policy', async () => {
+    statuses = [429];
+
+    await executor.run(event, webhook(), target);
+
+    expect(requests).toBe(1);
+    expect(executor.deadLetters.list()[0]).toMatchObject({ attempts: 1, reason: 'max_attempts' });
+  });
+
+  it('should replay a dead letter and remove it from the store', async () => {
+    statuses = [500];
+    await executor.run(event, webhook(), target);
+    const [deadLetter] = executor.deadLetters.list();
+
+    const result = await executor.replay(deadLetter.id);
+
+    expect(result?.success).toBe(true);
+    expect(executor.deadLetters.get(deadLetter.id)).toBeUndefined();
+    expect(await executor.replay(deadLetter.id)).toBeUndefined();
+  });
+
+  it('should drop pending retries of a cancelled subscription', async () => {
+    statuses = [500];
+
+    await executor.run(event, webhook({ initialDelayMs: 50 }), target);
+    executor.cancel(target.subscriptionId);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(requests).toBe(1);
+  });
+});
+
+describe('Dead-letter tools', () => {
+  let server: Server;
+  let healthy: boolean;
+  let events: EventsServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    healthy = false;
+    server = createServer((_req, res) => res.writeHead(healthy ? 200 : 500).end());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    events = new EventsServer({ name: 'test-server', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await events.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await events.close();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function call(name: string, args: Record<string, unknown> = {}) {
+    const result = await client.callTool({ name, arguments: args });
+    return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+  }
+
+  it('should list and replay events whose handler failed', async () => {
+    const { port } = server.address() as AddressInfo;
+    const { subscriptionId } = await call(MCPE_TOOLS.SUBSCRIBE, {
+      filter: { eventTypes: ['test.*'] },
+      delivery: { channels: ['realtime'] },
+      handler: {
+        type: 'webhook',
+        url: `http://127.0.0.1:${port}/hook`,
+        headers: { authorization: 'Bearer secret' },
+      },
+    });
+
+    await events.publish('test.event', { n: 1 }, { priority: 'normal' });
+    await waitFor(() => events.handlerExecutor.deadLetters.list().length === 1);
+
+    const { deadLetters } = await call(MCPE_TOOLS.DEADLETTERS_LIST, { subscriptionId });
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ subscriptionId, handlerType: 'webhook', attempts: 1 });
+    expect(JSON.stringify(deadLetters)).not.toContain('secret');
+
+    healthy = true;
+    const replay = await call(MCPE_TOOLS.DEADLETTERS_REPLAY, {
+      ids: [deadLetters[0].id, '00000000-0000-4000-8000-000000000000'],
+    });
+
+    expect(replay.results).toEqual([
+      { id: deadLetters[0].id, success: true },
+      { id: '00000000-0000-4000-8000-000000000000', success: false, error: expect.stringContaining('not found') },
+    ]);
+    expect((await call(MCPE_TOOLS.DEADLETTERS_LIST)).deadLetters).toHaveLength(0);
+  });
+});
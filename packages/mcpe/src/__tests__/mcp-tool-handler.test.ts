@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { EventsServer } from '../server/events-server.js';
+import { HandlerExecutor } from '../server/handler-executor.js';
+import { MCPE_TOOLS, createEvent, type McpToolEventHandler } from '../types/index.js';
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 5000) reject(new Error('Timed out'));
+      else setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+const event = createEvent('github.issue', { title: 'Broken build', number: 42 }, { priority: 'high' });
+
+const handler: McpToolEventHandler = {
+  type: 'mcp_tool',
+  server: 'linear',
+  tool: 'create_issue',
+  arguments: {
+    title: 'GitHub #{{event.data.number}}: {{event.data.title}}',
+    priority: '{{event.metadata.priority}}',
+  },
+  timeout: 5000,
+};
+
+describe('MCP tool handlers', () => {
+  // Stands in for a Linear MCP server
+  let created: Array<Record<string, unknown>>;
+  let servers: McpServer[];
+
+  beforeEach(() => {
+    created = [];
+    servers = [];
+  });
+
+  function linearServer() {
+    const server = new McpServer({ name: 'linear', version: '1.0.0' });
+    server.registerTool(
+      'create_issue',
+      { inputSchema: { title: z.string(), priority: z.string() } },
+      async (args) => {
+        created.push(args);
+        return { content: [{ type: 'text', text: `Created LIN-${created.length}` }] };
+      }
+    );
+    server.registerTool('fail', {}, async () => ({
+      content: [{ type: 'text', text: 'Quota exceeded' }],
+      isError: true,
+    }));
+    servers.push(server);
+    return server;
+  }
+
+  function connection() {
+    return {
+      transport: () => {
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        void linearServer().connect(serverTransport);
+        return clientTransport;
+      },
+    };
+  }
+
+  it('should call the tool with rendered arguments and record its result', async () => {
+    const executor = new HandlerExecutor({ mcpServers: { linear: connection() } });
+
+    const result = await executor.execute(event, handler, 'sub-1');
+    await executor.close();
+
+    expect(result).toMatchObject({ success: true, handlerType: 'mcp_tool', output: 'Created LIN-1' });
+    expect(created).toEqual([{ title: 'GitHub #42: Broken build', priority: 'high' }]);
+  });
+
+  it('should reuse the connection and reopen it once closed', async () => {
+    const executor = new HandlerExecutor({ mcpServers: { linear: connection() } });
+
+    await executor.execute(event, handler, 'sub-1');
+    await executor.execute(event, handler, 'sub-2');
+    expect(servers).toHaveLength(1);
+
+    await servers[0].close();
+    const result = await executor.execute(event, handler, 'sub-1');
+    await executor.close();
+
+    expect(result.success).toBe(true);
+    expect(servers).toHaveLength(2);
+  });
+
+  it('should fail with the tool error', async () => {
+    const executor = new HandlerExecutor({ mcpServers: { linear: connection() } });
+
+    const result = await executor.execute(event, { ...handler, tool: 'fail' }, 'sub-1');
+    await executor.close();
+
+    expect(result).toMatchObject({ success: false, failure: 'error', output: 'Quota exceeded' });
+  });
+
+  it('should only call configured servers', async () => {
+    const executor = new HandlerExecutor();
+
+    expect(executor.checkHandler(handler)).toBe('Unknown MCP server: linear');
+    expect(await executor.execute(event, handler, 'sub-1')).toMatchObject({
+      success: false,
+      error: 'Unknown MCP server: linear',
+    });
+  });
+
+  it('should run for subscriptions on an EventsServer', async () => {
+    const events = new EventsServer({
+      name: 'test-server',
+      version: '1.0.0',
+      handlers: { mcpServers: { linear: connection() } },
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await events.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    try {
+      const subscribed = await client.callTool({
+        name: MCPE_TOOLS.SUBSCRIBE,
+        arguments: { filter: { eventTypes: ['github.issue'] }, handler },
+      });
+      expect(subscribed.isError).toBeFalsy();
+
+      const unknown = await client.callTool({
+        name: MCPE_TOOLS.SUBSCRIBE,
+        arguments: { filter: {}, handler: { ...handler, server: 'jira' } },
+      });
+      expect(unknown.isError).toBe(true);
+
+      await events.publish(event);
+      await waitFor(() => created.length === 1);
+      expect(created[0].title).toBe('GitHub #42: Broken build');
+    } finally {
+      await client.close();
+      await events.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { EventsServer } from '../server/events-server.js';
+import { MCPE_TOOLS } from '../types/index.js';
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 5000) reject(new Error('Timed out'));
+      else setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+describe('EventsServer sessions', () => {
+  let events: EventsServer;
+
+  beforeEach(() => {
+    events = new EventsServer({ name: 'test-server', version: '1.0.0', perSession: true });
+  });
+
+  afterEach(async () => {
+    await events.close();
+  });
+
+  async function connectSession(): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await events.connectSession(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  async function call(client: Client, name: string, args: Record<string, unknown> = {}) {
+    const result = await client.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ text: string }>)[0].text;
+    expect(result.isError, text).toBeFalsy();
+    return JSON.parse(text);
+  }
+
+  it('should keep sessions from seeing or removing each other\'s subscriptions', async () => {
+    const a = await connectSession();
+    const b = await connectSession();
+
+    const { subscriptionId: id } = await call(a, MCPE_TOOLS.SUBSCRIBE, { filter: { eventTypes: ['github.*'] } });
+    await call(b, MCPE_TOOLS.SUBSCRIBE, { filter: { eventTypes: ['slack.*'] } });
+
+    const listedByB = await call(b, MCPE_TOOLS.LIST);
+    expect(listedByB.subscriptions).toHaveLength(1);
+    expect(listedByB.subscriptions[0].id).not.toBe(id);
+
+    expect(await call(b, MCPE_TOOLS.UNSUBSCRIBE, { subscriptionId: id })).toEqual({ success: false });
+    expect((await call(a, MCPE_TOOLS.LIST)).subscriptions.map((s: { id: string }) => s.id)).toEqual([id]);
+
+    await a.close();
+    await b.close();
+  });
+
+  it('should remove a session\'s subscriptions and schedules when it closes', async () => {
+    const a = await connectSession();
+    const b = await connectSession();
+
+    await call(a, MCPE_TOOLS.SUBSCRIBE, {
+      filter: { eventTypes: ['github.*'] },
+      delivery: { channels: ['cron'], cronSchedule: { expression: '0 * * * *', timezone: 'UTC' } },
+    });
+    await call(a, MCPE_TOOLS.SUBSCRIBE, { filter: { eventTypes: ['github.*'] } });
+    const { subscriptionId: id } = await call(b, MCPE_TOOLS.SUBSCRIBE, { filter: { eventTypes: ['slack.*'] } });
+    expect(events.subscriptionManager.list()).toHaveLength(3);
+    expect(events.getSchedulerInfo().activeJobs).toHaveLength(1);
+
+    await a.close();
+    await waitFor(() => events.subscriptionManager.list().length === 1);
+    expect(events.subscriptionManager.list()[0].id).toBe(id);
+    expect(events.getSchedulerInfo().activeJobs).toHaveLength(0);
+
+    await b.close();
+  });
+});
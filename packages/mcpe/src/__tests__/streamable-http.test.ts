@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import { connect, createServer as createNetServer, type AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { EventsServer } from '../server/events-server.js';
+import { EventIdEvictedError, MemoryEventStore } from '../server/event-store.js';
+import { StreamableHttpServer } from '../server/streamable-http.js';
+import { MCPE_NOTIFICATIONS, MCPE_TOOLS, type EventFilter, type MCPEvent } from '../types/index.js';
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 5000) reject(new Error('Timed out'));
+      else setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+describe('StreamableHttpServer', () => {
+  let events: EventsServer;
+  let http: StreamableHttpServer;
+  let server: Server;
+  let url: URL;
+  let clients: Client[];
+  // Open GET streams, so tests can drop them
+  let streams: ServerResponse[];
+
+  // Messages each session's event store keeps
+  let maxEvents: number;
+
+  beforeEach(async () => {
+    events = new EventsServer({ name: 'test-server', version: '1.0.0', perSession: true });
+    maxEvents = 1000;
+    http = new StreamableHttpServer(events, {
+      createEventStore: () => new MemoryEventStore({ maxEvents }),
+      sessionIdleTimeoutMs: 200,
+    });
+    streams = [];
+    clients = [];
+
+    // Mounted in a plain HTTP server, as it would be in an application
+    server = createServer((req, res) => {
+      if (req.method === 'GET') streams.push(res);
+      http.handleRequest(req, res).catch((error) => res.destroy(error));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await http.stop();
+    await events.close();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function connectClient(): Promise<{ client: Client; received: MCPEvent[] }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const received: MCPEvent[] = [];
+    client.fallbackNotificationHandler = async (notification) => {
+      if (notification.method === MCPE_NOTIFICATIONS.EVENT) {
+        received.push((notification.params as { event: MCPEvent }).event);
+      }
+    };
+    await client.connect(
+      new StreamableHTTPClientTransport(url, {
+        reconnectionOptions: {
+          initialReconnectionDelay: 20,
+          maxReconnectionDelay: 100,
+          reconnectionDelayGrowFactor: 1,
+          maxRetries: 10,
+        },
+      })
+    );
+    clients.push(client);
+    return { client, received };
+  }
+
+  async function subscribe(client: Client, filter: EventFilter): Promise<void> {
+    const result = await client.callTool({
+      name: MCPE_TOOLS.SUBSCRIBE,
+      arguments: { filter, delivery: { channels: ['realtime'] } },
+    });
+    expect(result.isError).toBeFalsy();
+  }
+
+  it('should give each MCP session its own subscriptions', async () => {
+    const a = await connectClient();
+    const b = await connectClient();
+    expect(http.sessionCount).toBe(2);
+
+    await subscribe(a.client, { eventTypes: ['github.*'] });
+    await subscribe(b.client, { eventTypes: ['slack.*'] });
+    await waitFor(() => streams.length === 2);
+
+    await events.publish('github.push', { branch: 'main' }, { priority: 'normal' });
+    await events.publish('slack.message', { text: 'hi' }, { priority: 'normal' });
+
+    await waitFor(() => a.received.length === 1 && b.received.length === 1);
+    expect(a.received[0].type).toBe('github.push');
+    expect(b.received[0].type).toBe('slack.message');
+    expect(events.subscriptionManager.list()).toHaveLength(2);
+  });
+
+  it('should replay missed notifications after Last-Event-ID', async () => {
+    const { client, received } = await connectClient();
+    await subscribe(client, { eventTypes: ['github.*'] });
+    await waitFor(() => streams.length === 1);
+
+    await events.publish('github.push', { n: 1 }, { priority: 'normal' });
+    await waitFor(() => received.length === 1);
+
+    // Drop the notification stream and publish while the client is away
+    streams[0].destroy();
+    await events.publish('github.push', { n: 2 }, { priority: 'normal' });
+    await events.publish('github.push', { n: 3 }, { priority: 'normal' });
+
+    await waitFor(() => received.length === 3);
+    expect(streams.length).toBe(2);
+    expect(received.map((event) => event.data.n)).toEqual([1, 2, 3]);
+  });
+
+  it('should fail to resume a stream whose Last-Event-ID was evicted', async () => {
+    maxEvents = 3;
+    const { client, received } = await connectClient();
+    const errors: Error[] = [];
+    client.onerror = (error) => errors.push(error);
+    await subscribe(client, { eventTypes: ['github.*'] });
+    await waitFor(() => streams.length === 1);
+
+    await events.publish('github.push', { n: 1 }, { priority: 'normal' });
+    await waitFor(() => received.length === 1);
+
+    // More messages than the store keeps, so the client's last ID is evicted
+    streams[0].destroy();
+    for (let n = 2; n <= 6; n++) {
+      await events.publish('github.push', { n }, { priority: 'normal' });
+    }
+
+    await waitFor(() => errors.some((error) => error.message.includes('Gone')));
+    expect(received.map((event) => event.data.n)).toEqual([1]);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const idle = await connectClient();
+    const active = await connectClient();
+    await waitFor(() => streams.length === 2);
+    const sessionId = (idle.client.transport as StreamableHTTPClientTransport).sessionId!;
+
+    // Closing the client drops its stream without deleting the session
+    await idle.client.close();
+    clients.splice(clients.indexOf(idle.client), 1);
+    expect(http.sessionCount).toBe(2);
+
+    await waitFor(() => http.sessionCount === 1);
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+    });
+    expect(response.status).toBe(404);
+
+    // The other session keeps its stream open, so it stays
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(http.sessionCount).toBe(1);
+    await subscribe(active.client, { eventTypes: ['github.*'] });
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+
+    const unknown = await fetch(url, {
+      method: 'GET',
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': 'missing' },
+    });
+    expect(unknown.status).toBe(404);
+  });
+});
+
+describe('MemoryEventStore', () => {
+  const message = (n: number) => ({ jsonrpc: '2.0' as const, method: 'test', params: { n } });
+
+  async function replay(store: MemoryEventStore, lastEventId: string) {
+    const sent: Array<{ id: string; n: unknown }> = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+      send: async (id, sentMessage) => {
+        sent.push({ id, n: (sentMessage as { params?: { n?: number } }).params?.n });
+      },
+    });
+    return { streamId, sent };
+  }
+
+  it('should replay the messages of the stream after an ID', async () => {
+    const store = new MemoryEventStore();
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('b', message(2));
+    const third = await store.storeEvent('a', message(3));
+
+    expect(await store.getStreamIdForEventId(first)).toBe('a');
+    expect(await replay(store, first)).toEqual({ streamId: 'a', sent: [{ id: third, n: 3 }] });
+  });
+
+  it('should refuse to replay after an evicted ID', async () => {
+    const store = new MemoryEventStore({ maxEvents: 2 });
+    const evicted = await store.storeEvent('_GET_stream', message(1));
+    await store.storeEvent('_GET_stream', message(2));
+    await store.storeEvent('other', message(3));
+    const last = await store.storeEvent('_GET_stream', message(4));
+
+    expect(store.isEvicted(evicted)).toBe(true);
+    expect(store.isEvicted(last)).toBe(false);
+    expect(store.isEvicted('_GET_stream_99')).toBe(false);
+    await expect(replay(store, evicted)).rejects.toThrow(EventIdEvictedError);
+  });
+
+  it.each(['', '7', 'a_', 'a_0', 'a_x', 'a_99'])('should not know event ID %j', async (eventId) => {
+    const store = new MemoryEventStore();
+    await store.storeEvent('a', message(1));
+
+    expect(await store.getStreamIdForEventId(eventId)).toBeUndefined();
+    expect(await replay(store, eventId)).toEqual({ streamId: '', sent: [] });
+  });
+});
+
+describe('StreamableHttpServer.start', () => {
+  it('should answer requests with a malformed Host header with 400 and keep serving', async () => {
+    const events = new EventsServer({ name: 'test-server', version: '1.0.0', perSession: true });
+    const port = await new Promise<number>((resolve) => {
+      const probe = createNetServer().listen(0, '127.0.0.1', () => {
+        const { port } = probe.address() as AddressInfo;
+        probe.close(() => resolve(port));
+      });
+    });
+    const http = new StreamableHttpServer(events, { port, host: '127.0.0.1' });
+    await http.start();
+
+    try {
+      const response = await new Promise<string>((resolve, reject) => {
+        const socket = connect(port, '127.0.0.1', () => {
+          socket.write('GET //a%20b/ HTTP/1.1\r\nHost: a b\r\nConnection: close\r\n\r\n');
+        });
+        let received = '';
+        socket.on('data', (data) => (received += data.toString()));
+        socket.on('end', () => resolve(received));
+        socket.on('error', reject);
+      });
+      expect(response).toMatch(/^HTTP\/1\.1 400/);
+
+      const other = await fetch(`http://127.0.0.1:${port}/other`);
+      expect(other.status).toBe(404);
+    } finally {
+      await http.stop();
+      await events.close();
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync, appendFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { EventsServer } from '../server/events-server.js';
+import { FileSubscriptionStorage } from '../server/subscription-storage.js';
+import { MCPE_TOOLS, type Subscription } from '../types/index.js';
+
+function subscription(id: string, clientId = 'client-1'): Subscription {
+  return {
+    id,
+    clientId,
+    filter: { eventTypes: ['github.*'] },
+    delivery: { channels: ['realtime'] },
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+const ids = [
+  '123e4567-e89b-12d3-a456-426614174001',
+  '123e4567-e89b-12d3-a456-426614174002',
+  '123e4567-e89b-12d3-a456-426614174003',
+];
+
+describe('FileSubscriptionStorage', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcpe-storage-'));
+    filePath = join(dir, 'data', 'subscriptions.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lines = () => readFileSync(filePath, 'utf-8').trim().split('\n');
+
+  it('should reload saved subscriptions', async () => {
+    const storage = new FileSubscriptionStorage({ filePath });
+    expect(await storage.load()).toEqual([]);
+
+    await storage.save(subscription(ids[0]));
+    await storage.save(subscription(ids[1]));
+    await storage.save({ ...subscription(ids[0]), status: 'paused' });
+    await storage.delete(ids[1]);
+
+    expect(await new FileSubscriptionStorage({ filePath }).load()).toEqual([
+      { ...subscription(ids[0]), status: 'paused' },
+    ]);
+  });
+
+  it('should append changes and compact them into a snapshot', async () => {
+    const storage = new FileSubscriptionStorage({ filePath, compactAfter: 2 });
+    await storage.load();
+    expect(lines()).toHaveLength(1);
+
+    await Promise.all([storage.save(subscription(ids[0])), storage.save(subscription(ids[1]))]);
+    expect(lines()).toHaveLength(3);
+    expect(JSON.parse(lines()[2])).toEqual({ op: 'save', subscription: subscription(ids[1]) });
+
+    await storage.save(subscription(ids[2]));
+    expect(lines()).toHaveLength(1);
+    expect(await new FileSubscriptionStorage({ filePath }).load()).toHaveLength(3);
+  });
+
+  it('should load files written before the journal format', async () => {
+    mkdirSync(join(dir, 'data'));
+    writeFileSync(filePath, JSON.stringify({ version: '1.0', subscriptions: [subscription(ids[0])] }, null, 2));
+
+    expect(await new FileSubscriptionStorage({ filePath }).load()).toEqual([subscription(ids[0])]);
+  });
+
+  it('should skip invalid and truncated lines', async () => {
+    const storage = new FileSubscriptionStorage({ filePath });
+    await storage.load();
+    await storage.save(subscription(ids[0]));
+    appendFileSync(filePath, `${JSON.stringify({ op: 'save', subscription: { id: 'not-a-subscription' } })}\n`);
+    appendFileSync(filePath, JSON.stringify({ op: 'delete', subscriptionId: ids[0] }).slice(0, 20));
+
+    expect(await new FileSubscriptionStorage({ filePath }).load()).toEqual([subscription(ids[0])]);
+  });
+});
+
+describe('EventsServer with stored subscriptions', () => {
+  let dir: string;
+  let filePath: string;
+  const servers: EventsServer[] = [];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcpe-storage-'));
+    filePath = join(dir, 'subscriptions.json');
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => server.close()));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function start(): Promise<{ events: EventsServer; client: Client }> {
+    const events = new EventsServer({
+      name: 'test-server',
+      version: '1.0.0',
+      storage: new FileSubscriptionStorage({ filePath }),
+    });
+    servers.push(events);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await events.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return { events, client };
+  }
+
+  async function call(client: Client, name: string, args: Record<string, unknown> = {}) {
+    const result = await client.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ text: string }>)[0].text;
+    expect(result.isError, text).toBeFalsy();
+    return JSON.parse(text);
+  }
+
+  it('should restore subscriptions and their schedules after a restart', async () => {
+    const before = await start();
+    const { subscriptionId: cronId } = await call(before.client, MCPE_TOOLS.SUBSCRIBE, {
+      filter: { eventTypes: ['github.*'] },
+      delivery: { channels: ['cron'], cronSchedule: { expression: '0 9 * * *', timezone: 'UTC' } },
+    });
+    const { subscriptionId: realtimeId } = await call(before.client, MCPE_TOOLS.SUBSCRIBE, {
+      filter: { eventTypes: ['slack.*'] },
+    });
+    const { subscriptionId: removedId } = await call(before.client, MCPE_TOOLS.SUBSCRIBE, {});
+    await call(before.client, MCPE_TOOLS.PAUSE, { subscriptionId: realtimeId });
+    await call(before.client, MCPE_TOOLS.UNSUBSCRIBE, { subscriptionId: removedId });
+    await before.events.close();
+
+    const after = await start();
+    const listed = await call(after.client, MCPE_TOOLS.LIST);
+    expect(listed.subscriptions.map((s: { id: string; status: string }) => [s.id, s.status])).toEqual([
+      [cronId, 'active'],
+      [realtimeId, 'paused'],
+    ]);
+    expect(after.events.getSchedulerInfo().activeJobs).toEqual([
+      expect.objectContaining({ subscriptionId: cronId, type: 'cron' }),
+    ]);
+  });
+});
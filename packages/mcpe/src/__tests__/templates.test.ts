@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HandlerExecutor } from '../server/handler-executor.js';
+import {
+  EventHandlerSchema,
+  createEvent,
+  renderJsonTemplate,
+  renderTemplate,
+  templateErrors,
+  type WebhookEventHandler,
+} from '../types/index.js';
+
+const event = createEvent(
+  'github.push',
+  { repository: 'owner/repo', commits: [{ id: 'abc' }], count: 2, message: "it's done; rm -rf /" },
+  { priority: 'high', tags: ['ci'] }
+);
+
+describe('Templates', () => {
+  it('should render event fields', () => {
+    const template = '{{event.type}} to {{ event.data.repository }} ({{event.data.commits.0.id}}) {{event.metadata.priority}}';
+    expect(renderTemplate(template, event)).toBe('github.push to owner/repo (abc) high');
+  });
+
+  it('should render missing values as empty and objects as JSON', () => {
+    expect(renderTemplate('[{{event.data.missing}}]', event)).toBe('[]');
+    expect(renderTemplate('{{event.metadata.tags}}', event)).toBe('["ci"]');
+  });
+
+  it('should not reach beyond own properties', () => {
+    expect(renderTemplate('{{event.data.constructor}}{{event.data.__proto__}}', event)).toBe('');
+  });
+
+  it('should keep the type of single-tag strings in JSON templates', () => {
+    expect(
+      renderJsonTemplate({ text: 'Push to {{event.data.repository}}', count: '{{event.data.count}}', fixed: true }, event)
+    ).toEqual({ text: 'Push to owner/repo', count: 2, fixed: true });
+  });
+
+  it.each([
+    ['{{event.data.x', 'Unbalanced'],
+    ['{{process.env.SECRET}}', 'Invalid template tag'],
+    ['{{event.type.length}}', 'has no fields'],
+    ['{{event.data.x | upper}}', 'Invalid template tag'],
+  ])('should reject %s', (template, error) => {
+    expect(templateErrors(template).join()).toContain(error);
+  });
+
+  it('should validate handler templates when parsing subscriptions', () => {
+    const webhook = { type: 'webhook', url: 'https://example.com/hook' };
+
+    expect(EventHandlerSchema.safeParse({ ...webhook, body: { text: '{{event.data.x}}' } }).success).toBe(true);
+    expect(EventHandlerSchema.safeParse({ ...webhook, body: { text: ['{{nope}}'] } }).success).toBe(false);
+    expect(EventHandlerSchema.safeParse({ ...webhook, headers: { Title: '{{event.type' } }).success).toBe(false);
+    expect(EventHandlerSchema.safeParse({ type: 'bash', command: 'echo', args: ['{{data}}'] }).success).toBe(false);
+  });
+});
+
+describe('Templated handlers', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  async function receive(
+    handler: Omit<WebhookEventHandler, 'type' | 'url' | 'timeout'>
+  ): Promise<{ method?: string; url?: string; headers: IncomingHttpHeaders; body: string }> {
+    let received: { method?: string; url?: string; headers: IncomingHttpHeaders; body: string } | undefined;
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received = { method: req.method, url: req.url, headers: req.headers, body };
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    const result = await new HandlerExecutor().execute(event, { type: 'webhook', url, timeout: 1000, ...handler }, 'sub-1');
+    expect(result.success).toBe(true);
+    return received!;
+  }
+
+  it('should send a JSON body template', async () => {
+    const received = await receive({ body: { text: 'Push to {{event.data.repository}}' } });
+
+    expect(received.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(received.body)).toEqual({ text: 'Push to owner/repo' });
+  });
+
+  it('should send a text body with templated method, query and headers', async () => {
+    const received = await receive({
+      method: 'PUT',
+      query: { repo: '{{event.data.repository}}' },
+      headers: { Title: '{{event.type}}' },
+      body: '{{event.data.message}}',
+    });
+
+    expect(received.method).toBe('PUT');
+    expect(received.url).toBe('/hook?repo=owner%2Frepo');
+    expect(received.headers.title).toBe('github.push');
+    expect(received.headers['content-type']).toBe('text/plain; charset=utf-8');
+    expect(received.body).toBe("it's done; rm -rf /");
+  });
+
+  it('should send GET requests without a body', async () => {
+    const received = await receive({ method: 'GET', query: { type: '{{event.type}}' } });
+
+    expect(received.url).toBe('/hook?type=github.push');
+    expect(received.body).toBe('');
+  });
+
+  it('should shell-quote values in bash arguments run in a shell', async () => {
+    const result = await new HandlerExecutor({ bash: { allowedCommands: [{ command: 'printf' }], shell: true } }).execute(
+      event,
+      {
+        type: 'bash',
+        command: 'printf',
+        args: ['%s:%s', '{{event.data.message}}', 'repo={{event.data.repository}}'],
+        input: 'env',
+        timeout: 5000,
+      },
+      'sub-1'
+    );
+
+    expect(result.output).toBe("it's done; rm -rf /:repo=owner/repo");
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HandlerExecutor } from '../server/handler-executor.js';
+import { signMcpeWebhook, verifyMcpeWebhook } from '../server/webhook-signature.js';
+import { createEvent } from '../types/index.js';
+
+const secret = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+const body = '{"test": 2432232314}';
+const now = 1614265330;
+
+describe('signMcpeWebhook', () => {
+  it('should sign like Standard Webhooks', () => {
+    const headers = signMcpeWebhook(body, { id: 'msg_p5jXN8AQM9LWM0D4loKWxJek', secrets: secret, timestamp: now });
+
+    expect(headers).toEqual({
+      'webhook-id': 'msg_p5jXN8AQM9LWM0D4loKWxJek',
+      'webhook-timestamp': '1614265330',
+      'webhook-signature': 'v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=',
+    });
+  });
+
+  it('should sign with every secret while rotating', () => {
+    const headers = signMcpeWebhook(body, { id: 'msg_1', secrets: [secret, 'new-secret'], timestamp: now });
+    expect(headers['webhook-signature'].split(' ')).toHaveLength(2);
+  });
+});
+
+describe('verifyMcpeWebhook', () => {
+  const headers = signMcpeWebhook(body, { id: 'msg_1', secrets: secret, timestamp: now });
+
+  it('should accept a request signed with one of the secrets', () => {
+    expect(verifyMcpeWebhook(body, headers, { secrets: secret, now })).toBe(true);
+    expect(verifyMcpeWebhook(Buffer.from(body), new Headers({ ...headers }), { secrets: ['old', secret], now })).toBe(
+      true
+    );
+  });
+
+  it('should reject other secrets and tampered requests', () => {
+    expect(verifyMcpeWebhook(body, headers, { secrets: 'other', now })).toBe(false);
+    expect(verifyMcpeWebhook('{"test": 1}', headers, { secrets: secret, now })).toBe(false);
+    expect(verifyMcpeWebhook(body, { ...headers, 'webhook-id': 'msg_2' }, { secrets: secret, now })).toBe(false);
+    expect(verifyMcpeWebhook(body, { ...headers, 'webhook-signature': undefined }, { secrets: secret, now })).toBe(
+      false
+    );
+  });
+
+  it('should reject timestamps outside the tolerance', () => {
+    expect(verifyMcpeWebhook(body, headers, { secrets: secret, now: now + 301 })).toBe(false);
+    expect(verifyMcpeWebhook(body, headers, { secrets: secret, now: now + 301, toleranceSeconds: 600 })).toBe(true);
+  });
+});
+
+describe('Signed webhook handlers', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  const event = createEvent('test.event', { n: 1 }, { priority: 'normal' });
+
+  it('should send requests the receiver can verify', async () => {
+    let received: { body: string; headers: IncomingHttpHeaders } | undefined;
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received = { body, headers: req.headers };
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const executor = new HandlerExecutor({
+      webhookSecrets: { receiver: { secret: ['rotated', secret], allowedUrls: [`${origin}/hook`] } },
+    });
+    const result = await executor.execute(
+      event,
+      {
+        type: 'webhook',
+        url: `${origin}/hook`,
+        timeout: 1000,
+        signingSecretRef: 'receiver',
+      },
+      'sub-1'
+    );
+
+    expect(result.success).toBe(true);
+    expect(received!.headers['webhook-id']).toBe(event.id);
+    expect(verifyMcpeWebhook(received!.body, received!.headers, { secrets: secret })).toBe(true);
+    expect(verifyMcpeWebhook(received!.body, received!.headers, { secrets: 'rotated' })).toBe(true);
+  });
+
+  it('should fail without sending when the secret is not configured', async () => {
+    const executor = new HandlerExecutor();
+    const result = await executor.execute(
+      event,
+      { type: 'webhook', url: 'http://127.0.0.1:1/hook', timeout: 1000, signingSecretRef: 'missing' },
+      'sub-1'
+    );
+
+    expect(result).toMatchObject({ success: false, failure: 'error' });
+    expect(result.error).toContain('missing');
+  });
+
+  it('should refuse to sign requests to URLs the secret is not allowed for', async () => {
+    let requests = 0;
+    server = createServer((_req, res) => {
+      requests++;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const executor = new HandlerExecutor({
+      webhookSecrets: {
+        hooks: { secret, allowedUrls: [`${origin}/hooks`] },
+        other: { secret, allowedUrls: ['http://127.0.0.1:1'] },
+      },
+    });
+    const run = (url: string, signingSecretRef = 'hooks') =>
+      executor.execute(event, { type: 'webhook', url, timeout: 1000, signingSecretRef }, 'sub-1');
+
+    for (const url of [`${origin}/hooks2`, `${origin}/`, `http://localhost:1/hooks`]) {
+      const result = await run(url);
+      expect(result).toMatchObject({ success: false, failure: 'error' });
+      expect(result.error).toContain('may not sign requests');
+    }
+    expect((await run(`${origin}/hook`, 'other')).error).toContain('may not sign requests');
+    expect(requests).toBe(0);
+
+    expect(await run(`${origin}/hooks/a?x=1`)).toMatchObject({ success: true });
+    expect(requests).toBe(1);
+  });
+});
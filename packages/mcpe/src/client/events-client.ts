@@ -1,16 +1,39 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { z } from 'zod';
 import {
   type MCPEvent,
   type EventFilter,
   type CreateSubscriptionRequest,
   type UpdateSubscriptionRequest,
   type DeliveryPreferences,
+  type EventHistoryQuery,
+  type EventHistoryResult,
+  type ReplayOptions,
   MCPE_NOTIFICATIONS,
   MCPE_TOOLS,
 } from '../types/index.js';
 import { matchesPattern } from '../utils/matching.js';
 import { ClientScheduler, type LocalCronConfig, type LocalTimerConfig, type LocalBatchHandler } from './client-scheduler.js';
 
+/**
+ * Notifications handled by EventsClient. The MCP SDK routes notifications by
+ * the method literal of their schema.
+ */
+const EventNotificationSchema = z.object({
+  method: z.literal(MCPE_NOTIFICATIONS.EVENT),
+  params: z.object({ event: z.custom<MCPEvent>(), subscriptionId: z.string() }).passthrough(),
+});
+
+const BatchNotificationSchema = z.object({
+  method: z.literal(MCPE_NOTIFICATIONS.BATCH),
+  params: z.object({ events: z.array(z.custom<MCPEvent>()), subscriptionId: z.string() }).passthrough(),
+});
+
+const SubscriptionExpiredNotificationSchema = z.object({
+  method: z.literal(MCPE_NOTIFICATIONS.SUBSCRIPTION_EXPIRED),
+  params: z.object({ subscriptionId: z.string() }).passthrough(),
+});
+
 /**
  * Event handler function type
  */
@@ -44,6 +67,8 @@ export interface SubscribeResult {
   delivery: DeliveryPreferences;
   createdAt: string;
   expiresAt?: string;
+  /** Number of retained events replayed (when subscribing with `replay`) */
+  replayed?: number;
 }
 
 /**
@@ -119,43 +144,34 @@ export class EventsClient {
    */
   private setupNotificationHandlers(): void {
     // Handle single event notifications
-    this.mcpClient.setNotificationHandler(
-      { method: MCPE_NOTIFICATIONS.EVENT } as any,
-      async (notification: any) => {
-        const { event, subscriptionId } = notification.params;
-        await this.dispatchEvent(event, subscriptionId);
-      }
-    );
+    this.mcpClient.setNotificationHandler(EventNotificationSchema, async (notification) => {
+      const { event, subscriptionId } = notification.params;
+      await this.dispatchEvent(event, subscriptionId);
+    });
 
     // Handle batch event notifications
-    this.mcpClient.setNotificationHandler(
-      { method: MCPE_NOTIFICATIONS.BATCH } as any,
-      async (notification: any) => {
-        const { events, subscriptionId } = notification.params;
-        for (const handler of this.batchHandlers) {
-          try {
-            await handler(events, subscriptionId);
-          } catch (error) {
-            console.error('Error in batch event handler:', error);
-          }
+    this.mcpClient.setNotificationHandler(BatchNotificationSchema, async (notification) => {
+      const { events, subscriptionId } = notification.params;
+      for (const handler of this.batchHandlers) {
+        try {
+          await handler(events, subscriptionId);
+        } catch (error) {
+          console.error('Error in batch event handler:', error);
         }
       }
-    );
+    });
 
     // Handle subscription expired notifications
-    this.mcpClient.setNotificationHandler(
-      { method: MCPE_NOTIFICATIONS.SUBSCRIPTION_EXPIRED } as any,
-      async (notification: any) => {
-        const { subscriptionId } = notification.params;
-        for (const handler of this.subscriptionExpiredHandlers) {
-          try {
-            await handler(subscriptionId);
-          } catch (error) {
-            console.error('Error in subscription expired handler:', error);
-          }
+    this.mcpClient.setNotificationHandler(SubscriptionExpiredNotificationSchema, async (notification) => {
+      const { subscriptionId } = notification.params;
+      for (const handler of this.subscriptionExpiredHandlers) {
+        try {
+          await handler(subscriptionId);
+        } catch (error) {
+          console.error('Error in subscription expired handler:', error);
         }
       }
-    );
+    });
   }
 
   /**
@@ -206,14 +222,18 @@ export class EventsClient {
 
   /**
    * Subscribe to events
+   *
+   * Pass `replay` to receive matching retained events (e.g. since the last
+   * event seen) before live delivery starts.
    */
-  async subscribe(request: CreateSubscriptionRequest): Promise<SubscribeResult> {
+  async subscribe(request: CreateSubscriptionRequest & { replay?: ReplayOptions }): Promise<SubscribeResult> {
     const result = await this.mcpClient.callTool({
       name: MCPE_TOOLS.SUBSCRIBE,
       arguments: {
         filter: request.filter,
         delivery: request.delivery,
         expiresAt: request.expiresAt,
+        replay: request.replay,
       },
     });
 
@@ -260,6 +280,23 @@ export class EventsClient {
     return JSON.parse(content.text) as ListSubscriptionsResult;
   }
 
+  /**
+   * Query events retained by the server
+   */
+  async history(query: EventHistoryQuery = {}): Promise<EventHistoryResult> {
+    const result = await this.mcpClient.callTool({
+      name: MCPE_TOOLS.HISTORY,
+      arguments: query,
+    });
+
+    const content = (result as { content: Array<{ type: string; text?: string }> }).content[0];
+    if (content.type !== 'text' || !content.text) {
+      throw new Error('Unexpected response type from history');
+    }
+
+    return JSON.parse(content.text) as EventHistoryResult;
+  }
+
   /**
    * Pause a subscription
    */
@@ -11,14 +11,41 @@ export {
   type EventMetadata,
   type MCPEvent,
   type EventFilter,
+  // Data predicate types
+  PredicateOperatorSchema,
+  DataPredicateSchema,
+  evaluatePredicate,
+  resolveFieldPath,
+  type PredicateOperator,
+  type DataPredicate,
+  // History types
+  EventCursorSchema,
+  EventHistoryQuerySchema,
+  ReplayOptionsSchema,
+  type EventCursor,
+  type EventHistoryQuery,
+  type ReplayOptions,
+  type EventHistoryResult,
+  // Handler templates
+  TemplateSchema,
+  JsonTemplateSchema,
+  templateErrors,
+  renderTemplate,
+  renderJsonTemplate,
   // Event handler types
+  HandlerFailureSchema,
+  HandlerRetryPolicySchema,
   BashEventHandlerSchema,
   AgentEventHandlerSchema,
   WebhookEventHandlerSchema,
+  McpToolEventHandlerSchema,
   EventHandlerSchema,
+  type HandlerFailure,
+  type HandlerRetryPolicy,
   type BashEventHandler,
   type AgentEventHandler,
   type WebhookEventHandler,
+  type McpToolEventHandler,
   type EventHandler,
   // Subscription types
   DeliveryChannelSchema,
@@ -60,19 +87,61 @@ export {
   EventsServer,
   type EventsServerConfig,
 } from './server/index.js';
-export { SubscriptionManager } from './server/index.js';
+export { SubscriptionManager, type SubscriptionManagerOptions } from './server/index.js';
+export {
+  MemorySubscriptionStorage,
+  FileSubscriptionStorage,
+  type SubscriptionStorage,
+  type FileSubscriptionStorageOptions,
+} from './server/index.js';
 export {
   HandlerExecutor,
+  retryDelay,
   type HandlerResult,
+  type HandlerTarget,
   type AgentHandlerCallback,
   type HandlerExecutorConfig,
+  type WebhookSecret,
+} from './server/index.js';
+export {
+  MemoryDeadLetterStore,
+  type DeadLetter,
+  type DeadLetterReason,
+  type DeadLetterQuery,
+  type DeadLetterStore,
+  type MemoryDeadLetterStoreOptions,
 } from './server/index.js';
+export {
+  signMcpeWebhook,
+  verifyMcpeWebhook,
+  type McpeWebhookHeaders,
+  type SignMcpeWebhookOptions,
+  type VerifyMcpeWebhookOptions,
+  type WebhookRequestHeaders,
+} from './server/index.js';
+export { type BashHandlerPolicy, type BashCommandRule } from './server/index.js';
+export { McpClientPool, type McpServerConnection } from './server/index.js';
 export {
   EventScheduler,
   type EventSchedulerConfig,
+  type EventSchedulerOptions,
+  type MissedTickPolicy,
   type BatchDeliveryCallback,
   type ScheduleCompleteCallback,
 } from './server/index.js';
+export {
+  MemoryPendingEventQueue,
+  FilePendingEventQueue,
+  type PendingEventQueue,
+  type QueuedEvent,
+  type FilePendingEventQueueOptions,
+  type QueueChange,
+} from './server/index.js';
+export { EventLog, type EventLogOptions } from './server/index.js';
+export { MemoryEventBus, type EventBus, type EventBusHandler } from './server/index.js';
+export { MemoryEventStore, EventIdEvictedError, type MemoryEventStoreOptions } from './server/index.js';
+export { StreamableHttpServer, type StreamableHttpServerOptions } from './server/index.js';
+export { JsonRpcCompatTransport, type JsonRpcCompatOptions } from './server/index.js';
 
 // Client
 export {
@@ -0,0 +1,138 @@
+import { realpathSync } from 'fs';
+import { isAbsolute, relative, resolve } from 'path';
+import type { BashEventHandler } from '../types/index.js';
+
+/**
+ * A command bash handlers may run
+ */
+export interface BashCommandRule {
+  /** Command as handlers must write it, matched exactly (e.g. 'notify-send' or '/usr/bin/git') */
+  command: string;
+  /**
+   * Patterns every argument must match one of; strings match exactly and
+   * expressions are tested against the whole argument (default: any arguments)
+   */
+  args?: Array<string | RegExp>;
+}
+
+/**
+ * Limits on bash handlers
+ *
+ * Subscribers choose the command, including LLMs calling events_subscribe,
+ * so bash handlers only run commands listed in allowedCommands.
+ */
+export interface BashHandlerPolicy {
+  /** Run bash handlers at all (default: true) */
+  enabled?: boolean;
+  /** Commands handlers may run (default: none, so every bash handler is denied) */
+  allowedCommands?: BashCommandRule[];
+  /** Run commands through a shell, so arguments may use its syntax (default: false) */
+  shell?: boolean;
+  /** Variables of the server's environment commands inherit (default: PATH, HOME, LANG, TZ) */
+  inheritEnv?: string[];
+  /** Variables handlers may set in their env (default: none) */
+  allowedEnv?: string[];
+  /** Directory commands run in; handler cwds resolve within it (default: no restriction) */
+  cwdRoot?: string;
+  /** Output kept per stream in bytes; larger output kills the command (default: 1 MiB) */
+  maxOutputBytes?: number;
+  /** Runs of a subscription's handler at a time; further events wait (default: 1) */
+  maxConcurrent?: number;
+}
+
+const DEFAULT_INHERIT_ENV = ['PATH', 'HOME', 'LANG', 'TZ'];
+
+const TEMPLATE_TAG = /\{\{[^{}]*\}\}/;
+
+function matchesPattern(arg: string, pattern: string | RegExp): boolean {
+  if (typeof pattern === 'string') {
+    return arg === pattern;
+  }
+  const match = new RegExp(pattern.source, pattern.flags.replace('g', '')).exec(arg);
+  return match !== null && match.index === 0 && match[0].length === arg.length;
+}
+
+/**
+ * Working directory of a handler under the policy, or an error message
+ */
+export function resolveBashCwd(
+  handler: BashEventHandler,
+  policy: BashHandlerPolicy
+): { cwd?: string; error?: string } {
+  if (!policy.cwdRoot) {
+    return { cwd: handler.cwd };
+  }
+
+  // Compare real paths, so symlinks cannot lead out of the root
+  try {
+    const root = realpathSync(policy.cwdRoot);
+    const cwd = realpathSync(resolve(root, handler.cwd ?? '.'));
+    const path = relative(root, cwd);
+    if (path.startsWith('..') || isAbsolute(path)) {
+      return { error: `Working directory ${handler.cwd} is outside ${policy.cwdRoot}` };
+    }
+    return { cwd };
+  } catch {
+    return { error: `Working directory ${handler.cwd ?? policy.cwdRoot} does not exist` };
+  }
+}
+
+/**
+ * Variables of the server's environment commands inherit under the policy
+ */
+export function inheritedBashEnv(policy: BashHandlerPolicy): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of policy.inheritEnv ?? DEFAULT_INHERIT_ENV) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Why the policy denies a bash handler, or undefined when it may run
+ *
+ * @param args - Arguments after templating; without them, templated
+ *   arguments are not checked
+ */
+export function bashPolicyViolation(
+  handler: BashEventHandler,
+  policy: BashHandlerPolicy,
+  args?: string[]
+): string | undefined {
+  if (policy.enabled === false) {
+    return 'Bash handlers are disabled on this server';
+  }
+
+  const allowedEnv = policy.allowedEnv ?? [];
+  const deniedEnv = Object.keys(handler.env ?? {}).find((name) => !allowedEnv.includes(name));
+  if (deniedEnv !== undefined) {
+    return `Bash handlers may not set ${deniedEnv}`;
+  }
+
+  const { error } = resolveBashCwd(handler, policy);
+  if (error) {
+    return error;
+  }
+
+  if (!policy.allowedCommands) {
+    return 'Bash handlers need allowedCommands on this server';
+  }
+
+  const rule = policy.allowedCommands.find((candidate) => candidate.command === handler.command);
+  if (!rule) {
+    return `Command not allowed: ${handler.command}`;
+  }
+
+  const patterns = rule.args;
+  if (patterns) {
+    const checked = args ?? (handler.args ?? []).filter((arg) => !TEMPLATE_TAG.test(arg));
+    const denied = checked.find((arg) => !patterns.some((pattern) => matchesPattern(arg, pattern)));
+    if (denied !== undefined) {
+      return `Argument not allowed for ${handler.command}: ${denied}`;
+    }
+  }
+  return undefined;
+}
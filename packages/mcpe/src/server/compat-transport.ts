@@ -0,0 +1,187 @@
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage, MessageExtraInfo, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ErrorCodes,
+  MCP_PROTOCOL_VERSIONS,
+  negotiateProtocolVersion,
+  requestToToolCall,
+  toJsonRpcNotification,
+  toolResultToResult,
+  type JsonRpcNotification,
+} from '@esmcp/core';
+
+/**
+ * Options for JsonRpcCompatTransport
+ */
+export interface JsonRpcCompatOptions {
+  /** Reported to jsonrpc clients as capabilities.maxSubscriptions */
+  maxSubscriptions: number;
+  /** Owner reported in subscriptions when the transport has no session ID (default: 'default') */
+  clientId?: string;
+}
+
+/**
+ * Error code for the text of a failed tool call
+ */
+function toolErrorCode(message: string): number {
+  const mcpError = /^MCP error (-?\d+)/.exec(message);
+  if (mcpError) {
+    return Number(mcpError[1]);
+  }
+  if (/not found/i.test(message)) {
+    return ErrorCodes.SubscriptionNotFound;
+  }
+  if (message.startsWith('Maximum subscriptions')) {
+    return ErrorCodes.SubscriptionLimitReached;
+  }
+  return ErrorCodes.InternalError;
+}
+
+/**
+ * JsonRpcCompatTransport - serves jsonrpc flavour clients (such as ASPClient)
+ * from an EventsServer
+ *
+ * Wraps the transport of an MCP session. A client that initializes with MCPE
+ * protocol versions gets the hub's initialize result with the negotiated
+ * version, its `subscriptions/*` requests are answered by the matching
+ * events_* tools and notifications reach it as `notifications/*`. MCP clients pass through
+ * unchanged. EventsServer wraps every transport it connects.
+ */
+export class JsonRpcCompatTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: <T extends JSONRPCMessage>(message: T, extra?: MessageExtraInfo) => void;
+  private jsonrpc = false;
+  /** Version negotiated with a jsonrpc client */
+  private protocolVersion?: string;
+  /** Method of each converted request, by request ID, until it is answered */
+  private pending: Map<RequestId, string> = new Map();
+
+  constructor(
+    private inner: Transport,
+    private options: JsonRpcCompatOptions
+  ) {}
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  async start(): Promise<void> {
+    // Keep handlers set on the inner transport before it was connected
+    const { onclose, onerror } = this.inner;
+    this.inner.onclose = () => {
+      onclose?.();
+      this.onclose?.();
+    };
+    this.inner.onerror = (error) => {
+      onerror?.(error);
+      this.onerror?.(error);
+    };
+    this.inner.onmessage = (message, extra) => this.receive(message, extra);
+    await this.inner.start();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    await this.inner.send(this.jsonrpc ? this.convert(message) : message, options);
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+
+  /**
+   * Hand a message from the client to the MCP server, as an MCP request if
+   * the client speaks the jsonrpc flavour
+   */
+  private receive(message: JSONRPCMessage, extra?: MessageExtraInfo): void {
+    if ('method' in message && 'id' in message) {
+      if (message.method === 'initialize') {
+        const { protocolVersion, supportedVersions } = (message.params ?? {}) as {
+          protocolVersion?: string;
+          supportedVersions?: string[];
+        };
+        this.protocolVersion =
+          typeof protocolVersion === 'string'
+            ? negotiateProtocolVersion(protocolVersion, supportedVersions)
+            : undefined;
+        this.jsonrpc = this.protocolVersion !== undefined;
+        if (this.jsonrpc) {
+          this.pending.set(message.id, message.method);
+          message = {
+            ...message,
+            params: { ...message.params, protocolVersion: MCP_PROTOCOL_VERSIONS[0], capabilities: {} },
+          };
+        }
+      } else if (this.jsonrpc) {
+        let call: ReturnType<typeof requestToToolCall>;
+        try {
+          call = requestToToolCall(message.method, message.params);
+        } catch (error) {
+          const { code, message: text } = error as { code: number; message: string };
+          this.inner
+            .send({ jsonrpc: '2.0', id: message.id, error: { code, message: text } }, { relatedRequestId: message.id })
+            .catch((sendError) => this.onerror?.(sendError));
+          return;
+        }
+        if (call) {
+          this.pending.set(message.id, message.method);
+          message = { ...message, method: 'tools/call', params: call };
+        }
+      }
+    }
+
+    this.onmessage?.(message, extra);
+  }
+
+  /**
+   * Convert a message from the MCP server for a jsonrpc client
+   */
+  private convert(message: JSONRPCMessage): JSONRPCMessage {
+    const id = 'id' in message ? message.id : undefined;
+    if (id === undefined) {
+      return 'method' in message
+        ? (toJsonRpcNotification(message as JsonRpcNotification) as JSONRPCMessage)
+        : message;
+    }
+
+    const method = this.pending.get(id);
+    if (method === undefined || 'method' in message) {
+      return message;
+    }
+    this.pending.delete(id);
+    if (!('result' in message)) {
+      return message;
+    }
+
+    const result = message.result as Record<string, unknown>;
+    if (method === 'initialize') {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          protocolVersion: this.protocolVersion,
+          serverInfo: result.serverInfo,
+          capabilities: { maxSubscriptions: this.options.maxSubscriptions },
+        },
+      };
+    }
+
+    const text = (result.content as Array<{ text?: string }> | undefined)?.[0]?.text ?? '';
+    if (result.isError) {
+      return { jsonrpc: '2.0', id, error: { code: toolErrorCode(text), message: text } };
+    }
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: toolResultToResult(
+        method,
+        JSON.parse(text),
+        this.inner.sessionId ?? this.options.clientId ?? 'default'
+      ) as Record<string, unknown>,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import type { MCPEvent, EventHandler } from '../types/index.js';
+
+/**
+ * Why an event was dead-lettered
+ * - max_attempts: every attempt the retry policy allows failed
+ * - not_retryable: the failure is not one the retry policy retries
+ */
+export type DeadLetterReason = 'max_attempts' | 'not_retryable';
+
+/**
+ * An event whose handler failed for good
+ */
+export interface DeadLetter {
+  id: string;
+  event: MCPEvent;
+  subscriptionId: string;
+  /** Client that owns the subscription */
+  clientId: string;
+  /** Handler that failed, run again on replay */
+  handler: EventHandler;
+  /** Number of attempts made */
+  attempts: number;
+  reason: DeadLetterReason;
+  /** Error from the last attempt */
+  lastError?: string;
+  /** When the event was dead-lettered (ISO 8601) */
+  deadLetteredAt: string;
+}
+
+/**
+ * Query for dead letters
+ */
+export interface DeadLetterQuery {
+  subscriptionId?: string;
+  clientId?: string;
+  /** Return at most this many, oldest first */
+  limit?: number;
+}
+
+/**
+ * Storage backend for dead-lettered events
+ */
+export interface DeadLetterStore {
+  add(deadLetter: DeadLetter): void;
+  get(id: string): DeadLetter | undefined;
+  /** Dead letters matching the query, oldest first */
+  list(query?: DeadLetterQuery): DeadLetter[];
+  delete(id: string): boolean;
+}
+
+/**
+ * Options for MemoryDeadLetterStore
+ */
+export interface MemoryDeadLetterStoreOptions {
+  /** Dead letters kept before the oldest are dropped (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory dead-letter store (lost on restart)
+ */
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private deadLetters: Map<string, DeadLetter> = new Map();
+  private maxEntries: number;
+
+  constructor(options: MemoryDeadLetterStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  add(deadLetter: DeadLetter): void {
+    this.deadLetters.set(deadLetter.id, deadLetter);
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.deadLetters.size > this.maxEntries) {
+      this.deadLetters.delete(this.deadLetters.keys().next().value!);
+    }
+  }
+
+  get(id: string): DeadLetter | undefined {
+    return this.deadLetters.get(id);
+  }
+
+  list(query: DeadLetterQuery = {}): DeadLetter[] {
+    const result = Array.from(this.deadLetters.values()).filter(
+      (deadLetter) =>
+        (!query.subscriptionId || deadLetter.subscriptionId === query.subscriptionId) &&
+        (!query.clientId || deadLetter.clientId === query.clientId)
+    );
+    return query.limit !== undefined ? result.slice(0, query.limit) : result;
+  }
+
+  delete(id: string): boolean {
+    return this.deadLetters.delete(id);
+  }
+}
@@ -0,0 +1,38 @@
+import type { MCPEvent } from '../types/index.js';
+
+/**
+ * Receives every event published on the bus, including this server's own
+ */
+export type EventBusHandler = (event: MCPEvent) => Promise<void>;
+
+/**
+ * Carries published events to every EventsServer instance. Each instance
+ * subscribes once and notifies its own sessions of the events it receives.
+ *
+ * Structurally compatible with the event buses of @esmcp/server, so
+ * RedisEventBus can be shared with EventsServer.
+ */
+export interface EventBus {
+  subscribe(handler: EventBusHandler): Promise<void>;
+  publish(event: MCPEvent): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Single-process bus; publish resolves once the handlers have run
+ */
+export class MemoryEventBus implements EventBus {
+  private handlers: Set<EventBusHandler> = new Set();
+
+  async subscribe(handler: EventBusHandler): Promise<void> {
+    this.handlers.add(handler);
+  }
+
+  async publish(event: MCPEvent): Promise<void> {
+    await Promise.all(Array.from(this.handlers, (handler) => handler(event)));
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
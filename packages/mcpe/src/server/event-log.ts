@@ -0,0 +1,138 @@
+import {
+  matchesFilter,
+  type MCPEvent,
+  type EventHistoryQuery,
+  type EventHistoryResult,
+} from '../types/index.js';
+
+/**
+ * Options for the retained event log
+ */
+export interface EventLogOptions {
+  /** Maximum number of events to retain (default: 1000, 0 disables retention) */
+  maxEvents?: number;
+  /** Maximum age of retained events in milliseconds (default: unlimited) */
+  maxAgeMs?: number;
+}
+
+const DEFAULT_MAX_EVENTS = 1000;
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * A published event and the time it was retained
+ */
+interface RetainedEvent {
+  event: MCPEvent;
+  retainedAt: number;
+}
+
+/**
+ * EventLog - bounded in-memory log of published events
+ *
+ * Backs the events_history tool and replay on subscribe. The oldest events
+ * are evicted once maxEvents or maxAgeMs is exceeded.
+ */
+export class EventLog {
+  private entries: RetainedEvent[] = [];
+  private readonly maxEvents: number;
+  private readonly maxAgeMs?: number;
+
+  constructor(options: EventLogOptions = {}) {
+    this.maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+    this.maxAgeMs = options.maxAgeMs;
+  }
+
+  /**
+   * Whether the log retains any events
+   */
+  get enabled(): boolean {
+    return this.maxEvents > 0;
+  }
+
+  /**
+   * Number of retained events
+   */
+  get size(): number {
+    this.evict();
+    return this.entries.length;
+  }
+
+  /**
+   * Retain a published event
+   */
+  append(event: MCPEvent): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.entries.push({ event, retainedAt: Date.now() });
+    this.evict();
+  }
+
+  /**
+   * Query retained events in publish order
+   */
+  query(query: EventHistoryQuery = {}): EventHistoryResult {
+    this.evict();
+
+    let start = 0;
+    let cursorFound = true;
+    if (query.sinceEventId) {
+      const index = this.entries.findIndex((entry) => entry.event.id === query.sinceEventId);
+      if (index === -1) {
+        cursorFound = false;
+      } else {
+        start = index + 1;
+      }
+    }
+
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    const events: MCPEvent[] = [];
+    let hasMore = false;
+
+    for (let i = start; i < this.entries.length; i++) {
+      const { event } = this.entries[i];
+      if (since !== undefined && Date.parse(event.metadata.timestamp) <= since) {
+        continue;
+      }
+      if (query.filter && !matchesFilter(event, query.filter)) {
+        continue;
+      }
+      if (events.length === limit) {
+        hasMore = true;
+        break;
+      }
+      events.push(event);
+    }
+
+    return {
+      events,
+      hasMore,
+      nextCursor: events.length > 0 ? events[events.length - 1].id : undefined,
+      cursorFound,
+    };
+  }
+
+  /**
+   * Remove all retained events
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Drop events beyond the size and age limits
+   */
+  private evict(): void {
+    if (this.entries.length > this.maxEvents) {
+      this.entries.splice(0, this.entries.length - this.maxEvents);
+    }
+
+    if (this.maxAgeMs !== undefined) {
+      const cutoff = Date.now() - this.maxAgeMs;
+      const expired = this.entries.findIndex((entry) => entry.retainedAt >= cutoff);
+      this.entries.splice(0, expired === -1 ? this.entries.length : expired);
+    }
+  }
+}
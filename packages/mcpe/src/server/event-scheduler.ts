@@ -1,13 +1,18 @@
 import { Cron } from 'croner';
 import type { MCPEvent, Subscription, CronSchedule, ScheduledDelivery } from '../types/index.js';
+import { type PendingEventQueue, MemoryPendingEventQueue } from './pending-event-queue.js';
 
 /**
  * Callback to deliver a batch of events
+ *
+ * `droppedEvents` is the number of events discarded due to queue overflow
+ * since the previous delivery.
  */
 export type BatchDeliveryCallback = (
   subscriptionId: string,
   events: MCPEvent[],
-  subscription: Subscription
+  subscription: Subscription,
+  droppedEvents: number
 ) => Promise<void>;
 
 /**
@@ -15,18 +20,42 @@ export type BatchDeliveryCallback = (
  */
 export type ScheduleCompleteCallback = (subscriptionId: string) => void;
 
+/**
+ * What to do with schedule runs that were missed while the server was down
+ * - fire-once: deliver everything pending in a single batch
+ * - fire-all: deliver one batch per missed run, even when it has no events; the
+ *   first carries the events queued before the server went down
+ * - skip: drop the missed runs; pending events wait for the next run
+ */
+export type MissedTickPolicy = 'fire-once' | 'fire-all' | 'skip';
+
+/**
+ * Scheduler options that can be set through EventsServerConfig
+ */
+export interface EventSchedulerOptions {
+  /** Maximum events to queue per subscription (default: 1000) */
+  maxEventsPerSubscription?: number;
+  /** Queue backend for pending events (default: in-memory) */
+  queue?: PendingEventQueue;
+  /** Policy for runs missed while the server was down (default: fire-once) */
+  missedTickPolicy?: MissedTickPolicy;
+}
+
 /**
  * Configuration for the EventScheduler
  */
-export interface EventSchedulerConfig {
+export interface EventSchedulerConfig extends EventSchedulerOptions {
   /** Callback to deliver batched events */
   onDeliverBatch: BatchDeliveryCallback;
   /** Callback when scheduled delivery completes */
   onScheduleComplete?: ScheduleCompleteCallback;
-  /** Maximum events to keep in memory per subscription (default: 1000) */
-  maxEventsPerSubscription?: number;
 }
 
+/**
+ * Upper bound on missed cron runs replayed for one subscription
+ */
+const MAX_MISSED_TICKS = 1000;
+
 /**
  * Scheduled job info
  */
@@ -44,7 +73,9 @@ interface ScheduledJob {
  * - **cron**: Recurring delivery based on cron expression (e.g., "0 9 * * *" = daily at 9am)
  * - **scheduled**: One-time delivery at a specific date/time
  *
- * Events are queued in memory and delivered as batches when the schedule triggers.
+ * Events are queued in the configured PendingEventQueue and delivered as batches
+ * when the schedule triggers. With a persistent queue, `restoreSubscription()`
+ * catches up on runs missed while the server was down.
  *
  * @example
  * ```typescript
@@ -67,15 +98,18 @@ interface ScheduledJob {
  */
 export class EventScheduler {
   private jobs: Map<string, ScheduledJob> = new Map();
-  private pendingEvents: Map<string, MCPEvent[]> = new Map();
+  private queue: PendingEventQueue;
   private config: Required<EventSchedulerConfig>;
 
   constructor(config: EventSchedulerConfig) {
     this.config = {
       maxEventsPerSubscription: 1000,
       onScheduleComplete: () => {},
+      queue: new MemoryPendingEventQueue(),
+      missedTickPolicy: 'fire-once',
       ...config,
     };
+    this.queue = this.config.queue;
   }
 
   /**
@@ -98,6 +132,85 @@ export class EventScheduler {
     }
   }
 
+  /**
+   * Restart scheduling for a subscription loaded after a restart
+   *
+   * Starts the job like `startSubscription()`, then applies the missed tick
+   * policy to runs that should have happened while the server was down.
+   */
+  async restoreSubscription(subscription: Subscription): Promise<void> {
+    await this.queue.ready;
+    const { delivery } = subscription;
+    const policy = this.config.missedTickPolicy;
+
+    // A one-time delivery whose time passed while we were down
+    if (
+      policy === 'skip' &&
+      delivery.channels.includes('scheduled') &&
+      delivery.scheduledDelivery &&
+      new Date(delivery.scheduledDelivery.deliverAt) <= new Date()
+    ) {
+      console.log(`[EventScheduler] Skipping missed scheduled delivery for ${subscription.id}`);
+      this.queue.delete(subscription.id);
+      if (delivery.scheduledDelivery.autoExpire !== false) {
+        this.config.onScheduleComplete(subscription.id);
+      }
+      return;
+    }
+
+    this.startSubscription(subscription);
+
+    if (!delivery.channels.includes('cron') || !delivery.cronSchedule) {
+      return;
+    }
+
+    const now = new Date();
+    const missed = this.getMissedRuns(subscription, delivery.cronSchedule, now);
+    if (missed.length === 0) {
+      return;
+    }
+
+    console.log(
+      `[EventScheduler] ${missed.length} missed run(s) for subscription ${subscription.id}, policy: ${policy}`
+    );
+
+    if (policy === 'fire-once') {
+      await this.deliverPendingEvents(subscription);
+    } else if (policy === 'fire-all') {
+      for (const runAt of missed) {
+        if (!(await this.deliverPendingEvents(subscription, runAt, true))) {
+          // Leave the remaining runs to be replayed after the next restart
+          return;
+        }
+        this.queue.setLastRun(subscription.id, runAt);
+      }
+    }
+
+    this.queue.setLastRun(subscription.id, now);
+  }
+
+  /**
+   * Cron runs between the last recorded run (or subscription creation) and now
+   */
+  private getMissedRuns(subscription: Subscription, schedule: CronSchedule, now: Date): Date[] {
+    const since = this.queue.getLastRun(subscription.id) ?? new Date(subscription.createdAt);
+    const missed: Date[] = [];
+
+    try {
+      const probe = new Cron(schedule.expression, { timezone: schedule.timezone || 'UTC', paused: true });
+      let next = probe.nextRun(since);
+      while (next && next <= now && missed.length < MAX_MISSED_TICKS) {
+        missed.push(next);
+        next = probe.nextRun(next);
+      }
+      probe.stop();
+    } catch (error) {
+      console.error(`[EventScheduler] Failed to compute missed runs for ${subscription.id}:`, error);
+    }
+
+    return missed;
+  }
+
   /**
    * Start a cron job for recurring delivery
    */
@@ -107,6 +220,7 @@ export class EventScheduler {
     try {
       const cronJob = new Cron(expression, { timezone: timezone || 'UTC' }, async () => {
         await this.deliverPendingEvents(subscription);
+        this.queue.setLastRun(subscription.id, new Date());
       });
 
       const job: ScheduledJob = {
@@ -137,6 +251,7 @@ export class EventScheduler {
     if (delay <= 0) {
       console.log(`[EventScheduler] Scheduled time already passed for ${subscription.id}, delivering now`);
       this.deliverPendingEvents(subscription).then(() => {
+        this.queue.delete(subscription.id);
         if (schedule.autoExpire !== false) {
           this.config.onScheduleComplete(subscription.id);
         }
@@ -149,7 +264,7 @@ export class EventScheduler {
 
       // Clean up
       this.jobs.delete(subscription.id);
-      this.pendingEvents.delete(subscription.id);
+      this.queue.delete(subscription.id);
 
       // Notify completion for auto-expire
       if (schedule.autoExpire !== false) {
@@ -180,48 +295,63 @@ export class EventScheduler {
       return;
     }
 
-    const events = this.pendingEvents.get(subscriptionId) || [];
     const maxEvents =
       job.subscription.delivery.cronSchedule?.maxEventsPerDelivery ||
       this.config.maxEventsPerSubscription;
 
-    if (events.length >= maxEvents) {
+    const dropped = this.queue.enqueue(subscriptionId, event, maxEvents);
+    if (dropped > 0) {
       console.warn(
-        `[EventScheduler] Max events (${maxEvents}) reached for subscription ${subscriptionId}, dropping oldest`
+        `[EventScheduler] Max events (${maxEvents}) reached for subscription ${subscriptionId}, dropped ${dropped} oldest (total dropped: ${this.queue.getDroppedTotal(subscriptionId)})`
       );
-      events.shift(); // Remove oldest event
     }
 
-    events.push(event);
-    this.pendingEvents.set(subscriptionId, events);
-
     console.log(
-      `[EventScheduler] Queued event for ${subscriptionId}, total pending: ${events.length}`
+      `[EventScheduler] Queued event for ${subscriptionId}, total pending: ${this.getPendingCount(subscriptionId)}`
     );
   }
 
   /**
-   * Deliver all pending events for a subscription
+   * Deliver pending events for a subscription
+   *
+   * @param upTo - Only deliver events queued at or before this time
+   * @param deliverEmpty - Deliver a batch even when no events are pending
+   * @returns false if the delivery failed and the events stay queued
    */
-  private async deliverPendingEvents(subscription: Subscription): Promise<void> {
-    const events = this.pendingEvents.get(subscription.id) || [];
+  private async deliverPendingEvents(
+    subscription: Subscription,
+    upTo?: Date,
+    deliverEmpty = false
+  ): Promise<boolean> {
+    let queued = this.queue.list(subscription.id);
+    if (upTo) {
+      queued = queued.filter((entry) => new Date(entry.queuedAt) <= upTo);
+    }
 
-    if (events.length === 0) {
+    if (queued.length === 0 && !deliverEmpty) {
       console.log(`[EventScheduler] No pending events for ${subscription.id}`);
-      return;
+      return true;
     }
 
     console.log(
-      `[EventScheduler] Delivering ${events.length} events for subscription ${subscription.id}`
+      `[EventScheduler] Delivering ${queued.length} events for subscription ${subscription.id}`
     );
 
     try {
-      await this.config.onDeliverBatch(subscription.id, [...events], subscription);
+      await this.config.onDeliverBatch(
+        subscription.id,
+        queued.map((entry) => entry.event),
+        subscription,
+        this.queue.getDroppedSinceDelivery(subscription.id)
+      );
 
       // Clear delivered events
-      this.pendingEvents.set(subscription.id, []);
+      this.queue.remove(subscription.id, queued.length);
+      this.queue.resetDropped(subscription.id);
+      return true;
     } catch (error) {
       console.error(`[EventScheduler] Failed to deliver batch for ${subscription.id}:`, error);
+      return false;
     }
   }
 
@@ -244,11 +374,26 @@ export class EventScheduler {
     console.log(`[EventScheduler] Stopped job for subscription ${subscriptionId}`);
   }
 
+  /**
+   * Stop scheduling for a subscription and discard its pending events
+   */
+  removeSubscription(subscriptionId: string): void {
+    this.stopSubscription(subscriptionId);
+    this.queue.delete(subscriptionId);
+  }
+
   /**
    * Get pending event count for a subscription
    */
   getPendingCount(subscriptionId: string): number {
-    return this.pendingEvents.get(subscriptionId)?.length || 0;
+    return this.queue.list(subscriptionId).length;
+  }
+
+  /**
+   * Get the number of events dropped due to queue overflow for a subscription
+   */
+  getDroppedCount(subscriptionId: string): number {
+    return this.queue.getDroppedTotal(subscriptionId);
   }
 
   /**
@@ -274,12 +419,14 @@ export class EventScheduler {
     type: 'cron' | 'scheduled';
     nextRun?: Date;
     pendingEvents: number;
+    droppedEvents: number;
   }> {
     const result: Array<{
       subscriptionId: string;
       type: 'cron' | 'scheduled';
       nextRun?: Date;
       pendingEvents: number;
+      droppedEvents: number;
     }> = [];
 
     for (const [id, job] of this.jobs) {
@@ -288,6 +435,7 @@ export class EventScheduler {
         type: job.cronJob ? 'cron' : 'scheduled',
         nextRun: this.getNextRun(id),
         pendingEvents: this.getPendingCount(id),
+        droppedEvents: this.getDroppedCount(id),
       });
     }
 
@@ -305,11 +453,13 @@ export class EventScheduler {
 
   /**
    * Stop all jobs
+   *
+   * Pending events stay in the queue so a persistent queue can deliver them
+   * after a restart.
    */
   stopAll(): void {
     for (const id of this.jobs.keys()) {
       this.stopSubscription(id);
     }
-    this.pendingEvents.clear();
   }
 }
@@ -0,0 +1,117 @@
+import type {
+  EventStore,
+  EventId,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Options for the in-memory event store
+ */
+export interface MemoryEventStoreOptions {
+  /** Maximum number of messages to retain (default: 1000) */
+  maxEvents?: number;
+}
+
+const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * A message sent on a stream
+ */
+interface StoredMessage {
+  id: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Stream and sequence number of an event ID
+ */
+function parseEventId(eventId: EventId): { streamId: StreamId; sequence: number } | undefined {
+  const separator = eventId.lastIndexOf('_');
+  const sequence = Number(eventId.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(sequence) || sequence < 1) {
+    return undefined;
+  }
+  return { streamId: eventId.slice(0, separator), sequence };
+}
+
+/**
+ * Thrown when a client resumes from an event ID whose messages were evicted
+ */
+export class EventIdEvictedError extends Error {
+  constructor(readonly eventId: EventId) {
+    super(`Event ${eventId} is no longer retained; reconnect without Last-Event-ID`);
+    this.name = 'EventIdEvictedError';
+  }
+}
+
+/**
+ * MemoryEventStore - bounded event store for one Streamable HTTP session
+ *
+ * Lets clients that reconnect with Last-Event-ID receive the messages they
+ * missed. Stream IDs are only unique within a session, so use one store per
+ * session. The oldest messages are evicted once maxEvents is exceeded.
+ *
+ * Event IDs are `<streamId>_<sequence>`, so an evicted ID can be told from
+ * one the store never issued: resuming from an evicted ID fails with
+ * EventIdEvictedError instead of silently skipping the evicted messages.
+ */
+export class MemoryEventStore implements EventStore {
+  private messages: StoredMessage[] = [];
+  private nextSequence = 1;
+  private readonly maxEvents: number;
+
+  constructor(options: MemoryEventStoreOptions = {}) {
+    this.maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const id = `${streamId}_${this.nextSequence++}`;
+    this.messages.push({ id, streamId, message });
+    if (this.messages.length > this.maxEvents) {
+      this.messages.splice(0, this.messages.length - this.maxEvents);
+    }
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const parsed = parseEventId(eventId);
+    return parsed && parsed.sequence < this.nextSequence ? parsed.streamId : undefined;
+  }
+
+  /**
+   * Whether the store issued an event ID but no longer retains its message
+   */
+  isEvicted(eventId: EventId): boolean {
+    const parsed = parseEventId(eventId);
+    return (
+      parsed !== undefined &&
+      parsed.sequence < this.nextSequence &&
+      !this.messages.some((stored) => stored.id === eventId)
+    );
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = await this.getStreamIdForEventId(lastEventId);
+    if (streamId === undefined) {
+      // Not an ID of this store; nothing can be replayed
+      return '';
+    }
+    if (this.isEvicted(lastEventId)) {
+      throw new EventIdEvictedError(lastEventId);
+    }
+
+    const index = this.messages.findIndex((stored) => stored.id === lastEventId);
+    for (const stored of this.messages.slice(index + 1)) {
+      // Priming events carry no message
+      if (stored.streamId === streamId && Object.keys(stored.message).length > 0) {
+        await send(stored.id, stored.message);
+      }
+    }
+    return streamId;
+  }
+}
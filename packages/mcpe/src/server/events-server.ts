@@ -1,12 +1,19 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
 import {
   type MCPEvent,
   type EventsCapability,
   type EventsServerOptions,
   type Subscription,
   type CreateSubscriptionRequest,
+  type EventHistoryQuery,
+  type EventHistoryResult,
+  type ReplayOptions,
   EventFilterSchema,
+  EventHistoryQuerySchema,
+  ReplayOptionsSchema,
   DeliveryPreferencesSchema,
   EventHandlerSchema,
   DEFAULT_EVENTS_CAPABILITY,
@@ -16,8 +23,12 @@ import {
   type EventMetadata,
 } from '../types/index.js';
 import { SubscriptionManager } from './subscription-manager.js';
+import type { SubscriptionStorage } from './subscription-storage.js';
 import { HandlerExecutor, type HandlerExecutorConfig } from './handler-executor.js';
-import { EventScheduler } from './event-scheduler.js';
+import { EventScheduler, type EventSchedulerOptions } from './event-scheduler.js';
+import { EventLog, type EventLogOptions } from './event-log.js';
+import { MemoryEventBus, type EventBus } from './event-bus.js';
+import { JsonRpcCompatTransport } from './compat-transport.js';
 
 /**
  * Options for creating an EventsServer
@@ -28,8 +39,42 @@ export interface EventsServerConfig {
   events?: EventsServerOptions;
   /** Handler executor configuration for executing event handlers */
   handlers?: HandlerExecutorConfig;
+  /**
+   * Scope subscriptions to the MCP session that created them (default: false).
+   *
+   * When enabled, the client identity is taken from the MCP session ID and
+   * notifications are only sent to the session that owns the subscription.
+   * Use `connectSession()` to attach one transport per client.
+   */
+  perSession?: boolean;
+  /**
+   * Storage for subscriptions (default: in-memory only).
+   * Active cron/scheduled subscriptions are rescheduled on startup.
+   */
+  storage?: SubscriptionStorage;
+  /** Cron/scheduled delivery options (pending event queue, missed tick policy) */
+  scheduler?: EventSchedulerOptions;
+  /** Retained event log for events_history and replay (default: last 1000 events) */
+  history?: EventLogOptions;
+  /** Enforcement of subscription expiresAt */
+  expiry?: {
+    /** How often expired subscriptions are swept (default: 60000) */
+    sweepIntervalMs?: number;
+    /** How long a subscription keeps matching after expiresAt, to allow renewal (default: 0) */
+    gracePeriodMs?: number;
+  };
+  /**
+   * Carries published events to every EventsServer instance, each notifying
+   * its own sessions (default: MemoryEventBus, a single instance)
+   */
+  bus?: EventBus;
 }
 
+/**
+ * Client ID used when subscriptions are not scoped per session
+ */
+const DEFAULT_CLIENT_ID = 'default';
+
 /**
  * EventsServer - MCP Server wrapper with event subscription capabilities
  *
@@ -62,14 +107,32 @@ export interface EventsServerConfig {
  * // Connect to transport
  * await server.connect(transport);
  * ```
+ *
+ * @example
+ * ```typescript
+ * // One EventsServer shared by many MCP sessions
+ * const server = new EventsServer({ name: 'hub', version: '1.0.0', perSession: true });
+ *
+ * // For each new Streamable HTTP session
+ * await server.connectSession(transport);
+ * ```
  */
 export class EventsServer {
   readonly mcpServer: McpServer;
   readonly subscriptionManager: SubscriptionManager;
   readonly handlerExecutor: HandlerExecutor;
   readonly scheduler: EventScheduler;
+  readonly eventLog: EventLog;
   private readonly eventsCapability: EventsCapability;
-  private clientId: string = 'default';
+  private readonly perSession: boolean;
+  private readonly serverInfo?: { name: string; version: string };
+  private sessions: Map<string, McpServer> = new Map();
+  /** Live events buffered per subscription while retained events are replayed */
+  private replaying: Map<string, MCPEvent[]> = new Map();
+  private expiryTimer: NodeJS.Timeout;
+  private readonly bus: EventBus;
+  /** Resolves once this server receives events from the bus */
+  private readonly busReady: Promise<void>;
 
   constructor(config: EventsServerConfig);
   constructor(mcpServer: McpServer, options?: EventsServerOptions);
@@ -81,6 +144,7 @@ export class EventsServer {
       this.mcpServer = configOrServer;
       this.eventsCapability = this.buildCapability(options);
       this.handlerExecutor = new HandlerExecutor();
+      this.perSession = false;
     } else {
       this.mcpServer = new McpServer(
         { name: configOrServer.name, version: configOrServer.version },
@@ -88,30 +152,99 @@ export class EventsServer {
       );
       this.eventsCapability = this.buildCapability(configOrServer.events);
       this.handlerExecutor = new HandlerExecutor(configOrServer.handlers);
+      this.perSession = configOrServer.perSession ?? false;
+      this.serverInfo = { name: configOrServer.name, version: configOrServer.version };
     }
 
+    this.sessions.set(DEFAULT_CLIENT_ID, this.mcpServer);
+
+    this.eventLog = new EventLog(
+      this.eventsCapability.features.history
+        ? configOrServer instanceof McpServer ? undefined : configOrServer.history
+        : { maxEvents: 0 }
+    );
+
     this.subscriptionManager = new SubscriptionManager({
       maxSubscriptionsPerClient: this.eventsCapability.maxSubscriptions,
+      storage: configOrServer instanceof McpServer ? undefined : configOrServer.storage,
+      expiryGracePeriodMs:
+        configOrServer instanceof McpServer ? undefined : configOrServer.expiry?.gracePeriodMs,
     });
 
     // Initialize scheduler for cron/scheduled delivery
     this.scheduler = new EventScheduler({
-      onDeliverBatch: async (subscriptionId, events, subscription) => {
-        await this.deliverBatch(subscriptionId, events, subscription);
+      ...(configOrServer instanceof McpServer ? {} : configOrServer.scheduler),
+      onDeliverBatch: async (subscriptionId, events, subscription, droppedEvents) => {
+        await this.deliverBatch(subscriptionId, events, subscription, droppedEvents);
       },
       onScheduleComplete: (subscriptionId) => {
         // Mark subscription as expired when scheduled delivery completes
         const subscription = this.subscriptionManager.get(subscriptionId);
         if (subscription && subscription.delivery.scheduledDelivery?.autoExpire !== false) {
-          this.subscriptionManager.update(subscriptionId, subscription.clientId, {
-            status: 'expired',
-          });
-          this.notifySubscriptionExpired(subscriptionId);
+          this.subscriptionManager
+            .update(subscriptionId, subscription.clientId, { status: 'expired' })
+            .then(() => this.notifySubscriptionExpired(subscriptionId))
+            .catch((error) => {
+              console.error(`Failed to expire subscription ${subscriptionId}:`, error);
+            });
         }
       },
     });
 
-    this.registerTools();
+    this.registerTools(this.mcpServer, DEFAULT_CLIENT_ID);
+    this.subscriptionManager.ready
+      .then(() => this.restoreScheduledSubscriptions())
+      .catch((error) => {
+        console.error('Failed to load stored subscriptions:', error);
+      });
+
+    this.bus = (configOrServer instanceof McpServer ? undefined : configOrServer.bus) ?? new MemoryEventBus();
+    this.busReady = this.bus.subscribe((event) => this.deliverLocally(event));
+    this.busReady.catch((error) => {
+      console.error('Failed to subscribe to the event bus:', error);
+    });
+
+    const sweepIntervalMs =
+      (configOrServer instanceof McpServer ? undefined : configOrServer.expiry?.sweepIntervalMs) ?? 60000;
+    this.expiryTimer = setInterval(() => {
+      this.sweepExpired().catch((error) => {
+        console.error('Expiry sweep failed:', error);
+      });
+    }, sweepIntervalMs);
+    this.expiryTimer.unref();
+  }
+
+  /**
+   * Expire subscriptions past their expiresAt (plus grace period), stop their
+   * schedules and notify their clients. Runs periodically.
+   * @returns IDs of the subscriptions that were expired
+   */
+  async sweepExpired(): Promise<string[]> {
+    const expired = await this.subscriptionManager.expireDue();
+
+    for (const subscription of expired) {
+      this.scheduler.stopSubscription(subscription.id);
+      await this.notifySubscriptionExpired(subscription.id);
+    }
+
+    return expired.map((subscription) => subscription.id);
+  }
+
+  /**
+   * Restart cron/scheduled jobs for active subscriptions loaded from storage,
+   * catching up on runs missed while the server was down
+   */
+  private restoreScheduledSubscriptions(): void {
+    for (const subscription of this.subscriptionManager.list('active')) {
+      if (
+        subscription.delivery.channels.includes('cron') ||
+        subscription.delivery.channels.includes('scheduled')
+      ) {
+        this.scheduler.restoreSubscription(subscription).catch((error) => {
+          console.error(`Failed to restore schedule for subscription ${subscription.id}:`, error);
+        });
+      }
+    }
   }
 
   private buildCapability(options?: EventsServerOptions): EventsCapability {
@@ -133,11 +266,28 @@ export class EventsServer {
   }
 
   /**
-   * Register event management tools with the MCP server
+   * Resolve the client that owns a tool call.
+   *
+   * Without per-session mode every caller shares the default client. Otherwise
+   * the MCP session ID is used, falling back to an ID assigned to the connection
+   * for transports without sessions (e.g. stdio).
+   */
+  private resolveClientId(mcpServer: McpServer, sessionId: string | undefined, fallbackId: string): string {
+    if (!this.perSession) {
+      return DEFAULT_CLIENT_ID;
+    }
+
+    const clientId = sessionId ?? fallbackId;
+    this.sessions.set(clientId, mcpServer);
+    return clientId;
+  }
+
+  /**
+   * Register event management tools with an MCP server
    */
-  private registerTools(): void {
+  private registerTools(mcpServer: McpServer, fallbackClientId: string): void {
     // events_subscribe - Create a new subscription
-    this.mcpServer.registerTool(
+    mcpServer.registerTool(
       MCPE_TOOLS.SUBSCRIBE,
       {
         description: 'Subscribe to events matching a filter with optional handler',
@@ -146,9 +296,16 @@ export class EventsServer {
           delivery: DeliveryPreferencesSchema.optional(),
           handler: EventHandlerSchema.optional(),
           expiresAt: z.string().datetime().optional(),
+          replay: ReplayOptionsSchema.optional().describe('Deliver matching retained events before live delivery starts'),
         },
       },
-      async (args) => {
+      async (args, extra) => {
+        const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+        const denied = args.handler && this.handlerExecutor.checkHandler(args.handler);
+        if (denied) {
+          throw new Error(`Handler not allowed: ${denied}`);
+        }
+
         const request: CreateSubscriptionRequest = {
           filter: args.filter ?? {},
           delivery: args.delivery ?? { channels: ['realtime'] },
@@ -156,7 +313,7 @@ export class EventsServer {
           expiresAt: args.expiresAt,
         };
 
-        const subscription = this.subscriptionManager.create(this.clientId, request);
+        const subscription = await this.subscriptionManager.create(clientId, request);
 
         // Start scheduler if using cron or scheduled delivery
         if (
@@ -166,6 +323,8 @@ export class EventsServer {
           this.scheduler.startSubscription(subscription);
         }
 
+        const replayed = args.replay ? await this.replayEvents(subscription, args.replay) : undefined;
+
         return {
           content: [
             {
@@ -178,6 +337,7 @@ export class EventsServer {
                 handler: subscription.handler ? { type: subscription.handler.type } : undefined,
                 createdAt: subscription.createdAt,
                 expiresAt: subscription.expiresAt,
+                replayed,
               }),
             },
           ],
@@ -186,7 +346,7 @@ export class EventsServer {
     );
 
     // events_unsubscribe - Remove a subscription
-    this.mcpServer.registerTool(
+    mcpServer.registerTool(
       MCPE_TOOLS.UNSUBSCRIBE,
       {
         description: 'Unsubscribe from events',
@@ -194,11 +354,16 @@ export class EventsServer {
           subscriptionId: z.string().uuid(),
         },
       },
-      async (args) => {
-        // Stop scheduler before deleting
-        this.scheduler.stopSubscription(args.subscriptionId);
+      async (args, extra) => {
+        const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+        // Stop scheduler and drop queued events before deleting (only for the owning client)
+        await this.subscriptionManager.ready;
+        if (this.subscriptionManager.getForClient(args.subscriptionId, clientId)) {
+          this.scheduler.removeSubscription(args.subscriptionId);
+          this.handlerExecutor.cancel(args.subscriptionId);
+        }
 
-        const deleted = this.subscriptionManager.delete(args.subscriptionId, this.clientId);
+        const deleted = await this.subscriptionManager.delete(args.subscriptionId, clientId);
         return {
           content: [
             {
@@ -211,7 +376,7 @@ export class EventsServer {
     );
 
     // events_list - List active subscriptions
-    this.mcpServer.registerTool(
+    mcpServer.registerTool(
       MCPE_TOOLS.LIST,
       {
         description: 'List active subscriptions',
@@ -219,8 +384,10 @@ export class EventsServer {
           status: z.enum(['active', 'paused', 'expired']).optional(),
         },
       },
-      async (args) => {
-        const subscriptions = this.subscriptionManager.listByClient(this.clientId, args.status);
+      async (args, extra) => {
+        const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+        await this.subscriptionManager.ready;
+        const subscriptions = this.subscriptionManager.listByClient(clientId, args.status);
         return {
           content: [
             {
@@ -235,6 +402,7 @@ export class EventsServer {
                   expiresAt: s.expiresAt,
                   nextRun: this.scheduler.getNextRun(s.id)?.toISOString(),
                   pendingEvents: this.scheduler.getPendingCount(s.id),
+                  droppedEvents: this.scheduler.getDroppedCount(s.id),
                 })),
               }),
             },
@@ -245,7 +413,7 @@ export class EventsServer {
 
     // events_pause - Pause a subscription
     if (this.eventsCapability.features.pause) {
-      this.mcpServer.registerTool(
+      mcpServer.registerTool(
         MCPE_TOOLS.PAUSE,
         {
           description: 'Pause a subscription',
@@ -253,11 +421,12 @@ export class EventsServer {
             subscriptionId: z.string().uuid(),
           },
         },
-        async (args) => {
+        async (args, extra) => {
+          const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+          const subscription = await this.subscriptionManager.pause(args.subscriptionId, clientId);
+
           // Stop scheduler when paused
           this.scheduler.stopSubscription(args.subscriptionId);
-
-          const subscription = this.subscriptionManager.pause(args.subscriptionId, this.clientId);
           return {
             content: [
               {
@@ -273,7 +442,7 @@ export class EventsServer {
       );
 
       // events_resume - Resume a subscription
-      this.mcpServer.registerTool(
+      mcpServer.registerTool(
         MCPE_TOOLS.RESUME,
         {
           description: 'Resume a paused subscription',
@@ -281,8 +450,9 @@ export class EventsServer {
             subscriptionId: z.string().uuid(),
           },
         },
-        async (args) => {
-          const subscription = this.subscriptionManager.resume(args.subscriptionId, this.clientId);
+        async (args, extra) => {
+          const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+          const subscription = await this.subscriptionManager.resume(args.subscriptionId, clientId);
 
           // Restart scheduler when resumed
           if (
@@ -307,8 +477,111 @@ export class EventsServer {
       );
     }
 
+    // events_history - Query retained events
+    if (this.eventsCapability.features.history) {
+      mcpServer.registerTool(
+        MCPE_TOOLS.HISTORY,
+        {
+          description: 'Query recently published events, e.g. to catch up on events missed while disconnected',
+          inputSchema: EventHistoryQuerySchema.shape,
+        },
+        async (args) => {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(this.history(args)),
+              },
+            ],
+          };
+        }
+      );
+    }
+
+    // events_deadletters_list / events_deadletters_replay - Events whose handler failed
+    if (this.eventsCapability.features.deadLetters) {
+      mcpServer.registerTool(
+        MCPE_TOOLS.DEADLETTERS_LIST,
+        {
+          description: 'List events whose handler failed after all retries',
+          inputSchema: {
+            subscriptionId: z.string().uuid().optional(),
+            limit: z.number().int().min(1).optional(),
+          },
+        },
+        async (args, extra) => {
+          const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+          const deadLetters = this.handlerExecutor.deadLetters.list({ ...args, clientId });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  deadLetters: deadLetters.map((deadLetter) => ({
+                    id: deadLetter.id,
+                    subscriptionId: deadLetter.subscriptionId,
+                    event: deadLetter.event,
+                    handlerType: deadLetter.handler.type,
+                    attempts: deadLetter.attempts,
+                    reason: deadLetter.reason,
+                    lastError: deadLetter.lastError,
+                    deadLetteredAt: deadLetter.deadLetteredAt,
+                  })),
+                }),
+              },
+            ],
+          };
+        }
+      );
+
+      mcpServer.registerTool(
+        MCPE_TOOLS.DEADLETTERS_REPLAY,
+        {
+          description: 'Run the handler again for dead-lettered events, by ID or for a whole subscription',
+          inputSchema: {
+            ids: z.array(z.string().uuid()).optional().describe('Dead letters to replay (default: all of yours)'),
+            subscriptionId: z.string().uuid().optional(),
+          },
+        },
+        async (args, extra) => {
+          const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+          const ids =
+            args.ids ??
+            this.handlerExecutor.deadLetters
+              .list({ clientId, subscriptionId: args.subscriptionId })
+              .map((deadLetter) => deadLetter.id);
+
+          const results: Array<{ id: string; success: boolean; error?: string }> = [];
+          for (const id of ids) {
+            // Only the owner may replay, and only within the requested subscription
+            const deadLetter = this.handlerExecutor.deadLetters.get(id);
+            if (
+              !deadLetter ||
+              deadLetter.clientId !== clientId ||
+              (args.subscriptionId && deadLetter.subscriptionId !== args.subscriptionId)
+            ) {
+              results.push({ id, success: false, error: `Dead letter not found: ${id}` });
+              continue;
+            }
+
+            const result = await this.handlerExecutor.replay(id);
+            results.push({ id, success: result?.success ?? false, error: result?.error });
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ replayed: results.length, results }),
+              },
+            ],
+          };
+        }
+      );
+    }
+
     // events_update - Update a subscription
-    this.mcpServer.registerTool(
+    mcpServer.registerTool(
       MCPE_TOOLS.UPDATE,
       {
         description: 'Update a subscription',
@@ -319,15 +592,19 @@ export class EventsServer {
           expiresAt: z.string().datetime().optional().nullable(),
         },
       },
-      async (args) => {
-        const subscription = this.subscriptionManager.update(args.subscriptionId, this.clientId, {
+      async (args, extra) => {
+        const clientId = this.resolveClientId(mcpServer, extra.sessionId, fallbackClientId);
+        await this.subscriptionManager.ready;
+        const previousStatus = this.subscriptionManager.getForClient(args.subscriptionId, clientId)?.status;
+        const subscription = await this.subscriptionManager.update(args.subscriptionId, clientId, {
           filter: args.filter,
           delivery: args.delivery,
           expiresAt: args.expiresAt,
         });
+        const renewed = previousStatus === 'expired' && subscription.status === 'active';
 
-        // Restart scheduler if delivery changed
-        if (args.delivery) {
+        // Restart scheduler if delivery changed or the subscription was renewed
+        if (args.delivery || renewed) {
           this.scheduler.stopSubscription(args.subscriptionId);
           if (
             subscription.delivery.channels.includes('cron') ||
@@ -346,7 +623,9 @@ export class EventsServer {
                 status: subscription.status,
                 filter: subscription.filter,
                 delivery: subscription.delivery,
+                createdAt: subscription.createdAt,
                 updatedAt: subscription.updatedAt,
+                expiresAt: subscription.expiresAt,
               }),
             },
           ],
@@ -356,7 +635,7 @@ export class EventsServer {
   }
 
   /**
-   * Publish an event to all matching subscriptions
+   * Publish an event to the matching subscriptions of every instance sharing the bus
    *
    * @param event - The event to publish, or event creation parameters
    */
@@ -382,41 +661,99 @@ export class EventsServer {
       event = eventOrType;
     }
 
+    await this.busReady;
+    await this.bus.publish(event);
+  }
+
+  /**
+   * Retain an event from the bus and notify this server's matching subscriptions
+   */
+  private async deliverLocally(event: MCPEvent): Promise<void> {
+    this.eventLog.append(event);
+
     // Find matching subscriptions
     const matchingSubscriptions = this.subscriptionManager.findMatchingSubscriptions(event);
 
     // Send notifications to matching subscriptions
     for (const subscription of matchingSubscriptions) {
+      // Hold live events until the subscription's replay has been delivered
+      const buffered = this.replaying.get(subscription.id);
+      if (buffered) {
+        buffered.push(event);
+        continue;
+      }
       await this.sendEventNotification(event, subscription);
     }
   }
 
+  /**
+   * Query retained events
+   */
+  history(query: EventHistoryQuery = {}): EventHistoryResult {
+    return this.eventLog.query(query);
+  }
+
+  /**
+   * Deliver retained events matching a new subscription, then any live events
+   * published while the replay was in progress
+   *
+   * @returns Number of retained events replayed
+   */
+  private async replayEvents(subscription: Subscription, options: ReplayOptions): Promise<number> {
+    const buffered: MCPEvent[] = [];
+    this.replaying.set(subscription.id, buffered);
+
+    try {
+      const { events } = this.eventLog.query({ ...options, filter: subscription.filter });
+      for (const event of events) {
+        await this.sendEventNotification(event, subscription, true);
+      }
+
+      while (buffered.length > 0) {
+        await this.sendEventNotification(buffered.shift()!, subscription);
+      }
+
+      return events.length;
+    } finally {
+      this.replaying.delete(subscription.id);
+    }
+  }
+
   /**
    * Send an event notification for a specific subscription
    */
-  private async sendEventNotification(event: MCPEvent, subscription: Subscription): Promise<void> {
+  private async sendEventNotification(
+    event: MCPEvent,
+    subscription: Subscription,
+    replayed = false
+  ): Promise<void> {
     const { delivery } = subscription;
 
     // For realtime delivery, send immediately
     if (delivery.channels.includes('realtime')) {
       try {
-        // Use the underlying server to send a notification
-        await this.mcpServer.server.notification({
+        // Route the notification to the session that owns the subscription
+        await this.notifyClient(subscription.clientId, {
           method: MCPE_NOTIFICATIONS.EVENT,
           params: {
             event,
             subscriptionId: subscription.id,
+            ...(replayed && { replayed: true }),
           },
-        } as any);
+        });
       } catch (error) {
         // Log error but don't throw - other subscriptions should still receive
         console.error(`Failed to send event notification to subscription ${subscription.id}:`, error);
       }
 
-      // Execute handler immediately for realtime
+      // Execute handler immediately for realtime; failures are retried per
+      // the handler's retry policy, then dead-lettered
       if (subscription.handler) {
         try {
-          const result = await this.handlerExecutor.execute(event, subscription.handler, subscription.id);
+          const result = await this.handlerExecutor.run(event, subscription.handler, {
+            subscriptionId: subscription.id,
+            clientId: subscription.clientId,
+          });
           if (!result.success) {
             console.error(`Handler failed for subscription ${subscription.id}:`, result.error);
           }
@@ -438,19 +775,21 @@ export class EventsServer {
   private async deliverBatch(
     subscriptionId: string,
     events: MCPEvent[],
-    subscription: Subscription
+    subscription: Subscription,
+    droppedEvents: number
   ): Promise<void> {
     console.log(`[EventsServer] Delivering batch of ${events.length} events for subscription ${subscriptionId}`);
 
     // Send batch notification
     try {
-      await this.mcpServer.server.notification({
+      await this.notifyClient(subscription.clientId, {
         method: MCPE_NOTIFICATIONS.BATCH,
         params: {
           events,
           subscriptionId,
+          droppedEvents,
         },
-      } as any);
+      });
     } catch (error) {
       console.error(`Failed to send batch notification to subscription ${subscriptionId}:`, error);
     }
@@ -467,6 +806,7 @@ export class EventsServer {
         data: {
           events,
           count: events.length,
+          droppedEvents,
           subscriptionId,
         },
         metadata: {
@@ -477,7 +817,10 @@ export class EventsServer {
       };
 
       try {
-        const result = await this.handlerExecutor.execute(batchEvent, subscription.handler, subscriptionId);
+        const result = await this.handlerExecutor.run(batchEvent, subscription.handler, {
+          subscriptionId,
+          clientId: subscription.clientId,
+        });
         if (!result.success) {
           console.error(`Batch handler failed for subscription ${subscriptionId}:`, result.error);
         }
@@ -492,13 +835,13 @@ export class EventsServer {
    */
   async sendBatch(events: MCPEvent[], subscriptionId: string): Promise<void> {
     try {
-      await this.mcpServer.server.notification({
+      await this.notifyClient(this.getOwnerClientId(subscriptionId), {
         method: MCPE_NOTIFICATIONS.BATCH,
         params: {
           events,
           subscriptionId,
         },
-      } as any);
+      });
     } catch (error) {
       console.error(`Failed to send batch notification to subscription ${subscriptionId}:`, error);
     }
@@ -509,17 +852,38 @@ export class EventsServer {
    */
   async notifySubscriptionExpired(subscriptionId: string): Promise<void> {
     try {
-      await this.mcpServer.server.notification({
+      await this.notifyClient(this.getOwnerClientId(subscriptionId), {
         method: MCPE_NOTIFICATIONS.SUBSCRIPTION_EXPIRED,
         params: {
           subscriptionId,
         },
-      } as any);
+      });
     } catch (error) {
       console.error(`Failed to send subscription expired notification:`, error);
     }
   }
 
+  /**
+   * Send a notification to the session that owns a client ID
+   */
+  private async notifyClient(
+    clientId: string,
+    notification: { method: string; params: Record<string, unknown> }
+  ): Promise<void> {
+    const mcpServer = this.sessions.get(clientId);
+    if (!mcpServer) {
+      throw new Error(`No active session for client ${clientId}`);
+    }
+    await mcpServer.server.notification(notification as any);
+  }
+
+  /**
+   * Get the client ID that owns a subscription
+   */
+  private getOwnerClientId(subscriptionId: string): string {
+    return this.subscriptionManager.get(subscriptionId)?.clientId ?? DEFAULT_CLIENT_ID;
+  }
+
   /**
    * Get scheduler info (for debugging/monitoring)
    */
@@ -529,6 +893,7 @@ export class EventsServer {
       type: 'cron' | 'scheduled';
       nextRun?: Date;
       pendingEvents: number;
+      droppedEvents: number;
     }>;
   } {
     return {
@@ -538,9 +903,75 @@ export class EventsServer {
 
   /**
    * Connect to a transport
+   *
+   * Clients of either protocol flavour are served: MCP clients call the
+   * events_* tools, jsonrpc clients (such as ASPClient) the `subscriptions/*`
+   * methods.
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.mcpServer.connect(this.compat(transport, DEFAULT_CLIENT_ID));
+  }
+
+  /**
+   * Wrap a transport so that jsonrpc flavour clients are served as well
    */
-  async connect(transport: import('@modelcontextprotocol/sdk/shared/transport.js').Transport): Promise<void> {
-    await this.mcpServer.connect(transport);
+  private compat(transport: Transport, clientId: string): Transport {
+    return new JsonRpcCompatTransport(transport, {
+      maxSubscriptions: this.eventsCapability.maxSubscriptions,
+      clientId,
+    });
+  }
+
+  /**
+   * Connect an additional client session (per-session mode)
+   *
+   * Creates a dedicated MCP server for the transport that shares this
+   * EventsServer's subscriptions, scheduler and handlers. Subscriptions created
+   * through the session are owned by its MCP session ID and removed when the
+   * session closes.
+   *
+   * @returns The MCP server bound to the session
+   */
+  async connectSession(transport: Transport): Promise<McpServer> {
+    if (!this.perSession || !this.serverInfo) {
+      throw new Error('connectSession requires an EventsServer created with perSession: true');
+    }
+
+    const mcpServer = new McpServer(this.serverInfo, { capabilities: {} });
+    const fallbackClientId = uuidv4();
+    this.registerTools(mcpServer, fallbackClientId);
+
+    mcpServer.server.onclose = () => {
+      const clientIds = new Set([fallbackClientId]);
+      for (const [clientId, session] of this.sessions) {
+        if (session === mcpServer) {
+          this.sessions.delete(clientId);
+          clientIds.add(clientId);
+        }
+      }
+      // Nobody can reach the session's subscriptions any more
+      for (const clientId of clientIds) {
+        this.removeClientSubscriptions(clientId).catch((error) => {
+          console.error(`Failed to remove the subscriptions of client ${clientId}:`, error);
+        });
+      }
+    };
+
+    await mcpServer.connect(this.compat(transport, fallbackClientId));
+    return mcpServer;
+  }
+
+  /**
+   * Remove a client's subscriptions with their schedules and pending handler runs
+   */
+  private async removeClientSubscriptions(clientId: string): Promise<void> {
+    await this.subscriptionManager.ready;
+    for (const subscription of this.subscriptionManager.listByClient(clientId)) {
+      this.scheduler.removeSubscription(subscription.id);
+      this.handlerExecutor.cancel(subscription.id);
+      this.replaying.delete(subscription.id);
+      await this.subscriptionManager.delete(subscription.id, clientId);
+    }
   }
 
   /**
@@ -549,6 +980,16 @@ export class EventsServer {
   async close(): Promise<void> {
     // Stop all scheduled jobs before closing
     this.scheduler.stopAll();
+    await this.handlerExecutor.close();
+    clearInterval(this.expiryTimer);
+    await this.bus.close();
+
+    const sessionServers = new Set(this.sessions.values());
+    sessionServers.delete(this.mcpServer);
+    for (const mcpServer of sessionServers) {
+      await mcpServer.close();
+    }
+
     await this.mcpServer.close();
   }
 
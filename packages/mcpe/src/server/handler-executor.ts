@@ -1,20 +1,52 @@
 import { spawn } from 'child_process';
-import type { MCPEvent, EventHandler, BashEventHandler, WebhookEventHandler, AgentEventHandler } from '../types/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  renderTemplate,
+  renderJsonTemplate,
+  type MCPEvent,
+  type EventHandler,
+  type BashEventHandler,
+  type WebhookEventHandler,
+  type AgentEventHandler,
+  type McpToolEventHandler,
+  type HandlerFailure,
+  type HandlerRetryPolicy,
+} from '../types/index.js';
+import { MemoryDeadLetterStore, type DeadLetter, type DeadLetterStore } from './dead-letter-store.js';
+import { signMcpeWebhook } from './webhook-signature.js';
+import {
+  bashPolicyViolation,
+  inheritedBashEnv,
+  resolveBashCwd,
+  type BashHandlerPolicy,
+} from './bash-policy.js';
+import { McpClientPool, type McpServerConnection } from './mcp-client-pool.js';
 
 /**
  * Result of executing a handler
  */
 export interface HandlerResult {
   success: boolean;
-  handlerType: 'bash' | 'webhook' | 'agent';
-  /** Output from bash command or webhook response */
+  handlerType: EventHandler['type'];
+  /** Output from bash command, webhook response or tool result */
   output?: string;
   /** Error message if failed */
   error?: string;
+  /** Kind of failure, matched against the retry policy's retryOn */
+  failure?: HandlerFailure;
   /** Duration in milliseconds */
   durationMs: number;
 }
 
+/**
+ * Subscription a handler runs for
+ */
+export interface HandlerTarget {
+  subscriptionId: string;
+  clientId: string;
+}
+
 /**
  * Callback for agent handlers - implementers must provide their own LLM invocation
  */
@@ -24,6 +56,19 @@ export type AgentHandlerCallback = (
   subscriptionId: string
 ) => Promise<void>;
 
+/**
+ * A webhook signing secret and the receivers it may sign requests for
+ */
+export interface WebhookSecret {
+  /** The secret; a list signs with each secret, for rotation */
+  secret: string | string[];
+  /**
+   * URLs requests may be signed for. An origin such as `https://example.com`
+   * covers every path on it, a URL with a path covers that path and the paths below it.
+   */
+  allowedUrls: string[];
+}
+
 /**
  * Handler executor configuration
  */
@@ -32,19 +77,210 @@ export interface HandlerExecutorConfig {
   onAgentHandler?: AgentHandlerCallback;
   /** Default timeout for handlers in ms */
   defaultTimeout?: number;
+  /** Store for events whose handler failed for good (default: MemoryDeadLetterStore) */
+  deadLetters?: DeadLetterStore;
+  /**
+   * Webhook signing secrets by the name handlers refer to them with
+   * (signingSecretRef). Requests to URLs outside a secret's allowedUrls are not sent.
+   */
+  webhookSecrets?: Record<string, WebhookSecret>;
+  /** Limits on bash handlers: allowed commands, shell, environment, cwd, output and concurrency (default: every command denied) */
+  bash?: BashHandlerPolicy;
+  /** MCP servers mcp_tool handlers may call, by the name handlers refer to them with */
+  mcpServers?: Record<string, McpServerConnection>;
+}
+
+/**
+ * Delay before a retry, with the policy's jitter applied
+ *
+ * @param attempt - number of the attempt that failed (1 for the first)
+ */
+export function retryDelay(
+  policy: HandlerRetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1),
+    policy.maxDelayMs
+  );
+  return Math.max(0, Math.round(delay * (1 + policy.jitter * (2 * random() - 1))));
 }
 
 /**
- * Executes event handlers (webhook, bash, agent)
+ * Failure kind of a webhook response status
+ */
+function httpFailure(status: number): HandlerFailure {
+  if (status === 429) return 'http_429';
+  return status >= 500 ? 'http_5xx' : 'http_4xx';
+}
+
+/**
+ * Whether a webhook secret may sign requests to a URL
+ */
+function signingAllowed(secret: WebhookSecret, url: URL): boolean {
+  return secret.allowedUrls.some((allowed) => {
+    let target: URL;
+    try {
+      target = new URL(allowed);
+    } catch {
+      return false;
+    }
+    if (target.origin !== url.origin) return false;
+    const path = target.pathname.replace(/\/$/, '');
+    return path === '' || url.pathname === path || url.pathname.startsWith(`${path}/`);
+  });
+}
+
+/**
+ * Quote a value as a single shell word
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Keep substituted header values on one line
+ */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Executes event handlers (webhook, bash, agent, mcp_tool)
+ *
+ * `run` retries failures as the handler's retry policy allows and moves
+ * events whose last attempt failed to the dead-letter store, from where
+ * `replay` runs them again.
  */
 export class HandlerExecutor {
+  readonly deadLetters: DeadLetterStore;
   private config: HandlerExecutorConfig;
+  /** Pending retry timers by subscription ID */
+  private retries: Map<string, Set<NodeJS.Timeout>> = new Map();
+  /** Running bash commands and runs waiting for a slot, by subscription ID */
+  private bashSlots: Map<string, { running: number; waiting: Array<() => void> }> = new Map();
+  /** Connections to the servers of mcp_tool handlers, shared by all handlers */
+  private mcpClients: McpClientPool;
 
   constructor(config: HandlerExecutorConfig = {}) {
     this.config = {
       defaultTimeout: 30000,
       ...config,
     };
+    this.deadLetters = config.deadLetters ?? new MemoryDeadLetterStore();
+    this.mcpClients = new McpClientPool(config.mcpServers);
+  }
+
+  /**
+   * Run a handler for an event, retrying in the background when the retry
+   * policy allows and dead-lettering the event when the last attempt fails
+   *
+   * @returns Result of the first attempt
+   */
+  async run(event: MCPEvent, handler: EventHandler, target: HandlerTarget): Promise<HandlerResult> {
+    return this.attempt(event, handler, target, 1);
+  }
+
+  /**
+   * Run a dead-lettered event again with a fresh retry budget
+   *
+   * @returns Result of the first attempt, or undefined for unknown IDs
+   */
+  async replay(deadLetterId: string): Promise<HandlerResult | undefined> {
+    const deadLetter = this.deadLetters.get(deadLetterId);
+    if (!deadLetter) {
+      return undefined;
+    }
+
+    this.deadLetters.delete(deadLetterId);
+    return this.run(deadLetter.event, deadLetter.handler, deadLetter);
+  }
+
+  /**
+   * Why the server cannot run a handler, or undefined when it may run
+   *
+   * Templated bash arguments are checked once rendered, when the handler runs.
+   */
+  checkHandler(handler: EventHandler): string | undefined {
+    switch (handler.type) {
+      case 'bash':
+        return bashPolicyViolation(handler, this.config.bash ?? {});
+      case 'mcp_tool':
+        return this.mcpClients.has(handler.server) ? undefined : `Unknown MCP server: ${handler.server}`;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Drop pending retries of a subscription
+   */
+  cancel(subscriptionId: string): void {
+    this.retries.get(subscriptionId)?.forEach((timer) => clearTimeout(timer));
+    this.retries.delete(subscriptionId);
+  }
+
+  /**
+   * Drop all pending retries and close MCP server connections
+   */
+  async close(): Promise<void> {
+    for (const subscriptionId of Array.from(this.retries.keys())) {
+      this.cancel(subscriptionId);
+    }
+    await this.mcpClients.close();
+  }
+
+  private async attempt(
+    event: MCPEvent,
+    handler: EventHandler,
+    target: HandlerTarget,
+    attempt: number
+  ): Promise<HandlerResult> {
+    const result = await this.execute(event, handler, target.subscriptionId);
+    if (result.success) {
+      return result;
+    }
+
+    const policy = handler.retry;
+    const retryable = !policy || (result.failure !== undefined && policy.retryOn.includes(result.failure));
+    if (policy && retryable && attempt < policy.maxAttempts) {
+      this.scheduleRetry(target.subscriptionId, retryDelay(policy, attempt), () =>
+        this.attempt(event, handler, target, attempt + 1)
+      );
+      return result;
+    }
+
+    const deadLetter: DeadLetter = {
+      id: uuidv4(),
+      event,
+      subscriptionId: target.subscriptionId,
+      clientId: target.clientId,
+      handler,
+      attempts: attempt,
+      reason: retryable ? 'max_attempts' : 'not_retryable',
+      lastError: result.error,
+      deadLetteredAt: new Date().toISOString(),
+    };
+    this.deadLetters.add(deadLetter);
+    return result;
+  }
+
+  private scheduleRetry(subscriptionId: string, delayMs: number, retry: () => Promise<unknown>): void {
+    const timers = this.retries.get(subscriptionId) ?? new Set();
+    this.retries.set(subscriptionId, timers);
+
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      if (timers.size === 0) {
+        this.retries.delete(subscriptionId);
+      }
+      retry().catch((error) => {
+        console.error(`Handler retry failed for subscription ${subscriptionId}:`, error);
+      });
+    }, delayMs);
+    timer.unref();
+    timers.add(timer);
   }
 
   /**
@@ -62,14 +298,17 @@ export class HandlerExecutor {
         case 'webhook':
           return await this.executeWebhook(event, handler, startTime);
         case 'bash':
-          return await this.executeBash(event, handler, startTime);
+          return await this.withBashSlot(subscriptionId, () => this.executeBash(event, handler, Date.now()));
         case 'agent':
           return await this.executeAgent(event, handler, subscriptionId, startTime);
+        case 'mcp_tool':
+          return await this.executeMcpTool(event, handler, startTime);
         default:
           return {
             success: false,
             handlerType: (handler as any).type,
             error: `Unknown handler type: ${(handler as any).type}`,
+            failure: 'error',
             durationMs: Date.now() - startTime,
           };
       }
@@ -78,6 +317,7 @@ export class HandlerExecutor {
         success: false,
         handlerType: handler.type,
         error: error instanceof Error ? error.message : String(error),
+        failure: 'error',
         durationMs: Date.now() - startTime,
       };
     }
@@ -93,20 +333,68 @@ export class HandlerExecutor {
   ): Promise<HandlerResult> {
     const timeout = handler.timeout ?? this.config.defaultTimeout!;
 
+    const method = handler.method ?? 'POST';
+    const url = new URL(handler.url);
+    for (const [name, template] of Object.entries(handler.query ?? {})) {
+      url.searchParams.set(name, renderTemplate(template, event));
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, template] of Object.entries(handler.headers ?? {})) {
+      headers[name] = renderTemplate(template, event, headerValue);
+    }
+
+    // A text template is sent as is, anything else as JSON
+    let body: string;
+    let contentType = 'application/json';
+    if (method === 'GET') {
+      body = '';
+    } else if (typeof handler.body === 'string') {
+      body = renderTemplate(handler.body, event);
+      contentType = 'text/plain; charset=utf-8';
+    } else if (handler.body) {
+      body = JSON.stringify(renderJsonTemplate(handler.body, event));
+    } else {
+      body = JSON.stringify({
+        event,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    let signatureHeaders = {};
+    if (handler.signingSecretRef) {
+      const secret = this.config.webhookSecrets?.[handler.signingSecretRef];
+      // Checking the URL keeps subscribers from having the server sign requests to URLs of their choice
+      if (!secret || secret.secret.length === 0 || !signingAllowed(secret, url)) {
+        return {
+          success: false,
+          handlerType: 'webhook',
+          error:
+            secret && secret.secret.length > 0
+              ? `Webhook signing secret ${handler.signingSecretRef} may not sign requests to ${url.origin}${url.pathname}`
+              : `Unknown webhook signing secret: ${handler.signingSecretRef}`,
+          failure: 'error',
+          durationMs: Date.now() - startTime,
+        };
+      }
+      // The event ID stays the same across retries, so receivers can deduplicate
+      signatureHeaders = signMcpeWebhook(body, { id: event.id, secrets: secret.secret });
+    }
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
-      const response = await fetch(handler.url, {
-        method: 'POST',
+      const response = await fetch(url, {
+        method,
         headers: {
-          'Content-Type': 'application/json',
-          ...handler.headers,
+          ...(method !== 'GET' && { 'Content-Type': contentType }),
+          ...headers,
+          ...signatureHeaders,
         },
-        body: JSON.stringify({
-          event,
-          timestamp: new Date().toISOString(),
-        }),
+        body: method !== 'GET' ? body : undefined,
+        // A redirect would carry the signature to a URL the secret is not allowed for
+        redirect: handler.signingSecretRef ? 'manual' : 'follow',
         signal: controller.signal,
       });
 
@@ -119,6 +407,7 @@ export class HandlerExecutor {
           success: false,
           handlerType: 'webhook',
           error: `HTTP ${response.status}: ${responseText}`,
+          failure: httpFailure(response.status),
           output: responseText,
           durationMs: Date.now() - startTime,
         };
@@ -138,11 +427,49 @@ export class HandlerExecutor {
           success: false,
           handlerType: 'webhook',
           error: `Timeout after ${timeout}ms`,
+          failure: 'timeout',
           durationMs: Date.now() - startTime,
         };
       }
 
-      throw error;
+      // fetch rejects when the target cannot be reached
+      return {
+        success: false,
+        handlerType: 'webhook',
+        error: error instanceof Error ? error.message : String(error),
+        failure: 'network',
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * Run a subscription's bash command once one of its policy's slots is free
+   */
+  private async withBashSlot(subscriptionId: string, run: () => Promise<HandlerResult>): Promise<HandlerResult> {
+    const limit = this.config.bash?.maxConcurrent ?? 1;
+    let slot = this.bashSlots.get(subscriptionId);
+    if (!slot) {
+      slot = { running: 0, waiting: [] };
+      this.bashSlots.set(subscriptionId, slot);
+    }
+
+    if (slot.running < limit) {
+      slot.running++;
+    } else {
+      await new Promise<void>((resolve) => slot!.waiting.push(resolve));
+    }
+
+    try {
+      return await run();
+    } finally {
+      // Hand the slot to the next waiting run, if any
+      const next = slot.waiting.shift();
+      if (next) {
+        next();
+      } else if (--slot.running === 0) {
+        this.bashSlots.delete(subscriptionId);
+      }
     }
   }
 
@@ -155,10 +482,28 @@ export class HandlerExecutor {
     startTime: number
   ): Promise<HandlerResult> {
     const timeout = handler.timeout ?? this.config.defaultTimeout!;
+    const policy = this.config.bash ?? {};
+    const shell = policy.shell ?? false;
+    const maxOutputBytes = policy.maxOutputBytes ?? 1024 * 1024;
+
+    const args = (handler.args ?? []).map((arg) => renderTemplate(arg, event));
+    // In 'args' input mode the event JSON is an argument too, so the rule's patterns check it
+    const eventJson = JSON.stringify(event);
+    const denied = bashPolicyViolation(handler, policy, handler.input === 'args' ? [...args, eventJson] : args);
+    if (denied) {
+      return {
+        success: false,
+        handlerType: 'bash',
+        error: denied,
+        failure: 'denied',
+        durationMs: Date.now() - startTime,
+      };
+    }
+    const { cwd } = resolveBashCwd(handler, policy);
 
     return new Promise((resolve) => {
       const env: Record<string, string> = {
-        ...process.env,
+        ...inheritedBashEnv(policy),
         ...handler.env,
         MCPE_EVENT_ID: event.id,
         MCPE_EVENT_TYPE: event.type,
@@ -173,43 +518,74 @@ export class HandlerExecutor {
         env.MCPE_EVENT_TAGS = event.metadata.tags.join(',');
       }
 
-      const args = handler.args ?? [];
+      // Without a shell, arguments reach the command as they are; in one,
+      // substituted values are quoted
+      const commandArgs = shell
+        ? (handler.args ?? []).map((arg) => renderTemplate(arg, event, shellQuote))
+        : args;
 
       // If input mode is 'args', append event JSON as last argument
+      const eventArg = shell ? shellQuote(eventJson) : eventJson;
       const finalArgs = handler.input === 'args'
-        ? [...args, JSON.stringify(event)]
-        : args;
+        ? [...commandArgs, eventArg]
+        : commandArgs;
 
       const child = spawn(handler.command, finalArgs, {
-        cwd: handler.cwd,
+        cwd,
         env,
-        shell: true,
+        shell,
         timeout,
       });
 
       let stdout = '';
       let stderr = '';
+      const outputBytes = { stdout: 0, stderr: 0 };
+      let outputExceeded = false;
 
-      child.stdout?.on('data', (data) => {
-        stdout += data.toString();
-      });
+      const collect = (stream: 'stdout' | 'stderr', data: Buffer) => {
+        outputBytes[stream] += data.length;
+        if (outputBytes[stream] > maxOutputBytes) {
+          if (!outputExceeded) {
+            outputExceeded = true;
+            child.kill();
+          }
+          return;
+        }
+        if (stream === 'stdout') stdout += data.toString();
+        else stderr += data.toString();
+      };
 
-      child.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
+      child.stdout?.on('data', (data: Buffer) => collect('stdout', data));
+      child.stderr?.on('data', (data: Buffer) => collect('stderr', data));
 
       // Send event JSON to stdin if input mode is 'stdin'
       if (handler.input === 'stdin' || !handler.input) {
+        // Commands that fail to start or ignore stdin are reported on close
+        child.stdin?.on('error', () => {});
         child.stdin?.write(JSON.stringify(event));
         child.stdin?.end();
       }
 
       child.on('close', (code) => {
+        if (outputExceeded) {
+          resolve({
+            success: false,
+            handlerType: 'bash',
+            output: stdout || stderr,
+            error: `Output exceeded ${maxOutputBytes} bytes`,
+            failure: 'error',
+            durationMs: Date.now() - startTime,
+          });
+          return;
+        }
+
         resolve({
           success: code === 0,
           handlerType: 'bash',
           output: stdout || stderr,
           error: code !== 0 ? `Exit code ${code}: ${stderr}` : undefined,
+          // No exit code means the command was killed, normally by the timeout
+          failure: code === 0 ? undefined : code === null ? 'timeout' : 'exit_code',
           durationMs: Date.now() - startTime,
         });
       });
@@ -219,6 +595,7 @@ export class HandlerExecutor {
           success: false,
           handlerType: 'bash',
           error: error.message,
+          failure: 'error',
           durationMs: Date.now() - startTime,
         });
       });
@@ -239,6 +616,7 @@ export class HandlerExecutor {
         success: false,
         handlerType: 'agent',
         error: 'No agent handler callback configured. Set onAgentHandler in HandlerExecutorConfig.',
+        failure: 'error',
         durationMs: Date.now() - startTime,
       };
     }
@@ -256,6 +634,84 @@ export class HandlerExecutor {
         success: false,
         handlerType: 'agent',
         error: error instanceof Error ? error.message : String(error),
+        failure: 'error',
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * Execute an MCP tool handler
+   */
+  private async executeMcpTool(
+    event: MCPEvent,
+    handler: McpToolEventHandler,
+    startTime: number
+  ): Promise<HandlerResult> {
+    if (!this.mcpClients.has(handler.server)) {
+      return {
+        success: false,
+        handlerType: 'mcp_tool',
+        error: `Unknown MCP server: ${handler.server}`,
+        failure: 'error',
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    let client;
+    try {
+      client = await this.mcpClients.get(handler.server);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        handlerType: 'mcp_tool',
+        error: `Could not connect to MCP server ${handler.server}: ${message}`,
+        failure: 'network',
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    try {
+      const result = await client.callTool(
+        {
+          name: handler.tool,
+          arguments: renderJsonTemplate(handler.arguments ?? {}, event) as Record<string, unknown>,
+        },
+        undefined,
+        { timeout: handler.timeout ?? this.config.defaultTimeout }
+      );
+
+      // Text content reads best in logs and dead letters; anything else as JSON
+      const content = (result.content ?? []) as Array<{ type: string; text?: string }>;
+      const text = content.filter((item) => item.type === 'text').map((item) => item.text).join('\n');
+      const output = text || JSON.stringify(result.structuredContent ?? content);
+
+      if (result.isError) {
+        return {
+          success: false,
+          handlerType: 'mcp_tool',
+          output,
+          error: `Tool ${handler.tool} failed: ${output}`,
+          failure: 'error',
+          durationMs: Date.now() - startTime,
+        };
+      }
+
+      return {
+        success: true,
+        handlerType: 'mcp_tool',
+        output,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      const timedOut = error instanceof McpError && error.code === ErrorCode.RequestTimeout;
+      const closed = error instanceof McpError && error.code === ErrorCode.ConnectionClosed;
+      return {
+        success: false,
+        handlerType: 'mcp_tool',
+        error: error instanceof Error ? error.message : String(error),
+        failure: timedOut ? 'timeout' : closed ? 'network' : 'error',
         durationMs: Date.now() - startTime,
       };
     }
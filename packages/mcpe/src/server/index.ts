@@ -1,14 +1,56 @@
 export { EventsServer, type EventsServerConfig } from './events-server.js';
-export { SubscriptionManager } from './subscription-manager.js';
+export { SubscriptionManager, type SubscriptionManagerOptions } from './subscription-manager.js';
+export {
+  MemorySubscriptionStorage,
+  FileSubscriptionStorage,
+  type SubscriptionStorage,
+  type FileSubscriptionStorageOptions,
+} from './subscription-storage.js';
 export {
   HandlerExecutor,
+  retryDelay,
   type HandlerResult,
+  type HandlerTarget,
   type AgentHandlerCallback,
   type HandlerExecutorConfig,
+  type WebhookSecret,
 } from './handler-executor.js';
+export {
+  MemoryDeadLetterStore,
+  type DeadLetter,
+  type DeadLetterReason,
+  type DeadLetterQuery,
+  type DeadLetterStore,
+  type MemoryDeadLetterStoreOptions,
+} from './dead-letter-store.js';
+export {
+  signMcpeWebhook,
+  verifyMcpeWebhook,
+  type McpeWebhookHeaders,
+  type SignMcpeWebhookOptions,
+  type VerifyMcpeWebhookOptions,
+  type WebhookRequestHeaders,
+} from './webhook-signature.js';
+export { type BashHandlerPolicy, type BashCommandRule } from './bash-policy.js';
+export { McpClientPool, type McpServerConnection } from './mcp-client-pool.js';
 export {
   EventScheduler,
   type EventSchedulerConfig,
+  type EventSchedulerOptions,
+  type MissedTickPolicy,
   type BatchDeliveryCallback,
   type ScheduleCompleteCallback,
 } from './event-scheduler.js';
+export {
+  MemoryPendingEventQueue,
+  FilePendingEventQueue,
+  type PendingEventQueue,
+  type QueuedEvent,
+  type FilePendingEventQueueOptions,
+  type QueueChange,
+} from './pending-event-queue.js';
+export { EventLog, type EventLogOptions } from './event-log.js';
+export { MemoryEventBus, type EventBus, type EventBusHandler } from './event-bus.js';
+export { MemoryEventStore, EventIdEvictedError, type MemoryEventStoreOptions } from './event-store.js';
+export { StreamableHttpServer, type StreamableHttpServerOptions } from './streamable-http.js';
+export { JsonRpcCompatTransport, type JsonRpcCompatOptions } from './compat-transport.js';
@@ -0,0 +1,95 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+/**
+ * How to reach an MCP server that mcp_tool handlers call
+ * - url: Streamable HTTP endpoint, with optional request headers
+ * - command: local server speaking stdio
+ * - transport: factory for any other transport
+ */
+export type McpServerConnection =
+  | { url: string; headers?: Record<string, string> }
+  | { command: string; args?: string[]; env?: Record<string, string>; cwd?: string }
+  | { transport: () => Transport };
+
+function createTransport(connection: McpServerConnection): Transport {
+  if ('transport' in connection) {
+    return connection.transport();
+  }
+  if ('url' in connection) {
+    return new StreamableHTTPClientTransport(new URL(connection.url), {
+      requestInit: { headers: connection.headers },
+    });
+  }
+  return new StdioClientTransport({
+    command: connection.command,
+    args: connection.args,
+    env: connection.env,
+    cwd: connection.cwd,
+  });
+}
+
+/**
+ * MCP client connections by server name
+ *
+ * Connects on first use and reuses the connection afterwards. A connection
+ * that fails or closes is opened again on next use.
+ */
+export class McpClientPool {
+  private servers: Record<string, McpServerConnection>;
+  private clients: Map<string, Promise<Client>> = new Map();
+
+  constructor(servers: Record<string, McpServerConnection> = {}) {
+    this.servers = servers;
+  }
+
+  /**
+   * Whether a server with this name is configured
+   */
+  has(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.servers, name);
+  }
+
+  /**
+   * Connected client for a server
+   */
+  get(name: string): Promise<Client> {
+    const existing = this.clients.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const client: Promise<Client> = this.connect(name, () => this.forget(name, client));
+    this.clients.set(name, client);
+    client.catch(() => this.forget(name, client));
+    return client;
+  }
+
+  /**
+   * Close every connection
+   */
+  async close(): Promise<void> {
+    const clients = Array.from(this.clients.values());
+    this.clients.clear();
+    await Promise.allSettled(clients.map(async (client) => (await client).close()));
+  }
+
+  private async connect(name: string, onclose: () => void): Promise<Client> {
+    if (!this.has(name)) {
+      throw new Error(`Unknown MCP server: ${name}`);
+    }
+
+    const client = new Client({ name: 'mcpe-handler-executor', version: '1.0.0' });
+    client.onclose = onclose;
+    await client.connect(createTransport(this.servers[name]));
+    return client;
+  }
+
+  private forget(name: string, client: Promise<Client>): void {
+    if (this.clients.get(name) === client) {
+      this.clients.delete(name);
+    }
+  }
+}
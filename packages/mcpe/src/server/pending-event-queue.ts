@@ -0,0 +1,365 @@
+import { appendFile, readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { z } from 'zod';
+import { MCPEventSchema, type MCPEvent } from '../types/index.js';
+
+/**
+ * An event waiting for cron/scheduled delivery
+ */
+export interface QueuedEvent {
+  event: MCPEvent;
+  /** When the event was queued (ISO 8601) */
+  queuedAt: string;
+}
+
+/**
+ * Queue backend for events awaiting cron/scheduled delivery
+ *
+ * Besides the pending events, the queue keeps overflow counters and the time
+ * of the last schedule run so missed ticks can be detected after a restart.
+ */
+export interface PendingEventQueue {
+  /** Resolves once stored state is loaded (default: nothing to load) */
+  readonly ready?: Promise<void>;
+  /**
+   * Append an event, dropping the oldest events beyond maxSize
+   * @returns Number of events dropped to make room
+   */
+  enqueue(subscriptionId: string, event: MCPEvent, maxSize: number): number;
+  /** Pending events in queue order */
+  list(subscriptionId: string): QueuedEvent[];
+  /** Remove the first `count` events after they were delivered */
+  remove(subscriptionId: string, count: number): void;
+  /** Events dropped since the last delivery */
+  getDroppedSinceDelivery(subscriptionId: string): number;
+  /** Events dropped over the lifetime of the subscription */
+  getDroppedTotal(subscriptionId: string): number;
+  /** Reset the since-delivery drop counter after a delivery */
+  resetDropped(subscriptionId: string): void;
+  /** Time the schedule last ran */
+  getLastRun(subscriptionId: string): Date | undefined;
+  /** Record a schedule run */
+  setLastRun(subscriptionId: string, at: Date): void;
+  /** Remove all state for a subscription */
+  delete(subscriptionId: string): void;
+}
+
+/**
+ * Per-subscription queue state
+ */
+interface QueueState {
+  events: QueuedEvent[];
+  droppedSinceDelivery: number;
+  droppedTotal: number;
+  lastRunAt?: string;
+}
+
+/**
+ * A single mutation of the queue, as passed to `changed()`
+ */
+export type QueueChange =
+  | { op: 'enqueue'; subscriptionId: string; entry: QueuedEvent; maxSize: number }
+  | { op: 'remove'; subscriptionId: string; count: number }
+  | { op: 'resetDropped'; subscriptionId: string }
+  | { op: 'setLastRun'; subscriptionId: string; at: string }
+  | { op: 'delete'; subscriptionId: string };
+
+/**
+ * In-memory pending event queue (lost on restart)
+ */
+export class MemoryPendingEventQueue implements PendingEventQueue {
+  protected states: Map<string, QueueState> = new Map();
+
+  enqueue(subscriptionId: string, event: MCPEvent, maxSize: number): number {
+    return this.record({
+      op: 'enqueue',
+      subscriptionId,
+      entry: { event, queuedAt: new Date().toISOString() },
+      maxSize,
+    });
+  }
+
+  list(subscriptionId: string): QueuedEvent[] {
+    return [...(this.states.get(subscriptionId)?.events ?? [])];
+  }
+
+  remove(subscriptionId: string, count: number): void {
+    if (!this.states.has(subscriptionId) || count <= 0) return;
+    this.record({ op: 'remove', subscriptionId, count });
+  }
+
+  getDroppedSinceDelivery(subscriptionId: string): number {
+    return this.states.get(subscriptionId)?.droppedSinceDelivery ?? 0;
+  }
+
+  getDroppedTotal(subscriptionId: string): number {
+    return this.states.get(subscriptionId)?.droppedTotal ?? 0;
+  }
+
+  resetDropped(subscriptionId: string): void {
+    if (!this.states.get(subscriptionId)?.droppedSinceDelivery) return;
+    this.record({ op: 'resetDropped', subscriptionId });
+  }
+
+  getLastRun(subscriptionId: string): Date | undefined {
+    const lastRunAt = this.states.get(subscriptionId)?.lastRunAt;
+    return lastRunAt ? new Date(lastRunAt) : undefined;
+  }
+
+  setLastRun(subscriptionId: string, at: Date): void {
+    this.record({ op: 'setLastRun', subscriptionId, at: at.toISOString() });
+  }
+
+  delete(subscriptionId: string): void {
+    if (!this.states.has(subscriptionId)) return;
+    this.record({ op: 'delete', subscriptionId });
+  }
+
+  /**
+   * Called after every mutation - override to persist
+   */
+  protected changed(_change: QueueChange): void {}
+
+  /**
+   * Apply a mutation to the in-memory state
+   * @returns Number of events dropped to make room
+   */
+  protected apply(change: QueueChange): number {
+    switch (change.op) {
+      case 'enqueue': {
+        const state = this.getOrCreate(change.subscriptionId);
+        state.events.push(change.entry);
+
+        const dropped = Math.max(0, state.events.length - change.maxSize);
+        if (dropped > 0) {
+          state.events.splice(0, dropped);
+          state.droppedSinceDelivery += dropped;
+          state.droppedTotal += dropped;
+        }
+        return dropped;
+      }
+      case 'remove':
+        this.states.get(change.subscriptionId)?.events.splice(0, change.count);
+        return 0;
+      case 'resetDropped': {
+        const state = this.states.get(change.subscriptionId);
+        if (state) state.droppedSinceDelivery = 0;
+        return 0;
+      }
+      case 'setLastRun':
+        this.getOrCreate(change.subscriptionId).lastRunAt = change.at;
+        return 0;
+      case 'delete':
+        this.states.delete(change.subscriptionId);
+        return 0;
+    }
+  }
+
+  private record(change: QueueChange): number {
+    const dropped = this.apply(change);
+    this.changed(change);
+    return dropped;
+  }
+
+  private getOrCreate(subscriptionId: string): QueueState {
+    let state = this.states.get(subscriptionId);
+    if (!state) {
+      state = { events: [], droppedSinceDelivery: 0, droppedTotal: 0 };
+      this.states.set(subscriptionId, state);
+    }
+    return state;
+  }
+}
+
+const QueuedEventSchema = z.object({
+  event: MCPEventSchema,
+  queuedAt: z.string().datetime(),
+});
+
+const QueueStateSchema = z.object({
+  events: z.array(QueuedEventSchema),
+  droppedSinceDelivery: z.number().int().nonnegative(),
+  droppedTotal: z.number().int().nonnegative(),
+  lastRunAt: z.string().datetime().optional(),
+});
+
+/** A compacted copy of every queue; always the first line of the file */
+const SnapshotSchema = z.object({
+  version: z.string(),
+  queues: z.record(z.unknown()),
+});
+
+const QueueChangeSchema: z.ZodType<QueueChange, z.ZodTypeDef, unknown> = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('enqueue'),
+    subscriptionId: z.string(),
+    entry: QueuedEventSchema,
+    maxSize: z.number().int().positive(),
+  }),
+  z.object({ op: z.literal('remove'), subscriptionId: z.string(), count: z.number().int().positive() }),
+  z.object({ op: z.literal('resetDropped'), subscriptionId: z.string() }),
+  z.object({ op: z.literal('setLastRun'), subscriptionId: z.string(), at: z.string().datetime() }),
+  z.object({ op: z.literal('delete'), subscriptionId: z.string() }),
+]);
+
+/**
+ * Options for FilePendingEventQueue
+ */
+export interface FilePendingEventQueueOptions {
+  /** Path to the file holding the queue */
+  filePath: string;
+  /** Changes appended before the file is compacted into a single snapshot (default: 1000) */
+  compactAfter?: number;
+}
+
+/**
+ * FilePendingEventQueue - file backed pending event queue
+ *
+ * Survives restarts so a digest collected before a crash is still delivered
+ * on the next tick. The file is a journal of JSON lines: a snapshot of every
+ * queue followed by the changes made since. Changes apply in memory at once
+ * and are appended in the background, one write at a time; the journal is
+ * compacted into a new snapshot (through a temporary file and rename) on load
+ * and once `compactAfter` changes have accumulated.
+ *
+ * @example
+ * ```typescript
+ * const server = new EventsServer({
+ *   name: 'my-server',
+ *   version: '1.0.0',
+ *   scheduler: {
+ *     queue: new FilePendingEventQueue({ filePath: './data/pending-events.json' }),
+ *     missedTickPolicy: 'fire-once',
+ *   },
+ * });
+ * ```
+ */
+export class FilePendingEventQueue extends MemoryPendingEventQueue {
+  private filePath: string;
+  private compactAfter: number;
+  private journalLength = 0;
+  // Writes run one at a time, in the order they were made
+  private writes: Promise<void> = Promise.resolve();
+  // Changes made before the file was loaded, applied again on top of it
+  private earlyChanges: QueueChange[] | undefined = [];
+  /** Resolves once the file is loaded */
+  readonly ready: Promise<void>;
+
+  constructor(options: FilePendingEventQueueOptions) {
+    super();
+    this.filePath = options.filePath;
+    this.compactAfter = options.compactAfter ?? 1000;
+    this.ready = this.queueWrite(async () => {
+      await this.read();
+      await this.compact();
+    });
+  }
+
+  /**
+   * Resolves once every change made so far is written
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  protected changed(change: QueueChange): void {
+    if (this.earlyChanges) {
+      // The snapshot written after loading includes it
+      this.earlyChanges.push(change);
+      return;
+    }
+    this.queueWrite(() => this.append(change)).catch((error) => {
+      console.error(`[FilePendingEventQueue] Failed to write ${this.filePath}:`, error);
+    });
+  }
+
+  private queueWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => {});
+    return result;
+  }
+
+  private async append(change: QueueChange): Promise<void> {
+    if (this.journalLength >= this.compactAfter) {
+      await this.compact();
+      return;
+    }
+
+    await appendFile(this.filePath, `${JSON.stringify(change)}\n`);
+    this.journalLength++;
+  }
+
+  /**
+   * Rewrite the file as a snapshot of the current state
+   */
+  private async compact(): Promise<void> {
+    const dir = dirname(this.filePath);
+    if (dir && dir !== '.') {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const snapshot = {
+      version: '1.0',
+      queues: Object.fromEntries(this.states),
+    };
+
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, `${JSON.stringify(snapshot)}\n`);
+    await rename(tmpPath, this.filePath);
+    this.journalLength = 0;
+  }
+
+  /**
+   * Load the snapshot and replay the changes after it, skipping lines that
+   * fail validation (such as a line cut short by a crash)
+   */
+  private async read(): Promise<void> {
+    let content = '';
+    try {
+      content = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[FilePendingEventQueue] Failed to load ${this.filePath}:`, error);
+      }
+    }
+
+    const earlyChanges = this.earlyChanges ?? [];
+    this.earlyChanges = undefined;
+    this.states.clear();
+
+    content
+      .split('\n')
+      .filter((line) => line.trim())
+      .forEach((line, index) => {
+        let raw: unknown;
+        try {
+          raw = JSON.parse(line);
+        } catch {
+          console.warn(`[FilePendingEventQueue] Skipping unreadable line ${index + 1} in ${this.filePath}`);
+          return;
+        }
+
+        const snapshot = index === 0 ? SnapshotSchema.safeParse(raw) : undefined;
+        if (snapshot?.success) {
+          for (const [subscriptionId, rawState] of Object.entries(snapshot.data.queues)) {
+            const state = QueueStateSchema.safeParse(rawState);
+            if (state.success) {
+              this.states.set(subscriptionId, state.data);
+            } else {
+              console.warn(`[FilePendingEventQueue] Skipping invalid queue ${subscriptionId} in ${this.filePath}`);
+            }
+          }
+          return;
+        }
+
+        const change = QueueChangeSchema.safeParse(raw);
+        if (change.success) {
+          this.apply(change.data);
+        } else {
+          console.warn(`[FilePendingEventQueue] Skipping invalid line ${index + 1} in ${this.filePath}`);
+        }
+      });
+
+    earlyChanges.forEach((change) => this.apply(change));
+  }
+}
@@ -0,0 +1,275 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import {
+  StreamableHTTPServerTransport,
+  type EventStore,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { EventsServer } from './events-server.js';
+import { EventIdEvictedError, MemoryEventStore } from './event-store.js';
+
+/**
+ * Options for serving an EventsServer over Streamable HTTP
+ */
+export interface StreamableHttpServerOptions {
+  /** Port for start() */
+  port?: number;
+  host?: string;
+  /** Path of the MCP endpoint for start() (default: '/mcp') */
+  path?: string;
+  /**
+   * Creates the event store of a new session, used to resume streams after
+   * Last-Event-ID (default: a MemoryEventStore per session). Return undefined
+   * to disable resumption.
+   */
+  createEventStore?: () => EventStore | undefined;
+  /** Answer POSTs with JSON instead of an SSE stream (default: false) */
+  enableJsonResponse?: boolean;
+  /** Largest accepted initialize request body in bytes (default: 4 MiB) */
+  maxBodyBytes?: number;
+  /**
+   * Close sessions that have had no open request or stream for this long, in
+   * ms (default: 30 minutes). 0 keeps sessions until the client deletes them.
+   */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * An open MCP session
+ */
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  eventStore?: EventStore;
+  /** Requests and streams of the session still open */
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * StreamableHttpServer - serves an EventsServer on an MCP Streamable HTTP endpoint
+ *
+ * Each MCP session gets its own transport, attached with
+ * `EventsServer.connectSession()`, so the EventsServer must be created with
+ * `perSession: true`. Notifications for a session go out on its GET stream and
+ * are kept in the session's event store, so a client reconnecting with
+ * Last-Event-ID receives what it missed. A session is closed once it has
+ * been idle for sessionIdleTimeoutMs.
+ *
+ * @example
+ * ```typescript
+ * const server = new EventsServer({ name: 'events', version: '1.0.0', perSession: true });
+ * const http = new StreamableHttpServer(server, { port: 3000 });
+ * await http.start(); // POST/GET/DELETE http://localhost:3000/mcp
+ *
+ * // Or mount it in an existing HTTP framework
+ * app.all('/mcp', (req, res) => http.handleRequest(req, res, req.body));
+ * ```
+ */
+export class StreamableHttpServer {
+  private server: ReturnType<typeof createServer> | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+
+  constructor(
+    private events: EventsServer,
+    private options: StreamableHttpServerOptions = {}
+  ) {}
+
+  /**
+   * Listen on options.port, serving the endpoint at options.path
+   */
+  start(): Promise<void> {
+    const { port, host } = this.options;
+    if (port === undefined) {
+      return Promise.reject(new Error('StreamableHttpServer.start requires a port'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.server = createServer((req, res) => {
+        // The Host header is client input, so the URL is parsed against a fixed base
+        let path: string;
+        try {
+          path = new URL(req.url || '/', 'http://localhost').pathname;
+        } catch {
+          this.sendError(res, 400, 'Bad Request: Invalid URL');
+          return;
+        }
+        if (path !== (this.options.path ?? '/mcp')) {
+          this.sendError(res, 404, 'Not found');
+          return;
+        }
+        this.handleRequest(req, res).catch((error) => {
+          console.error('Streamable HTTP request failed:', error);
+          if (!res.headersSent) {
+            this.sendError(res, 500, 'Internal error');
+          }
+        });
+      });
+
+      this.server.on('error', reject);
+      this.server.listen(port, host, () => resolve());
+    });
+  }
+
+  /**
+   * Close every session and stop listening
+   */
+  async stop(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(
+      sessions.map((session) => {
+        clearTimeout(session.idleTimer);
+        return session.transport.close();
+      })
+    );
+
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Handle a POST, GET or DELETE on the MCP endpoint
+   * @param parsedBody - the JSON body, if a framework already parsed it
+   */
+  async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    parsedBody?: unknown
+  ): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, 'Session not found', -32001);
+        return;
+      }
+
+      // The transport would replay what is left of the stream, so resuming
+      // after evicted messages fails here instead
+      const lastEventId = req.headers['last-event-id'];
+      if (
+        req.method === 'GET' &&
+        typeof lastEventId === 'string' &&
+        session.eventStore instanceof MemoryEventStore &&
+        session.eventStore.isEvicted(lastEventId)
+      ) {
+        this.sendError(res, 410, new EventIdEvictedError(lastEventId).message);
+        return;
+      }
+
+      this.trackRequest(session, res);
+      await session.transport.handleRequest(req, res, parsedBody);
+      return;
+    }
+
+    // Only an initialize request may start a session
+    if (req.method !== 'POST') {
+      this.sendError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    let body = parsedBody;
+    if (body === undefined) {
+      const text = await this.readBody(req);
+      if (text === undefined) {
+        this.sendError(res, 413, 'Request body too large');
+        return;
+      }
+      try {
+        body = JSON.parse(text);
+      } catch {
+        this.sendError(res, 400, 'Parse error', -32700);
+        return;
+      }
+    }
+
+    if (!isInitializeRequest(body)) {
+      this.sendError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const eventStore = this.options.createEventStore
+      ? this.options.createEventStore()
+      : new MemoryEventStore();
+    const session: HttpSession = {
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: randomUUID,
+        eventStore,
+        enableJsonResponse: this.options.enableJsonResponse,
+        onsessioninitialized: (id) => {
+          this.sessions.set(id, session);
+        },
+      }),
+      eventStore,
+      openRequests: 0,
+    };
+    session.transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (session.transport.sessionId) {
+        this.sessions.delete(session.transport.sessionId);
+      }
+    };
+
+    await this.events.connectSession(session.transport);
+    this.trackRequest(session, res);
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Number of open MCP sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Keep a session open while the response is, and start its idle timer
+   * once nothing of it is open
+   */
+  private trackRequest(session: HttpSession, res: ServerResponse): void {
+    const idleTimeout = this.options.sessionIdleTimeoutMs ?? 30 * 60 * 1000;
+    if (idleTimeout <= 0) return;
+
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    session.openRequests++;
+    res.once('close', () => {
+      if (--session.openRequests > 0) return;
+      session.idleTimer = setTimeout(() => {
+        session.transport.close().catch((error) => {
+          console.error('[StreamableHttpServer] Failed to close idle session:', error);
+        });
+      }, idleTimeout);
+      session.idleTimer.unref();
+    });
+  }
+
+  /**
+   * @returns the body, or undefined if it exceeds maxBodyBytes
+   */
+  private async readBody(req: IncomingMessage): Promise<string | undefined> {
+    const limit = this.options.maxBodyBytes ?? 4 * 1024 * 1024;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > limit) {
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private sendError(res: ServerResponse, status: number, message: string, code = -32000): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
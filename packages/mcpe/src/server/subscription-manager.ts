@@ -6,25 +6,54 @@ import {
   type MCPEvent,
   matchesFilter,
 } from '../types/index.js';
+import { type SubscriptionStorage, MemorySubscriptionStorage } from './subscription-storage.js';
 
 /**
- * In-memory subscription manager
+ * Options for SubscriptionManager
+ */
+export interface SubscriptionManagerOptions {
+  maxSubscriptionsPerClient?: number;
+  /** Storage backend (default: in-memory only) */
+  storage?: SubscriptionStorage;
+  /** How long a subscription keeps matching after its expiresAt, to allow renewal (default: 0) */
+  expiryGracePeriodMs?: number;
+}
+
+/**
+ * Subscription manager
  *
  * Handles CRUD operations for subscriptions and event matching.
- * Can be extended or replaced with a persistent store implementation.
+ * Subscriptions are held in memory and written through to the configured
+ * storage, which is also used to reload them on startup. Reads are served
+ * from memory; changes resolve once the storage has them.
  */
 export class SubscriptionManager {
   private subscriptions: Map<string, Subscription> = new Map();
   private maxSubscriptionsPerClient: number;
+  private storage: SubscriptionStorage;
+  private expiryGracePeriodMs: number;
+  /** Resolves once the stored subscriptions are loaded */
+  readonly ready: Promise<void>;
 
-  constructor(options: { maxSubscriptionsPerClient?: number } = {}) {
+  constructor(options: SubscriptionManagerOptions = {}) {
     this.maxSubscriptionsPerClient = options.maxSubscriptionsPerClient ?? 100;
+    this.expiryGracePeriodMs = options.expiryGracePeriodMs ?? 0;
+    this.storage = options.storage ?? new MemorySubscriptionStorage();
+    this.ready = this.load();
+  }
+
+  private async load(): Promise<void> {
+    for (const subscription of await this.storage.load()) {
+      this.subscriptions.set(subscription.id, subscription);
+    }
   }
 
   /**
    * Create a new subscription
    */
-  create(clientId: string, request: CreateSubscriptionRequest): Subscription {
+  async create(clientId: string, request: CreateSubscriptionRequest): Promise<Subscription> {
+    await this.ready;
+
     // Check subscription limit
     const clientSubscriptions = this.listByClient(clientId);
     if (clientSubscriptions.length >= this.maxSubscriptionsPerClient) {
@@ -45,6 +74,7 @@ export class SubscriptionManager {
     };
 
     this.subscriptions.set(subscription.id, subscription);
+    await this.storage.save(subscription);
     return subscription;
   }
 
@@ -69,7 +99,8 @@ export class SubscriptionManager {
   /**
    * Update an existing subscription
    */
-  update(subscriptionId: string, clientId: string, request: UpdateSubscriptionRequest): Subscription {
+  async update(subscriptionId: string, clientId: string, request: UpdateSubscriptionRequest): Promise<Subscription> {
+    await this.ready;
     const subscription = this.getForClient(subscriptionId, clientId);
     if (!subscription) {
       throw new Error(`Subscription ${subscriptionId} not found`);
@@ -85,32 +116,46 @@ export class SubscriptionManager {
       updatedAt: new Date().toISOString(),
     };
 
+    // Moving the expiry of an expired subscription renews it
+    if (
+      subscription.status === 'expired' &&
+      request.status === undefined &&
+      request.expiresAt !== undefined &&
+      !this.isExpired(updated, new Date())
+    ) {
+      updated.status = 'active';
+    }
+
     this.subscriptions.set(subscriptionId, updated);
+    await this.storage.save(updated);
     return updated;
   }
 
   /**
    * Delete a subscription
    */
-  delete(subscriptionId: string, clientId: string): boolean {
+  async delete(subscriptionId: string, clientId: string): Promise<boolean> {
+    await this.ready;
     const subscription = this.getForClient(subscriptionId, clientId);
     if (!subscription) {
       return false;
     }
-    return this.subscriptions.delete(subscriptionId);
+    this.subscriptions.delete(subscriptionId);
+    await this.storage.delete(subscriptionId);
+    return true;
   }
 
   /**
    * Pause a subscription
    */
-  pause(subscriptionId: string, clientId: string): Subscription {
+  pause(subscriptionId: string, clientId: string): Promise<Subscription> {
     return this.update(subscriptionId, clientId, { status: 'paused' });
   }
 
   /**
    * Resume a subscription
    */
-  resume(subscriptionId: string, clientId: string): Subscription {
+  resume(subscriptionId: string, clientId: string): Promise<Subscription> {
     return this.update(subscriptionId, clientId, { status: 'active' });
   }
 
@@ -129,6 +174,14 @@ export class SubscriptionManager {
     return subscriptions;
   }
 
+  /**
+   * List all subscriptions, optionally filtered by status
+   */
+  list(status?: string): Subscription[] {
+    const subscriptions = Array.from(this.subscriptions.values());
+    return status ? subscriptions.filter((sub) => sub.status === status) : subscriptions;
+  }
+
   /**
    * Find all active subscriptions that match an event
    */
@@ -142,9 +195,8 @@ export class SubscriptionManager {
         continue;
       }
 
-      // Check expiration
-      if (subscription.expiresAt && new Date(subscription.expiresAt) <= now) {
-        subscription.status = 'expired';
+      // Expired but not yet swept (or within the grace period)
+      if (this.isExpired(subscription, now)) {
         continue;
       }
 
@@ -157,16 +209,43 @@ export class SubscriptionManager {
     return matching;
   }
 
+  /**
+   * Mark active and paused subscriptions whose expiry (plus grace period)
+   * has passed as expired
+   * @returns the subscriptions that were expired
+   */
+  async expireDue(now: Date = new Date()): Promise<Subscription[]> {
+    await this.ready;
+    const expired: Subscription[] = [];
+
+    for (const [id, subscription] of this.subscriptions) {
+      if (subscription.status !== 'expired' && this.isExpired(subscription, now)) {
+        const updated: Subscription = {
+          ...subscription,
+          status: 'expired',
+          updatedAt: now.toISOString(),
+        };
+        this.subscriptions.set(id, updated);
+        await this.storage.save(updated);
+        expired.push(updated);
+      }
+    }
+
+    return expired;
+  }
+
   /**
    * Clean up expired subscriptions
    */
-  cleanupExpired(): number {
+  async cleanupExpired(): Promise<number> {
+    await this.ready;
     const now = new Date();
     let count = 0;
 
     for (const [id, subscription] of this.subscriptions.entries()) {
       if (subscription.expiresAt && new Date(subscription.expiresAt) <= now) {
         this.subscriptions.delete(id);
+        await this.storage.delete(id);
         count++;
       }
     }
@@ -181,10 +260,22 @@ export class SubscriptionManager {
     return this.subscriptions.size;
   }
 
+  private isExpired(subscription: Subscription, now: Date): boolean {
+    return (
+      !!subscription.expiresAt &&
+      new Date(subscription.expiresAt).getTime() + this.expiryGracePeriodMs <= now.getTime()
+    );
+  }
+
   /**
    * Clear all subscriptions (for testing)
    */
-  clear(): void {
+  async clear(): Promise<void> {
+    await this.ready;
+    const ids = Array.from(this.subscriptions.keys());
     this.subscriptions.clear();
+    for (const id of ids) {
+      await this.storage.delete(id);
+    }
   }
 }
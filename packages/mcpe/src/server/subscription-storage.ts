@@ -0,0 +1,190 @@
+import { appendFile, readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { SubscriptionSchema, type Subscription } from '../types/index.js';
+
+/**
+ * Storage backend for server-side subscriptions
+ *
+ * The SubscriptionManager keeps subscriptions in memory and writes every
+ * change through to its storage, so implementations only need to persist
+ * and reload them. Like the SubscriptionStore of @esmcp/server, every
+ * method returns a promise so the backend can live outside the process.
+ */
+export interface SubscriptionStorage {
+  /** Load all stored subscriptions */
+  load(): Promise<Subscription[]>;
+  /** Insert or replace a subscription */
+  save(subscription: Subscription): Promise<void>;
+  /** Remove a subscription */
+  delete(subscriptionId: string): Promise<void>;
+}
+
+/**
+ * Storage that keeps nothing - subscriptions live only as long as the process
+ */
+export class MemorySubscriptionStorage implements SubscriptionStorage {
+  async load(): Promise<Subscription[]> {
+    return [];
+  }
+
+  async save(_subscription: Subscription): Promise<void> {}
+
+  async delete(_subscriptionId: string): Promise<void> {}
+}
+
+/**
+ * Parse a stored subscription, warning about entries that fail validation
+ */
+function parseSubscription(raw: unknown, source: string): Subscription | undefined {
+  const parsed = SubscriptionSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn(`[SubscriptionStorage] Skipping invalid subscription in ${source}`);
+    return undefined;
+  }
+  return parsed.data;
+}
+
+/**
+ * Options for FileSubscriptionStorage
+ */
+export interface FileSubscriptionStorageOptions {
+  /** Path to the file holding subscriptions */
+  filePath: string;
+  /** Changes appended before the file is compacted into a single snapshot (default: 1000) */
+  compactAfter?: number;
+}
+
+/**
+ * A change appended to the file after its snapshot
+ */
+type SubscriptionChange = { op: 'save'; subscription: Subscription } | { op: 'delete'; subscriptionId: string };
+
+/**
+ * FileSubscriptionStorage - file backed subscription storage
+ *
+ * The file is a journal of JSON lines: a snapshot of every subscription
+ * followed by the changes made since. Changes are appended, and the journal
+ * is compacted into a new snapshot (through a temporary file and rename)
+ * on load and once `compactAfter` changes have accumulated.
+ *
+ * @example
+ * ```typescript
+ * const server = new EventsServer({
+ *   name: 'my-server',
+ *   version: '1.0.0',
+ *   storage: new FileSubscriptionStorage({ filePath: './data/subscriptions.json' }),
+ * });
+ * ```
+ */
+export class FileSubscriptionStorage implements SubscriptionStorage {
+  private filePath: string;
+  private compactAfter: number;
+  private subscriptions: Map<string, Subscription> = new Map();
+  private journalLength = 0;
+  // Writes run one at a time, in the order they were made
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: FileSubscriptionStorageOptions) {
+    this.filePath = options.filePath;
+    this.compactAfter = options.compactAfter ?? 1000;
+  }
+
+  async load(): Promise<Subscription[]> {
+    await this.enqueue(async () => {
+      await this.read();
+      await this.compact();
+    });
+    return Array.from(this.subscriptions.values());
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(subscription.id, subscription);
+    await this.enqueue(() => this.append({ op: 'save', subscription }));
+  }
+
+  async delete(subscriptionId: string): Promise<void> {
+    if (!this.subscriptions.delete(subscriptionId)) return;
+    await this.enqueue(() => this.append({ op: 'delete', subscriptionId }));
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => {});
+    return result;
+  }
+
+  private async append(change: SubscriptionChange): Promise<void> {
+    if (this.journalLength >= this.compactAfter) {
+      await this.compact();
+      return;
+    }
+
+    await appendFile(this.filePath, `${JSON.stringify(change)}\n`);
+    this.journalLength++;
+  }
+
+  /**
+   * Rewrite the file as a snapshot of the current subscriptions
+   */
+  private async compact(): Promise<void> {
+    const dir = dirname(this.filePath);
+    if (dir && dir !== '.') {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const snapshot = {
+      version: '1.0',
+      subscriptions: Array.from(this.subscriptions.values()),
+    };
+
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, `${JSON.stringify(snapshot)}\n`);
+    await rename(tmpPath, this.filePath);
+    this.journalLength = 0;
+  }
+
+  /**
+   * Load the snapshot and replay the changes after it, skipping lines that
+   * fail validation (such as a line cut short by a crash)
+   */
+  private async read(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[FileSubscriptionStorage] Failed to load ${this.filePath}:`, error);
+      }
+      return;
+    }
+
+    // Files written before the journal format hold one indented snapshot
+    const lines = content.trimStart().startsWith('{\n') ? [content] : content.split('\n');
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let raw: { subscriptions?: unknown; op?: string; subscription?: unknown; subscriptionId?: unknown };
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        console.warn(`[FileSubscriptionStorage] Skipping unreadable line ${index + 1} in ${this.filePath}`);
+        return;
+      }
+
+      if (index === 0 && Array.isArray(raw.subscriptions)) {
+        for (const entry of raw.subscriptions) {
+          const subscription = parseSubscription(entry, this.filePath);
+          if (subscription) this.subscriptions.set(subscription.id, subscription);
+        }
+      } else if (raw.op === 'save') {
+        const subscription = parseSubscription(raw.subscription, this.filePath);
+        if (subscription) this.subscriptions.set(subscription.id, subscription);
+      } else if (raw.op === 'delete' && typeof raw.subscriptionId === 'string') {
+        this.subscriptions.delete(raw.subscriptionId);
+      } else {
+        console.warn(`[FileSubscriptionStorage] Skipping invalid line ${index + 1} in ${this.filePath}`);
+      }
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signature headers of a webhook request, as defined by Standard Webhooks
+ * - webhook-id: ID of the message, the same on every retry
+ * - webhook-timestamp: when the request was signed, in Unix seconds
+ * - webhook-signature: space-separated `v1,<base64 HMAC-SHA256>` signatures,
+ *   one per signing secret
+ */
+export type McpeWebhookHeaders = {
+  'webhook-id': string;
+  'webhook-timestamp': string;
+  'webhook-signature': string;
+};
+
+/**
+ * Options for signMcpeWebhook
+ */
+export interface SignMcpeWebhookOptions {
+  /** Message ID, sent as webhook-id */
+  id: string;
+  /** Secrets to sign with; list the new and old ones while rotating */
+  secrets: string | string[];
+  /** Signing time in Unix seconds (default: now) */
+  timestamp?: number;
+}
+
+/**
+ * Options for verifyMcpeWebhook
+ */
+export interface VerifyMcpeWebhookOptions {
+  /** Accepted secrets; list the new and old ones while rotating */
+  secrets: string | string[];
+  /** Largest accepted age or skew of webhook-timestamp in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Current time in Unix seconds (default: now) */
+  now?: number;
+}
+
+/**
+ * Request headers as received by Node's http module or fetch
+ */
+export type WebhookRequestHeaders = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * HMAC key of a secret; `whsec_` secrets are base64 encoded
+ */
+function secretKey(secret: string): Buffer {
+  return secret.startsWith('whsec_') ? Buffer.from(secret.slice('whsec_'.length), 'base64') : Buffer.from(secret);
+}
+
+function signature(secret: string, id: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secretKey(secret)).update(`${id}.${timestamp}.${body}`).digest('base64');
+}
+
+function header(headers: WebhookRequestHeaders, name: string): string | undefined {
+  const value = headers instanceof Headers ? headers.get(name) : headers[name];
+  return (Array.isArray(value) ? value[0] : value) ?? undefined;
+}
+
+/**
+ * Sign a webhook body, returning the headers to send with it
+ *
+ * @param body - The exact request body
+ */
+export function signMcpeWebhook(body: string, options: SignMcpeWebhookOptions): McpeWebhookHeaders {
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+  const secrets = Array.isArray(options.secrets) ? options.secrets : [options.secrets];
+
+  return {
+    'webhook-id': options.id,
+    'webhook-timestamp': timestamp,
+    'webhook-signature': secrets
+      .map((secret) => `v1,${signature(secret, options.id, timestamp, body)}`)
+      .join(' '),
+  };
+}
+
+/**
+ * Verify a webhook request sent by an MCPE server
+ *
+ * Passes when any signature matches any of the secrets and the timestamp is
+ * within the tolerance, which rejects replayed requests.
+ *
+ * @param body - The raw request body, before JSON parsing
+ * @param headers - The request headers
+ *
+ * @example
+ * ```typescript
+ * const valid = verifyMcpeWebhook(rawBody, req.headers, {
+ *   secrets: process.env.MCPE_WEBHOOK_SECRET!,
+ * });
+ * ```
+ */
+export function verifyMcpeWebhook(
+  body: string | Buffer,
+  headers: WebhookRequestHeaders,
+  options: VerifyMcpeWebhookOptions
+): boolean {
+  const id = header(headers, 'webhook-id');
+  const timestamp = header(headers, 'webhook-timestamp');
+  const signatures = header(headers, 'webhook-signature');
+  if (!id || !timestamp || !signatures || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - Number(timestamp)) > (options.toleranceSeconds ?? 300)) {
+    return false;
+  }
+
+  const payload = typeof body === 'string' ? body : body.toString('utf8');
+  const secrets = Array.isArray(options.secrets) ? options.secrets : [options.secrets];
+  const expected = secrets.map((secret) => Buffer.from(signature(secret, id, timestamp, payload)));
+
+  return signatures.split(' ').some((entry) => {
+    const [version, value] = entry.split(',');
+    if (version !== 'v1' || !value) {
+      return false;
+    }
+    const received = Buffer.from(value);
+    return expected.some((candidate) => candidate.length === received.length && timingSafeEqual(candidate, received));
+  });
+}
@@ -9,6 +9,9 @@ export const EventsFeaturesSchema = z.object({
   wildcards: z.boolean().default(true).describe('Supports wildcard patterns in event types'),
   cronSchedule: z.boolean().default(true).describe('Supports cron-based scheduled delivery'),
   scheduledDelivery: z.boolean().default(true).describe('Supports one-time scheduled delivery'),
+  dataFilters: z.boolean().default(true).describe('Supports data predicates (filter.where)'),
+  history: z.boolean().default(true).describe('Supports event history queries and replay on subscribe'),
+  deadLetters: z.boolean().default(true).describe('Supports listing and replaying events whose handler failed'),
 });
 
 export type EventsFeatures = z.infer<typeof EventsFeaturesSchema>;
@@ -33,29 +36,8 @@ export interface EventsServerOptions {
   features?: Partial<EventsFeatures>;
 }
 
-/**
- * MCP notification names used by MCPE
- */
-export const MCPE_NOTIFICATIONS = {
-  /** Single event delivery */
-  EVENT: 'events/event',
-  /** Batch event delivery (for cron/scheduled) */
-  BATCH: 'events/batch',
-  /** Subscription expired notification */
-  SUBSCRIPTION_EXPIRED: 'events/subscription_expired',
-} as const;
-
-/**
- * MCP tool names registered by MCPE
- */
-export const MCPE_TOOLS = {
-  SUBSCRIBE: 'events_subscribe',
-  UNSUBSCRIBE: 'events_unsubscribe',
-  LIST: 'events_list',
-  PAUSE: 'events_pause',
-  RESUME: 'events_resume',
-  UPDATE: 'events_update',
-} as const;
+// Tool and notification names are shared with @esmcp/core
+export { MCPE_NOTIFICATIONS, MCPE_TOOLS } from '@esmcp/core';
 
 /**
  * Default events capability configuration
@@ -68,5 +50,8 @@ export const DEFAULT_EVENTS_CAPABILITY: EventsCapability = {
     wildcards: true,
     cronSchedule: true,
     scheduledDelivery: true,
+    dataFilters: true,
+    history: true,
+    deadLetters: true,
   },
 };
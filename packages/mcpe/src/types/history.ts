@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { EventFilterSchema, type MCPEvent } from './events.js';
+
+/**
+ * Cursor into the retained event log - where to start reading
+ */
+export const EventCursorSchema = z.object({
+  since: z.string().datetime().optional().describe('Only events with a timestamp after this time (ISO 8601)'),
+  sinceEventId: z.string().optional().describe('Only events published after the event with this ID'),
+  limit: z.number().int().min(1).max(1000).optional().describe('Maximum number of events to return (default: 100)'),
+});
+
+export type EventCursor = z.infer<typeof EventCursorSchema>;
+
+/**
+ * Query for retained events (events_history)
+ */
+export const EventHistoryQuerySchema = EventCursorSchema.extend({
+  filter: EventFilterSchema.optional(),
+});
+
+export type EventHistoryQuery = z.infer<typeof EventHistoryQuerySchema>;
+
+/**
+ * Replay options for events_subscribe - retained events to deliver before live delivery
+ */
+export const ReplayOptionsSchema = EventCursorSchema;
+
+export type ReplayOptions = z.infer<typeof ReplayOptionsSchema>;
+
+/**
+ * Result of a history query
+ */
+export interface EventHistoryResult {
+  /** Matching events, oldest first */
+  events: MCPEvent[];
+  /** Whether more matching events follow the last returned one */
+  hasMore: boolean;
+  /** ID of the last returned event - pass as sinceEventId to continue */
+  nextCursor?: string;
+  /** False when sinceEventId is no longer retained and results start at the oldest retained event */
+  cursorFound: boolean;
+}
@@ -12,16 +12,52 @@ export {
   type EventFilter,
 } from './events.js';
 
+// Data predicate types
+export {
+  PredicateOperatorSchema,
+  DataPredicateSchema,
+  evaluatePredicate,
+  resolveFieldPath,
+  type PredicateOperator,
+  type DataPredicate,
+} from './predicates.js';
+
+// History types
+export {
+  EventCursorSchema,
+  EventHistoryQuerySchema,
+  ReplayOptionsSchema,
+  type EventCursor,
+  type EventHistoryQuery,
+  type ReplayOptions,
+  type EventHistoryResult,
+} from './history.js';
+
+// Handler templates
+export {
+  TemplateSchema,
+  JsonTemplateSchema,
+  templateErrors,
+  renderTemplate,
+  renderJsonTemplate,
+} from './templates.js';
+
 // Subscription types
 export {
   // Event handlers
+  HandlerFailureSchema,
+  HandlerRetryPolicySchema,
   BashEventHandlerSchema,
   AgentEventHandlerSchema,
   WebhookEventHandlerSchema,
+  McpToolEventHandlerSchema,
   EventHandlerSchema,
+  type HandlerFailure,
+  type HandlerRetryPolicy,
   type BashEventHandler,
   type AgentEventHandler,
   type WebhookEventHandler,
+  type McpToolEventHandler,
   type EventHandler,
   // Delivery
   DeliveryChannelSchema,
@@ -0,0 +1,8 @@
+export {
+  PredicateOperatorSchema,
+  DataPredicateSchema,
+  evaluatePredicate,
+  resolveFieldPath,
+  type PredicateOperator,
+  type DataPredicate,
+} from '@esmcp/core';
@@ -1,5 +1,49 @@
 import { z } from 'zod';
+import { CronScheduleSchema, ScheduledDeliverySchema } from '@esmcp/core';
 import { EventFilterSchema } from './events.js';
+import { TemplateSchema, JsonTemplateSchema } from './templates.js';
+
+/**
+ * Kinds of handler failure
+ * - timeout: the webhook or command did not finish in time
+ * - network: the webhook could not be reached
+ * - http_429, http_4xx, http_5xx: the webhook answered with that status
+ * - exit_code: the command exited with a non-zero code
+ * - denied: the server's handler policy does not allow the handler
+ * - error: any other failure (e.g. the agent callback threw)
+ */
+export const HandlerFailureSchema = z.enum([
+  'timeout',
+  'network',
+  'http_429',
+  'http_4xx',
+  'http_5xx',
+  'exit_code',
+  'denied',
+  'error',
+]);
+
+export type HandlerFailure = z.infer<typeof HandlerFailureSchema>;
+
+/**
+ * Retry policy for a handler
+ * Retry n waits initialDelayMs * multiplier^(n - 1), capped at maxDelayMs,
+ * shifted by a random +/- jitter fraction. Events whose last attempt fails
+ * go to the dead-letter store.
+ */
+export const HandlerRetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).default(3).describe('Attempts including the first'),
+  initialDelayMs: z.number().min(0).default(1000).describe('Delay before the first retry in ms'),
+  multiplier: z.number().min(1).default(2).describe('Factor applied to the delay after each retry'),
+  maxDelayMs: z.number().min(0).default(60000).describe('Longest delay between attempts in ms'),
+  jitter: z.number().min(0).max(1).default(0.2).describe('Random fraction of the delay added or removed'),
+  retryOn: z
+    .array(HandlerFailureSchema)
+    .default(['timeout', 'network', 'http_429', 'http_5xx'])
+    .describe('Failures to retry; others go to the dead-letter store at once'),
+});
+
+export type HandlerRetryPolicy = z.infer<typeof HandlerRetryPolicySchema>;
 
 /**
  * Bash command event handler
@@ -8,8 +52,11 @@ import { EventFilterSchema } from './events.js';
  */
 export const BashEventHandlerSchema = z.object({
   type: z.literal('bash'),
-  command: z.string().describe('Shell command to execute'),
-  args: z.array(z.string()).optional().describe('Command arguments'),
+  command: z.string().describe('Command to execute, subject to the server\'s bash policy'),
+  args: z
+    .array(TemplateSchema)
+    .optional()
+    .describe('Command arguments, as templates; values are shell-quoted when the server runs commands in a shell'),
   cwd: z.string().optional().describe('Working directory'),
   env: z.record(z.string()).optional().describe('Additional environment variables'),
   /** How to pass event data to the command */
@@ -18,6 +65,7 @@ export const BashEventHandlerSchema = z.object({
   ),
   /** Timeout in milliseconds */
   timeout: z.number().default(30000).describe('Command timeout in ms'),
+  retry: HandlerRetryPolicySchema.optional().describe('Retry failed runs (default: run once)'),
 });
 
 export type BashEventHandler = z.infer<typeof BashEventHandlerSchema>;
@@ -39,24 +87,57 @@ export const AgentEventHandlerSchema = z.object({
   tools: z.array(z.string()).optional().describe('Tool names the agent can use'),
   /** Max tokens for response */
   maxTokens: z.number().optional().describe('Maximum tokens for agent response'),
+  retry: HandlerRetryPolicySchema.optional().describe('Retry failed invocations (default: invoke once)'),
 });
 
 export type AgentEventHandler = z.infer<typeof AgentEventHandlerSchema>;
 
 /**
  * Webhook event handler
- * Posts event data to an HTTP endpoint
+ * Posts event data to an HTTP endpoint, optionally signed the Standard
+ * Webhooks way so receivers can verify it with verifyMcpeWebhook.
+ * Query, headers and body are templates over the event (see templates.ts).
  */
 export const WebhookEventHandlerSchema = z.object({
   type: z.literal('webhook'),
   url: z.string().url().describe('Webhook URL to POST events to'),
-  headers: z.record(z.string()).optional().describe('Additional HTTP headers'),
+  method: z.enum(['POST', 'PUT', 'PATCH', 'DELETE', 'GET']).optional().describe('HTTP method (default: POST)'),
+  query: z.record(TemplateSchema).optional().describe('URL query parameters, as templates'),
+  headers: z.record(TemplateSchema).optional().describe('Additional HTTP headers, as templates'),
+  /** Replaces the default {event, timestamp} envelope */
+  body: z
+    .union([TemplateSchema, JsonTemplateSchema])
+    .optional()
+    .describe('Request body: a text template, or JSON whose strings are templates (default: {event, timestamp})'),
   /** Timeout in milliseconds */
   timeout: z.number().default(10000).describe('Request timeout in ms'),
+  /** Name of a secret from the server's webhookSecrets, never the secret itself */
+  signingSecretRef: z
+    .string()
+    .optional()
+    .describe('Signing secret configured on the server; adds webhook-id, webhook-timestamp and webhook-signature headers'),
+  retry: HandlerRetryPolicySchema.optional().describe('Retry failed requests (default: send once)'),
 });
 
 export type WebhookEventHandler = z.infer<typeof WebhookEventHandlerSchema>;
 
+/**
+ * MCP tool event handler
+ * Calls a tool on another MCP server, without an LLM in between
+ */
+export const McpToolEventHandlerSchema = z.object({
+  type: z.literal('mcp_tool'),
+  /** Name of an MCP server from the server's mcpServers, never its URL or command */
+  server: z.string().describe('MCP server configured on the server'),
+  tool: z.string().describe('Name of the tool to call'),
+  arguments: JsonTemplateSchema.optional().describe('Tool arguments; strings are templates over the event'),
+  /** Timeout in milliseconds */
+  timeout: z.number().default(30000).describe('Tool call timeout in ms'),
+  retry: HandlerRetryPolicySchema.optional().describe('Retry failed calls (default: call once)'),
+});
+
+export type McpToolEventHandler = z.infer<typeof McpToolEventHandlerSchema>;
+
 /**
  * Event handler - defines how to process received events
  */
@@ -64,6 +145,7 @@ export const EventHandlerSchema = z.discriminatedUnion('type', [
   BashEventHandlerSchema,
   AgentEventHandlerSchema,
   WebhookEventHandlerSchema,
+  McpToolEventHandlerSchema,
 ]);
 
 export type EventHandler = z.infer<typeof EventHandlerSchema>;
@@ -78,46 +160,13 @@ export const DeliveryChannelSchema = z.enum(['realtime', 'cron', 'scheduled']);
 
 export type DeliveryChannel = z.infer<typeof DeliveryChannelSchema>;
 
-/**
- * Cron Schedule Configuration
- * Used for recurring time-based delivery (e.g., "every hour", "daily at 9am")
- *
- * Supports standard cron expressions:
- * - "0 * * * *" = every hour
- * - "0 9 * * *" = daily at 9am
- * - "0 9 * * 1" = every Monday at 9am
- * - "0 0 1 * *" = first day of each month
- *
- * Also supports human-readable presets:
- * - "@hourly", "@daily", "@weekly", "@monthly"
- */
-export const CronScheduleSchema = z.object({
-  expression: z.string().describe('Cron expression or preset (@hourly, @daily, @weekly, @monthly)'),
-  timezone: z.string().default('UTC').describe('IANA timezone (e.g., "America/New_York", "Europe/London")'),
-  aggregateEvents: z.boolean().default(true).describe('Aggregate matching events and deliver as batch'),
-  maxEventsPerDelivery: z.number().default(100).describe('Maximum events per delivery batch'),
-});
-
-export type CronSchedule = z.infer<typeof CronScheduleSchema>;
-
-/**
- * Scheduled Delivery Configuration
- * Used for one-time delivery at a specific date/time
- *
- * Use cases:
- * - "Remind me in 4 hours"
- * - "Next Sunday at 10am"
- * - "On January 15, 2025 at 3pm"
- */
-export const ScheduledDeliverySchema = z.object({
-  deliverAt: z.string().datetime().describe('ISO 8601 datetime for delivery'),
-  timezone: z.string().default('UTC').describe('IANA timezone for interpreting the time'),
-  description: z.string().optional().describe('Human-readable description (e.g., "in 4 hours", "next Sunday")'),
-  aggregateEvents: z.boolean().default(true).describe('Aggregate matching events until delivery time'),
-  autoExpire: z.boolean().default(true).describe('Automatically expire subscription after delivery'),
-});
-
-export type ScheduledDelivery = z.infer<typeof ScheduledDeliverySchema>;
+// Schedules are shared with @esmcp/core
+export {
+  CronScheduleSchema,
+  ScheduledDeliverySchema,
+  type CronSchedule,
+  type ScheduledDelivery,
+} from '@esmcp/core';
 
 /**
  * Delivery preferences for a subscription
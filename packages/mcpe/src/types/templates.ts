@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import type { MCPEvent } from './events.js';
+
+/**
+ * Handler templates
+ *
+ * `{{event.path}}` is replaced by a value of the event: `event.id`,
+ * `event.type`, or a dotted path into `event.data` or `event.metadata`
+ * (array items by index, e.g. `event.data.commits.0.id`). There are no
+ * helpers, conditionals or loops, so rendering a template cannot run code.
+ * Missing values render as an empty string, objects and arrays as JSON.
+ */
+
+const TAG = /\{\{([^{}]*)\}\}/g;
+const WHOLE_TAG = /^\{\{([^{}]*)\}\}$/;
+const PATH = /^event\.(id|type|data|metadata)((?:\.[A-Za-z0-9_-]+)*)$/;
+
+/**
+ * Problems with a template, empty when it is valid
+ */
+export function templateErrors(template: string): string[] {
+  const errors: string[] = [];
+  for (const [, expression] of template.matchAll(TAG)) {
+    const match = PATH.exec(expression.trim());
+    if (!match) {
+      errors.push(`Invalid template tag {{${expression}}}: expected event.id, event.type, event.data.* or event.metadata.*`);
+    } else if ((match[1] === 'id' || match[1] === 'type') && match[2]) {
+      errors.push(`Invalid template tag {{${expression}}}: event.${match[1]} has no fields`);
+    }
+  }
+
+  if (/\{\{|\}\}/.test(template.replace(TAG, ''))) {
+    errors.push('Unbalanced {{ or }} in template');
+  }
+  return errors;
+}
+
+/**
+ * Value at a template path, looking at own properties only
+ */
+function lookup(event: MCPEvent, expression: string): unknown {
+  const segments = expression.trim().split('.').slice(1);
+
+  let current: unknown = event;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Render a text template
+ *
+ * @param escape - Applied to each substituted value, e.g. to quote it for a shell
+ */
+export function renderTemplate(
+  template: string,
+  event: MCPEvent,
+  escape: (value: string) => string = (value) => value
+): string {
+  return template.replace(TAG, (_tag, expression: string) => escape(stringify(lookup(event, expression))));
+}
+
+/**
+ * Render a JSON template: every string in it is a text template, and a
+ * string that is a single tag keeps the value's JSON type
+ */
+export function renderJsonTemplate(template: unknown, event: MCPEvent): unknown {
+  if (typeof template === 'string') {
+    const whole = WHOLE_TAG.exec(template);
+    return whole ? lookup(event, whole[1]) ?? null : renderTemplate(template, event);
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderJsonTemplate(item, event));
+  }
+  if (template !== null && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderJsonTemplate(value, event)])
+    );
+  }
+  return template;
+}
+
+function addTemplateIssues(template: string, ctx: z.RefinementCtx): void {
+  for (const message of templateErrors(template)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+}
+
+function addJsonTemplateIssues(template: unknown, ctx: z.RefinementCtx): void {
+  if (typeof template === 'string') {
+    addTemplateIssues(template, ctx);
+  } else if (template !== null && typeof template === 'object') {
+    Object.values(template).forEach((value) => addJsonTemplateIssues(value, ctx));
+  }
+}
+
+/**
+ * A text template
+ */
+export const TemplateSchema = z.string().superRefine(addTemplateIssues);
+
+/**
+ * A JSON object whose strings are templates
+ */
+export const JsonTemplateSchema = z.record(z.unknown()).superRefine(addJsonTemplateIssues);
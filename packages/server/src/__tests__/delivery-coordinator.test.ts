@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DeliveryCoordinator } from '../delivery/coordinator.js';
+import { WebPushDelivery, type WebPushSender } from '../delivery/webpush.js';
+import type { DeliveryChannelAdapter } from '../delivery/channels.js';
+import { MemoryDeviceStore } from '../device/store.js';
+import type { DeliveryChannel, ESMCPEvent, Subscription } from '@esmcp/core';
+
+const event: ESMCPEvent = {
+  id: 'event-1',
+  type: 'github.push',
+  data: { repo: 'mcp-events' },
+  metadata: {
+    timestamp: new Date().toISOString(),
+    priority: 'normal',
+  },
+};
+
+function createSubscription(channels: DeliveryChannel[]): Subscription {
+  return {
+    id: 'sub-1',
+    clientId: 'client-1',
+    filter: {},
+    delivery: { channels, priority: 'normal' },
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function createAdapter(
+  channel: DeliveryChannel,
+  behavior: { available?: boolean; fails?: boolean },
+  delivered: DeliveryChannel[]
+): DeliveryChannelAdapter {
+  return {
+    channel,
+    isAvailable: async () => behavior.available ?? true,
+    deliver: async () => {
+      if (behavior.fails) throw new Error(`${channel} failed`);
+      delivered.push(channel);
+    },
+  };
+}
+
+describe('DeliveryCoordinator', () => {
+  let delivered: DeliveryChannel[];
+
+  beforeEach(() => {
+    delivered = [];
+  });
+
+  it('should try channels in subscription order and stop at the first success', async () => {
+    const coordinator = new DeliveryCoordinator({
+      adapters: [
+        createAdapter('websocket', { available: false }, delivered),
+        createAdapter('sse', { fails: true }, delivered),
+        createAdapter('webpush', {}, delivered),
+        createAdapter('apns', {}, delivered),
+      ],
+    });
+
+    const result = await coordinator.deliverToSubscription(
+      event,
+      createSubscription(['websocket', 'sse', 'webpush', 'apns'])
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.channel).toBe('webpush');
+    expect(delivered).toEqual(['webpush']);
+    expect(result.channels).toEqual([
+      { channel: 'websocket', success: false, skipped: true, error: 'Client not reachable' },
+      { channel: 'sse', success: false, error: 'sse failed' },
+      { channel: 'webpush', success: true },
+    ]);
+  });
+
+  it('should report unconfigured channels', async () => {
+    const coordinator = new DeliveryCoordinator({
+      adapters: [createAdapter('sse', {}, delivered)],
+    });
+
+    expect(coordinator.getChannels()).toEqual(['sse']);
+
+    const result = await coordinator.deliverToSubscription(event, createSubscription(['apns']));
+    expect(result.success).toBe(false);
+    expect(result.channels).toEqual([
+      { channel: 'apns', success: false, skipped: true, error: 'Channel not configured' },
+    ]);
+  });
+});
+
+describe('WebPushDelivery', () => {
+  it('should send to web devices and remove expired subscriptions', async () => {
+    const deviceStore = new MemoryDeviceStore();
+    const now = new Date().toISOString();
+    await deviceStore.create({
+      id: 'device-1',
+      clientId: 'client-1',
+      token: 'https://push.example.com/expired',
+      platform: 'web',
+      keys: { p256dh: 'key', auth: 'auth' },
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const endpoints: string[] = [];
+    const client: WebPushSender = {
+      send: async (subscription) => {
+        endpoints.push(subscription.endpoint);
+        return { success: false, statusCode: 410, error: 'Gone' };
+      },
+    };
+    const delivery = new WebPushDelivery({ client, deviceStore });
+    const subscription = createSubscription(['webpush']);
+
+    expect(await delivery.isAvailable(subscription)).toBe(true);
+    await expect(delivery.deliver(event, subscription)).rejects.toThrow('Failed to deliver');
+    expect(endpoints).toEqual(['https://push.example.com/expired']);
+    expect(await deviceStore.get('device-1')).toBeNull();
+    expect(await delivery.isAvailable(subscription)).toBe(false);
+  });
+});
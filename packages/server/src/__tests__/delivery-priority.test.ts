@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DeliveryQueue } from '../delivery/queue.js';
+import { EventBatcher } from '../delivery/batcher.js';
+import { DeliveryCoordinator } from '../delivery/coordinator.js';
+import type { DeliveryChannelAdapter } from '../delivery/channels.js';
+import type { ESMCPEvent, Subscription } from '@esmcp/core';
+
+function createTestEvent(id: string): ESMCPEvent {
+  return {
+    id,
+    type: 'github.push',
+    data: {},
+    metadata: {
+      timestamp: new Date().toISOString(),
+      priority: 'normal',
+    },
+  };
+}
+
+function createSubscription(batchInterval?: number): Subscription {
+  return {
+    id: 'sub-1',
+    clientId: 'client-1',
+    filter: {},
+    delivery: { channels: ['websocket'], priority: 'batch', batchInterval },
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+describe('DeliveryQueue', () => {
+  it('should run queued realtime jobs ahead of normal ones', async () => {
+    const queue = new DeliveryQueue(1);
+    const order: string[] = [];
+    let release!: () => void;
+    const blocker = new Promise<void>((resolve) => (release = resolve));
+
+    const jobs = [
+      queue.enqueue('normal', () => blocker.then(() => void order.push('busy'))),
+      queue.enqueue('normal', async () => void order.push('normal-1')),
+      queue.enqueue('normal', async () => void order.push('normal-2')),
+      queue.enqueue('realtime', async () => void order.push('realtime-1')),
+      queue.enqueue('realtime', async () => void order.push('realtime-2')),
+    ];
+    expect(queue.size).toBe(4);
+
+    release();
+    await Promise.all(jobs);
+    expect(order).toEqual(['busy', 'realtime-1', 'realtime-2', 'normal-1', 'normal-2']);
+  });
+
+  it('should settle with the result of the job', async () => {
+    const queue = new DeliveryQueue();
+    await expect(queue.enqueue('normal', async () => 42)).resolves.toBe(42);
+    await expect(
+      queue.enqueue('realtime', async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe('EventBatcher', () => {
+  let flushed: { subscriptionId: string; eventIds: string[] }[];
+  let batcher: EventBatcher;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    flushed = [];
+    batcher = new EventBatcher(
+      async (subscription, events) => {
+        flushed.push({ subscriptionId: subscription.id, eventIds: events.map((e) => e.id) });
+      },
+      { defaultIntervalMs: 5000, maxBatchSize: 3 }
+    );
+  });
+
+  afterEach(() => {
+    batcher.stop();
+    vi.useRealTimers();
+  });
+
+  it('should coalesce events per batchInterval', async () => {
+    const subscription = createSubscription(1000);
+    await batcher.add(createTestEvent('event-1'), subscription);
+    await vi.advanceTimersByTimeAsync(500);
+    await batcher.add(createTestEvent('event-2'), subscription);
+    expect(flushed).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(flushed).toEqual([{ subscriptionId: 'sub-1', eventIds: ['event-1', 'event-2'] }]);
+
+    // The next event starts a new batch
+    await batcher.add(createTestEvent('event-3'), subscription);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(flushed.map((f) => f.eventIds)).toEqual([['event-1', 'event-2'], ['event-3']]);
+  });
+
+  it('should use the default interval when none is set', async () => {
+    await batcher.add(createTestEvent('event-1'), createSubscription());
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(flushed).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(flushed).toHaveLength(1);
+  });
+
+  it('should flush early when the batch is full', async () => {
+    const subscription = createSubscription(1000);
+    for (const id of ['event-1', 'event-2', 'event-3', 'event-4']) {
+      await batcher.add(createTestEvent(id), subscription);
+    }
+
+    expect(flushed.map((f) => f.eventIds)).toEqual([['event-1', 'event-2', 'event-3']]);
+    expect(batcher.getPending('sub-1').map((e) => e.id)).toEqual(['event-4']);
+  });
+
+  it('should drop discarded batches', async () => {
+    await batcher.add(createTestEvent('event-1'), createSubscription(1000));
+    batcher.discard('sub-1');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(flushed).toHaveLength(0);
+  });
+});
+
+describe('DeliveryCoordinator batches', () => {
+  it('should fall back to single deliveries for channels without batch support', async () => {
+    const delivered: string[] = [];
+    const adapter: DeliveryChannelAdapter = {
+      channel: 'websocket',
+      isAvailable: async () => true,
+      deliver: async (event) => void delivered.push(event.id),
+    };
+    const coordinator = new DeliveryCoordinator({ adapters: [adapter] });
+
+    const result = await coordinator.deliverBatchToSubscription(
+      [createTestEvent('event-1'), createTestEvent('event-2')],
+      createSubscription()
+    );
+
+    expect(result.success).toBe(true);
+    expect(delivered).toEqual(['event-1', 'event-2']);
+  });
+});
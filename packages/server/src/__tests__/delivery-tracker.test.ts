@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DeliveryTracker, type PendingDelivery } from '../delivery/tracker.js';
+import { MemoryDeadLetterStore } from '../delivery/dead-letter.js';
+import type { ESMCPEvent, Subscription } from '@esmcp/core';
+
+function createTestEvent(id: string): ESMCPEvent {
+  return {
+    id,
+    type: 'github.push',
+    data: {},
+    metadata: {
+      timestamp: new Date().toISOString(),
+      priority: 'normal',
+    },
+  };
+}
+
+const subscription: Subscription = {
+  id: 'sub-1',
+  clientId: 'client-1',
+  filter: {},
+  delivery: { channels: ['websocket'], priority: 'normal' },
+  status: 'active',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+describe('DeliveryTracker', () => {
+  let online: boolean;
+  let sent: PendingDelivery[];
+  let tracker: DeliveryTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    online = true;
+    sent = [];
+    tracker = new DeliveryTracker(
+      async (delivery) => {
+        if (!online) return false;
+        sent.push(delivery);
+        return true;
+      },
+      { ackTimeoutMs: 1000, backoffMultiplier: 2, maxAttempts: 3 }
+    );
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    vi.useRealTimers();
+  });
+
+  it('should redeliver with backoff until acknowledged', async () => {
+    await tracker.track(createTestEvent('event-1'), subscription);
+    expect(sent.map((d) => d.attempts)).toEqual([1]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent.map((d) => d.attempts)).toEqual([1, 2]);
+
+    // Second wait is doubled
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent.map((d) => d.attempts)).toEqual([1, 2, 3]);
+
+    expect(tracker.acknowledge('sub-1', 'event-1')).toBe(true);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(sent).toHaveLength(3);
+    expect(tracker.getPending('sub-1')).toHaveLength(0);
+  });
+
+  it('should dead-letter after max attempts', async () => {
+    await tracker.track(createTestEvent('event-1'), subscription);
+    await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+
+    expect(sent).toHaveLength(3);
+    const deadLetters = await tracker.deadLetterStore.list('sub-1');
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0].reason).toBe('max_attempts');
+    expect(deadLetters[0].attempts).toBe(3);
+    expect(tracker.acknowledge('sub-1', 'event-1')).toBe(false);
+  });
+
+  it('should hold events while offline and flush them in order', async () => {
+    online = false;
+    await tracker.track(createTestEvent('event-1'), subscription);
+    await tracker.track(createTestEvent('event-2'), subscription);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(sent).toHaveLength(0);
+
+    online = true;
+    await tracker.flush('client-1');
+    expect(sent.map((d) => d.event.id)).toEqual(['event-1', 'event-2']);
+    expect(sent.every((d) => d.attempts === 1)).toBe(true);
+  });
+
+  it('should stop redelivery while suspended', async () => {
+    await tracker.track(createTestEvent('event-1'), subscription);
+    tracker.suspend('client-1');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(sent).toHaveLength(1);
+    expect(tracker.getPending('sub-1')).toHaveLength(1);
+  });
+
+  it('should dead-letter the oldest event when the queue is full', async () => {
+    tracker = new DeliveryTracker(async () => false, { maxPendingPerSubscription: 2 });
+    await tracker.track(createTestEvent('event-1'), subscription);
+    await tracker.track(createTestEvent('event-2'), subscription);
+    await tracker.track(createTestEvent('event-3'), subscription);
+
+    expect(tracker.getPending('sub-1').map((d) => d.event.id)).toEqual(['event-2', 'event-3']);
+    const deadLetters = await tracker.deadLetterStore.list();
+    expect(deadLetters.map((dl) => [dl.event.id, dl.reason])).toEqual([['event-1', 'queue_full']]);
+  });
+});
+
+describe('MemoryDeadLetterStore', () => {
+  it('should drop the oldest dead letters beyond maxEntries', async () => {
+    const store = new MemoryDeadLetterStore({ maxEntries: 2 });
+    for (const id of ['dl-1', 'dl-2', 'dl-3']) {
+      await store.add({
+        id,
+        event: createTestEvent(`event-${id}`),
+        subscriptionId: 'sub-1',
+        clientId: 'client-1',
+        attempts: 3,
+        reason: 'max_attempts',
+        deadLetteredAt: new Date().toISOString(),
+      });
+    }
+
+    expect((await store.list()).map((dl) => dl.id)).toEqual(['dl-2', 'dl-3']);
+    expect(await store.get('dl-1')).toBeNull();
+  });
+});
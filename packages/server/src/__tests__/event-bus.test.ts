@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net';
+import { createEvent, type ESMCPEvent } from '@esmcp/core';
+import { MemoryEventBus } from '../bus/bus.js';
+import { RedisEventBus } from '../bus/redis.js';
+
+function bulk(value: string): string {
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/**
+ * In-process stand-in for a Redis server supporting AUTH, SUBSCRIBE and PUBLISH
+ * @param connections - Filled with the open connections, so tests can drop them
+ */
+function startPubSubServer(password?: string, connections: Set<Socket> = new Set()): Promise<Server> {
+  const channels = new Map<string, Set<Socket>>();
+
+  const server = createServer((socket) => {
+    connections.add(socket);
+    socket.on('close', () => connections.delete(socket));
+    let buffer = '';
+    let authenticated = !password;
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      // Commands are arrays of bulk strings: *<n>\r\n($<len>\r\n<arg>\r\n)*
+      for (;;) {
+        const match = /^\*(\d+)\r\n/.exec(buffer);
+        if (!match) return;
+        let position = match[0].length;
+        const args: string[] = [];
+        for (let i = 0; i < Number(match[1]); i++) {
+          const header = /^\$(\d+)\r\n/.exec(buffer.slice(position));
+          if (!header) return;
+          const start = position + header[0].length;
+          const value = Buffer.from(buffer.slice(start)).subarray(0, Number(header[1])).toString('utf8');
+          if (Buffer.byteLength(value) < Number(header[1])) return;
+          args.push(value);
+          position = start + value.length + 2;
+        }
+        buffer = buffer.slice(position);
+
+        const [command, ...rest] = args;
+        if (command === 'AUTH') {
+          authenticated = rest[rest.length - 1] === password;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required\r\n');
+        } else if (command === 'SUBSCRIBE') {
+          const subscribers = channels.get(rest[0]) ?? new Set();
+          subscribers.add(socket);
+          channels.set(rest[0], subscribers);
+          socket.write(`*3\r\n${bulk('subscribe')}${bulk(rest[0])}:1\r\n`);
+        } else if (command === 'PUBLISH') {
+          const subscribers = channels.get(rest[0]) ?? new Set();
+          for (const subscriber of subscribers) {
+            subscriber.write(`*3\r\n${bulk('message')}${bulk(rest[0])}${bulk(rest[1])}`);
+          }
+          socket.write(`:${subscribers.size}\r\n`);
+        }
+      }
+    });
+    socket.on('close', () => channels.forEach((subscribers) => subscribers.delete(socket)));
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 2000) reject(new Error('Timed out'));
+      else setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+describe('MemoryEventBus', () => {
+  it('should hand published events to every handler', async () => {
+    const bus = new MemoryEventBus();
+    const received: string[] = [];
+    await bus.subscribe(async (event) => void received.push(`a:${event.type}`));
+    await bus.subscribe(async (event) => void received.push(`b:${event.type}`));
+
+    await bus.publish(createEvent('github.push', {}, { priority: 'normal' }));
+    expect(received).toEqual(['a:github.push', 'b:github.push']);
+
+    await bus.close();
+    await bus.publish(createEvent('github.push', {}, { priority: 'normal' }));
+    expect(received).toHaveLength(2);
+  });
+});
+
+describe('RedisEventBus', () => {
+  let server: Server;
+  let connections: Set<Socket>;
+  let url: string;
+  let buses: RedisEventBus[];
+
+  beforeEach(async () => {
+    connections = new Set();
+    server = await startPubSubServer('secret', connections);
+    url = `redis://:secret@127.0.0.1:${(server.address() as AddressInfo).port}`;
+    buses = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(buses.map((bus) => bus.close()));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function createBus(options: { url?: string; channel?: string } = {}): RedisEventBus {
+    const bus = new RedisEventBus({ url, reconnectDelayMs: 10, ...options });
+    buses.push(bus);
+    return bus;
+  }
+
+  it('should fan out events to every node, including the publisher', async () => {
+    const nodeA = createBus();
+    const nodeB = createBus();
+    const receivedA: ESMCPEvent[] = [];
+    const receivedB: ESMCPEvent[] = [];
+    await nodeA.subscribe(async (event) => void receivedA.push(event));
+    await nodeB.subscribe(async (event) => void receivedB.push(event));
+
+    const event = createEvent('github.push', { message: 'héllo ✓' }, { priority: 'high', tags: ['ci'] });
+    await nodeA.publish(event);
+    await nodeB.publish(createEvent('slack.message', {}, { priority: 'normal' }));
+
+    await waitFor(() => receivedA.length === 2 && receivedB.length === 2);
+    expect(receivedB[0]).toEqual(event);
+    expect(receivedA.map((e) => e.type)).toEqual(['github.push', 'slack.message']);
+  });
+
+  it('should keep channels apart', async () => {
+    const received: string[] = [];
+    await createBus({ channel: 'hub-a' }).subscribe(async (event) => void received.push(event.type));
+
+    await createBus({ channel: 'hub-b' }).publish(createEvent('other.event', {}, { priority: 'normal' }));
+    await createBus({ channel: 'hub-a' }).publish(createEvent('own.event', {}, { priority: 'normal' }));
+
+    await waitFor(() => received.length > 0);
+    expect(received).toEqual(['own.event']);
+  });
+
+  it('should reject wrong credentials', async () => {
+    const port = (server.address() as AddressInfo).port;
+    const bus = createBus({ url: `redis://:wrong@127.0.0.1:${port}` });
+    await expect(bus.subscribe(async () => {})).rejects.toThrow('WRONGPASS');
+  });
+
+  it('should subscribe again and reopen the publisher after the connections drop', async () => {
+    const node = createBus();
+    const received: string[] = [];
+    await node.subscribe(async (event) => void received.push(event.type));
+    await node.publish(createEvent('before.drop', {}, { priority: 'normal' }));
+    await waitFor(() => received.length === 1);
+
+    connections.forEach((socket) => socket.destroy());
+
+    // Publish until the resubscribed node hears from the reopened publisher
+    for (let attempt = 0; attempt < 100 && received.length < 2; attempt++) {
+      await node.publish(createEvent('after.drop', {}, { priority: 'normal' })).catch(() => {});
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(received[0]).toBe('before.drop');
+    expect(received[1]).toBe('after.drop');
+  });
+
+  it('should fail commands on a reply it cannot parse instead of throwing', async () => {
+    const broken = createServer((socket) => socket.on('data', () => socket.write('?oops\r\n')));
+    await new Promise<void>((resolve) => broken.listen(0, '127.0.0.1', resolve));
+    try {
+      const bus = createBus({ url: `redis://127.0.0.1:${(broken.address() as AddressInfo).port}` });
+      await expect(bus.publish(createEvent('github.push', {}, { priority: 'normal' }))).rejects.toThrow(
+        'Unexpected RESP reply type: ?'
+      );
+    } finally {
+      await new Promise((resolve) => broken.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import { ASPMethods, ErrorCodes, type JsonRpcResponse } from '@esmcp/core';
+import { EventHub } from '../hub/hub.js';
+
+const clientInfo = { name: 'test-client', version: '1.0.0' };
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Open a connection and send requests over it in order, resolving with
+ * their responses
+ */
+async function exchange(port: number, requests: Array<[string, Record<string, unknown>]>) {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+  await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+
+  const responses: JsonRpcResponse[] = [];
+  try {
+    for (const [index, [method, params]] of requests.entries()) {
+      const response = new Promise<JsonRpcResponse>((resolve) => {
+        socket.on('message', function onMessage(data) {
+          const message = JSON.parse(data.toString()) as JsonRpcResponse;
+          if (message.id === index) {
+            socket.off('message', onMessage);
+            resolve(message);
+          }
+        });
+      });
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id: index, method, params }));
+      responses.push(await response);
+    }
+  } finally {
+    socket.close();
+  }
+  return responses;
+}
+
+describe('Protocol version negotiation', () => {
+  let hub: EventHub;
+  let port: number;
+
+  beforeAll(async () => {
+    port = await freePort();
+    hub = new EventHub({ port, host: '127.0.0.1' });
+    await hub.start();
+  });
+
+  afterAll(async () => {
+    await hub.stop();
+  });
+
+  it.each([
+    ['a client from before negotiation', { protocolVersion: '2025-01-01' }, '2025-01-01'],
+    ['a current client', { protocolVersion: '2025-10-01', supportedVersions: ['2025-10-01', '2025-01-01'] }, '2025-10-01'],
+    ['a current client limited to the first version', { protocolVersion: '2025-01-01', supportedVersions: ['2025-01-01'] }, '2025-01-01'],
+    ['a newer client', { protocolVersion: '2026-06-01', supportedVersions: ['2026-06-01', '2025-10-01'] }, '2025-10-01'],
+    ['an MCP client', { protocolVersion: '2025-06-18' }, '2025-06-18'],
+  ])('should negotiate with %s', async (_name, versions, negotiated) => {
+    const [response] = await exchange(port, [[ASPMethods.Initialize, { ...versions, clientInfo }]]);
+    expect(response.error).toBeUndefined();
+    expect(response.result).toMatchObject({ protocolVersion: negotiated });
+  });
+
+  it('should reject clients without a common version and list the supported ones', async () => {
+    const [response] = await exchange(port, [
+      [ASPMethods.Initialize, { protocolVersion: '2026-06-01', supportedVersions: ['2026-06-01'], clientInfo }],
+    ]);
+    expect(response.error).toMatchObject({ code: ErrorCodes.InvalidParams });
+    expect(response.error?.message).toContain('2025-10-01, 2025-01-01');
+  });
+
+  it.each([
+    ['2025-01-01', false],
+    ['2025-10-01', true],
+  ])('should describe data filtering to %s clients: %s', async (protocolVersion, dataFiltering) => {
+    const [, capabilities, schema] = await exchange(port, [
+      [ASPMethods.Initialize, { protocolVersion, clientInfo }],
+      [ASPMethods.GetCapabilities, {}],
+      [ASPMethods.GetSchema, { operations: ['subscribe'] }],
+    ]);
+
+    const result = capabilities.result as { protocolVersion: string; filters: Record<string, boolean> };
+    expect(result.protocolVersion).toBe(protocolVersion);
+    expect('supportsDataFiltering' in result.filters).toBe(dataFiltering);
+
+    type Operation = { inputSchema: { properties: { filter: { properties: object } } } };
+    const [subscribe] = (schema.result as { operations: Operation[] }).operations;
+    expect('where' in subscribe.inputSchema.properties.filter.properties).toBe(dataFiltering);
+  });
+});
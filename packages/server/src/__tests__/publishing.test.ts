@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { connect, createServer, type AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import {
+  ASPMethods,
+  ErrorCodes,
+  createEvent,
+  type Authenticator,
+  type ESMCPEvent,
+  type JsonRpcResponse,
+  type Principal,
+} from '@esmcp/core';
+import { HttpIngestServer } from '../transport/http-ingest.js';
+import { EventHub } from '../hub/hub.js';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 2000) reject(new Error('Timed out'));
+      else setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+// API keys of the test publishers
+const publishers: Record<string, Principal> = {
+  'ci-key': { id: 'ci', allowedEventTypes: ['github.*'] },
+  'admin-key': { id: 'admin' },
+};
+
+const authenticator: Authenticator = {
+  authenticate: async ({ apiKey }) => (apiKey ? publishers[apiKey] ?? null : null),
+};
+
+describe('HttpIngestServer', () => {
+  let ingest: HttpIngestServer;
+  let url: string;
+  let port: number;
+  let published: Array<{ event: ESMCPEvent; publisher: Principal }>;
+
+  beforeEach(async () => {
+    published = [];
+    port = await freePort();
+    ingest = new HttpIngestServer(
+      { port, host: '127.0.0.1', authenticator, maxBodyBytes: 4096 },
+      async (event, publisher) => void published.push({ event, publisher })
+    );
+    await ingest.start();
+    url = `http://127.0.0.1:${port}/events`;
+  });
+
+  afterEach(async () => {
+    await ingest.stop();
+  });
+
+  function post(body: unknown, headers: Record<string, string> = { 'X-API-Key': 'ci-key' }) {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  it('should accept and publish an allowed event', async () => {
+    const event = createEvent('github.push', { branch: 'main' }, { priority: 'normal' });
+
+    const response = await post(event);
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ eventId: event.id });
+    expect(published).toEqual([{ event, publisher: publishers['ci-key'] }]);
+  });
+
+  it.each([
+    ['no credentials', {}],
+    ['an unknown key', { 'X-API-Key': 'wrong' }],
+  ])('should reject requests with %s', async (_name, headers) => {
+    const response = await post(createEvent('github.push', {}, { priority: 'normal' }), headers);
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    expect(published).toHaveLength(0);
+  });
+
+  it('should reject event types outside the publisher\'s allowlist', async () => {
+    const response = await post(createEvent('slack.message', {}, { priority: 'normal' }));
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Publisher ci may not publish slack.message events' });
+
+    const admin = await post(createEvent('slack.message', {}, { priority: 'normal' }), { 'X-API-Key': 'admin-key' });
+    expect(admin.status).toBe(202);
+    expect(published.map(({ publisher }) => publisher.id)).toEqual(['admin']);
+  });
+
+  it('should reject malformed requests', async () => {
+    expect((await post('{not json')).status).toBe(400);
+    expect((await post({ type: 'github.push' })).status).toBe(400);
+    expect((await post('x'.repeat(5000))).status).toBe(413);
+    expect((await fetch(url)).status).toBe(405);
+    expect((await fetch(`http://127.0.0.1:${port}/other`, { method: 'POST' })).status).toBe(404);
+    expect(published).toHaveLength(0);
+  });
+
+  it('should answer requests with a malformed Host header with 400', async () => {
+    const response = await new Promise<string>((resolve, reject) => {
+      const socket = connect(port, '127.0.0.1', () => {
+        socket.write('POST //a%20b/events HTTP/1.1\r\nHost: a b\r\nContent-Length: 0\r\nConnection: close\r\n\r\n');
+      });
+      let received = '';
+      socket.on('data', (data) => (received += data.toString()));
+      socket.on('end', () => resolve(received));
+      socket.on('error', reject);
+    });
+    expect(response).toMatch(/^HTTP\/1\.1 400/);
+  });
+});
+
+describe('EventHub publishing', () => {
+  let hub: EventHub;
+  let port: number;
+  let ingestPort: number;
+  let sockets: WebSocket[];
+
+  beforeEach(async () => {
+    port = await freePort();
+    ingestPort = await freePort();
+    sockets = [];
+    hub = new EventHub({
+      port,
+      host: '127.0.0.1',
+      publishing: { authenticator, http: { port: ingestPort, host: '127.0.0.1' } },
+    });
+    await hub.start();
+  });
+
+  afterEach(async () => {
+    sockets.forEach((socket) => socket.close());
+    await hub.stop();
+  });
+
+  /**
+   * Open an initialized connection, collecting the events delivered to it
+   */
+  async function open(): Promise<{
+    call: (method: string, params: Record<string, unknown>) => Promise<JsonRpcResponse>;
+    events: ESMCPEvent[];
+  }> {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    sockets.push(socket);
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+
+    const events: ESMCPEvent[] = [];
+    const responses = new Map<number, (response: JsonRpcResponse) => void>();
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+      if (message.method === 'notifications/event') {
+        events.push(message.params.event);
+      } else {
+        responses.get(message.id)?.(message);
+      }
+    });
+
+    let nextId = 0;
+    const call = (method: string, params: Record<string, unknown>) =>
+      new Promise<JsonRpcResponse>((resolve) => {
+        const id = nextId++;
+        responses.set(id, resolve);
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+      });
+
+    await call(ASPMethods.Initialize, {
+      protocolVersion: '2025-10-01',
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    });
+    return { call, events };
+  }
+
+  async function subscriber() {
+    const connection = await open();
+    const response = await connection.call(ASPMethods.SubscriptionCreate, {
+      filter: { eventTypes: ['github.*', 'slack.*'] },
+      delivery: { channels: ['websocket'] },
+    });
+    expect(response.error).toBeUndefined();
+    return connection;
+  }
+
+  it('should fan out events published over events/publish to every subscriber', async () => {
+    const a = await subscriber();
+    const b = await subscriber();
+    const publisher = await open();
+
+    const event = createEvent('github.push', { branch: 'main' }, { priority: 'normal' });
+    const response = await publisher.call(ASPMethods.EventPublish, { event, credentials: { apiKey: 'ci-key' } });
+    expect(response.result).toEqual({ eventId: event.id });
+
+    await waitFor(() => a.events.length === 1 && b.events.length === 1);
+    expect(a.events[0]).toEqual(event);
+    expect(b.events[0]).toEqual(event);
+  });
+
+  it('should reject events/publish without valid credentials or outside the allowlist', async () => {
+    const a = await subscriber();
+    const publisher = await open();
+
+    const unauthenticated = await publisher.call(ASPMethods.EventPublish, {
+      event: createEvent('github.push', {}, { priority: 'normal' }),
+      credentials: { apiKey: 'wrong' },
+    });
+    expect(unauthenticated.error).toMatchObject({ code: ErrorCodes.Unauthorized });
+
+    const denied = await publisher.call(ASPMethods.EventPublish, {
+      event: createEvent('slack.message', {}, { priority: 'normal' }),
+      credentials: { apiKey: 'ci-key' },
+    });
+    expect(denied.error).toMatchObject({
+      code: ErrorCodes.Unauthorized,
+      message: 'Publisher ci may not publish slack.message events',
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(a.events).toHaveLength(0);
+  });
+
+  it('should fan out events POSTed to the ingest endpoint', async () => {
+    const a = await subscriber();
+    const event = createEvent('github.push', {}, { priority: 'normal' });
+
+    const response = await fetch(`http://127.0.0.1:${ingestPort}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'ci-key' },
+      body: JSON.stringify(event),
+    });
+    expect(response.status).toBe(202);
+
+    await waitFor(() => a.events.length === 1);
+    expect(a.events[0].id).toBe(event.id);
+  });
+});
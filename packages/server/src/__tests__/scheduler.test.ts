@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventScheduler, hasSchedule, validateSchedule } from '../delivery/scheduler.js';
+import type { DeliveryPreferences, ESMCPEvent, Subscription } from '@esmcp/core';
+
+function createTestEvent(id: string): ESMCPEvent {
+  return {
+    id,
+    type: 'github.push',
+    data: {},
+    metadata: {
+      timestamp: new Date().toISOString(),
+      priority: 'normal',
+    },
+  };
+}
+
+function createSubscription(delivery: DeliveryPreferences): Subscription {
+  return {
+    id: 'sub-1',
+    clientId: 'client-1',
+    filter: {},
+    delivery,
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+describe('EventScheduler', () => {
+  let delivered: string[][];
+  let completed: string[];
+  let scheduler: EventScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T10:00:00Z'));
+    delivered = [];
+    completed = [];
+    scheduler = new EventScheduler(
+      async (_subscription, events) => {
+        delivered.push(events.map((e) => e.id));
+      },
+      async (subscription) => {
+        completed.push(subscription.id);
+      }
+    );
+  });
+
+  afterEach(() => {
+    scheduler.stopAll();
+    vi.useRealTimers();
+  });
+
+  it('should deliver collected events on every cron run', async () => {
+    const subscription = createSubscription({
+      channels: ['cron'],
+      priority: 'normal',
+      cronSchedule: {
+        expression: '0 * * * *',
+        timezone: 'UTC',
+        aggregateEvents: true,
+        maxEventsPerDelivery: 2,
+      },
+    });
+    scheduler.start(subscription);
+    expect(scheduler.getNextRun('sub-1')?.toISOString()).toBe('2025-01-15T11:00:00.000Z');
+
+    scheduler.queue(createTestEvent('event-1'), subscription);
+    scheduler.queue(createTestEvent('event-2'), subscription);
+    scheduler.queue(createTestEvent('event-3'), subscription);
+    expect(scheduler.getPendingCount('sub-1')).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(delivered).toEqual([['event-2', 'event-3']]);
+
+    // Nothing collected, nothing sent
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(delivered).toHaveLength(1);
+    expect(completed).toHaveLength(0);
+  });
+
+  it('should deliver once at the scheduled time and complete', async () => {
+    const subscription = createSubscription({
+      channels: ['scheduled'],
+      priority: 'normal',
+      scheduledDelivery: {
+        deliverAt: '2025-01-15T14:00:00Z',
+        timezone: 'UTC',
+        aggregateEvents: true,
+        autoExpire: true,
+      },
+    });
+    scheduler.start(subscription);
+    scheduler.queue(createTestEvent('event-1'), subscription);
+
+    await vi.advanceTimersByTimeAsync(4 * 60 * 60 * 1000 - 1);
+    expect(delivered).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(delivered).toEqual([['event-1']]);
+    expect(completed).toEqual(['sub-1']);
+    expect(scheduler.getNextRun('sub-1')).toBeUndefined();
+  });
+
+  it('should keep events when a digest cannot be delivered', async () => {
+    let online = false;
+    scheduler = new EventScheduler(
+      async (_subscription, events) => {
+        if (!online) throw new Error('offline');
+        delivered.push(events.map((e) => e.id));
+      },
+      async () => {}
+    );
+    const subscription = createSubscription({
+      channels: ['cron'],
+      priority: 'normal',
+      cronSchedule: { expression: '@hourly', timezone: 'UTC', aggregateEvents: true, maxEventsPerDelivery: 100 },
+    });
+    scheduler.start(subscription);
+    scheduler.queue(createTestEvent('event-1'), subscription);
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(scheduler.getPendingCount('sub-1')).toBe(1);
+
+    online = true;
+    scheduler.queue(createTestEvent('event-2'), subscription);
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(delivered).toEqual([['event-1', 'event-2']]);
+  });
+
+  it('should retry a scheduled delivery that failed and complete once it succeeds', async () => {
+    let online = false;
+    scheduler = new EventScheduler(
+      async (_subscription, events) => {
+        if (!online) throw new Error('offline');
+        delivered.push(events.map((e) => e.id));
+      },
+      async (subscription) => {
+        completed.push(subscription.id);
+      },
+      { retryDelayMs: 60 * 1000 }
+    );
+    const subscription = createSubscription({
+      channels: ['scheduled'],
+      priority: 'normal',
+      scheduledDelivery: { deliverAt: '2025-01-15T11:00:00Z', timezone: 'UTC', aggregateEvents: true, autoExpire: true },
+    });
+    scheduler.start(subscription);
+    scheduler.queue(createTestEvent('event-1'), subscription);
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(completed).toHaveLength(0);
+    expect(scheduler.getPendingCount('sub-1')).toBe(1);
+    expect(scheduler.getNextRun('sub-1')?.toISOString()).toBe('2025-01-15T11:01:00.000Z');
+
+    online = true;
+    scheduler.queue(createTestEvent('event-2'), subscription);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(delivered).toEqual([['event-1', 'event-2']]);
+    expect(completed).toEqual(['sub-1']);
+    expect(scheduler.getNextRun('sub-1')).toBeUndefined();
+  });
+});
+
+describe('validateSchedule', () => {
+  it('should require a schedule for time-based channels', () => {
+    expect(validateSchedule({ channels: ['cron'], priority: 'normal' })).toMatch('cronSchedule');
+    expect(validateSchedule({ channels: ['scheduled'], priority: 'normal' })).toMatch('scheduledDelivery');
+    expect(validateSchedule({ channels: ['websocket'], priority: 'normal' })).toBeUndefined();
+  });
+
+  it('should reject invalid cron expressions', () => {
+    const delivery: DeliveryPreferences = {
+      channels: ['cron'],
+      priority: 'normal',
+      cronSchedule: { expression: 'not a cron', timezone: 'UTC', aggregateEvents: true, maxEventsPerDelivery: 100 },
+    };
+    expect(validateSchedule(delivery)).toMatch('Invalid cron expression');
+    expect(hasSchedule({ delivery })).toBe(true);
+  });
+});
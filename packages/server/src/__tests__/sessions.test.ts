@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import { ASPMethods, createEvent, type ESMCPEvent, type JsonRpcResponse } from '@esmcp/core';
+import { SessionRegistry } from '../hub/sessions.js';
+import { EventHub } from '../hub/hub.js';
+import type { DeliveryChannelAdapter } from '../delivery/channels.js';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function waitFor(condition: () => boolean | Promise<boolean>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = async () => {
+      if (await condition()) resolve();
+      else if (Date.now() - started > 2000) reject(new Error('Timed out'));
+      else setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+describe('SessionRegistry', () => {
+  let sessions: SessionRegistry;
+
+  beforeEach(() => {
+    sessions = new SessionRegistry();
+  });
+
+  it('should issue a token and resume it from a new connection', () => {
+    const { token, previousClientId } = sessions.bind('conn-1');
+    expect(token).toBeTruthy();
+    expect(previousClientId).toBeUndefined();
+
+    sessions.disconnected('conn-1');
+    expect(sessions.bind('conn-2', token)).toEqual({ token, previousClientId: 'conn-1' });
+
+    // The session now belongs to the new connection
+    expect(sessions.bind('conn-3', token)).toEqual({ token, previousClientId: 'conn-2' });
+  });
+
+  it('should keep the token when a connection initializes again', () => {
+    const { token } = sessions.bind('conn-1');
+    expect(sessions.bind('conn-1')).toEqual({ token });
+  });
+
+  it('should start a new session for unknown tokens', () => {
+    const result = sessions.bind('conn-1', 'unknown-token');
+    expect(result.token).not.toBe('unknown-token');
+    expect(result.previousClientId).toBeUndefined();
+  });
+
+  it('should only resume sessions of the same principal', () => {
+    const { token } = sessions.bind('conn-1', undefined, 'agent-1');
+    sessions.disconnected('conn-1');
+
+    expect(sessions.bind('conn-2', token, 'agent-2').previousClientId).toBeUndefined();
+    expect(sessions.bind('conn-3', token, 'agent-1').previousClientId).toBe('conn-1');
+  });
+
+  it('should prune sessions disconnected longer than the TTL', () => {
+    const first = sessions.bind('conn-1');
+    const second = sessions.bind('conn-2');
+    sessions.disconnected('conn-1');
+
+    expect(sessions.prune(0, Date.now() + 1)).toEqual(['conn-1']);
+    expect(sessions.bind('conn-3', first.token).previousClientId).toBeUndefined();
+    expect(sessions.bind('conn-4', second.token).previousClientId).toBe('conn-2');
+  });
+});
+
+describe('EventHub session pruning', () => {
+  let hub: EventHub;
+  let port: number;
+  // Events delivered on the recording channel, which reaches clients while they are offline
+  let delivered: ESMCPEvent[];
+
+  beforeEach(async () => {
+    delivered = [];
+    const recording: DeliveryChannelAdapter = {
+      channel: 'webpush',
+      isAvailable: async () => true,
+      deliver: async (event) => void delivered.push(event),
+    };
+    port = await freePort();
+    hub = new EventHub({ port, host: '127.0.0.1', sessionTtlMs: 0, channels: [recording] });
+    await hub.start();
+  });
+
+  afterEach(async () => {
+    await hub.stop();
+  });
+
+  /**
+   * Connect, send requests in order and disconnect, resolving with their results
+   */
+  async function session(requests: Array<[string, Record<string, unknown>]>): Promise<Record<string, unknown>[]> {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+
+    const results: Record<string, unknown>[] = [];
+    for (const [index, [method, params]] of requests.entries()) {
+      const response = new Promise<JsonRpcResponse>((resolve) => {
+        socket.on('message', function onMessage(data) {
+          const message = JSON.parse(data.toString()) as JsonRpcResponse;
+          if (message.id === index) {
+            socket.off('message', onMessage);
+            resolve(message);
+          }
+        });
+      });
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id: index, method, params }));
+      const { result, error } = await response;
+      expect(error).toBeUndefined();
+      results.push(result as Record<string, unknown>);
+    }
+
+    socket.close();
+    await new Promise((resolve) => socket.once('close', resolve));
+    return results;
+  }
+
+  const initialize = (sessionToken?: string): [string, Record<string, unknown>] => [
+    ASPMethods.Initialize,
+    { protocolVersion: '2025-10-01', clientInfo: { name: 'test-client', version: '1.0.0' }, sessionToken },
+  ];
+
+  it('should remove the subscriptions of pruned sessions', async () => {
+    const [{ sessionToken }] = await session([
+      initialize(),
+      [ASPMethods.SubscriptionCreate, { filter: { eventTypes: ['test.*'] }, delivery: { channels: ['webpush'] } }],
+    ]);
+
+    // The subscription outlives the connection until the session is pruned
+    await hub.publishEvent(createEvent('test.offline', {}, { priority: 'normal' }));
+    await waitFor(() => delivered.length === 1);
+
+    await waitFor(async () => (await hub.pruneSessions()).length === 1);
+    await hub.publishEvent(createEvent('test.pruned', {}, { priority: 'normal' }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(delivered.map((event) => event.type)).toEqual(['test.offline']);
+
+    const [resumed] = await session([initialize(sessionToken as string)]);
+    expect(resumed).toMatchObject({ resumed: false });
+  });
+});
@@ -139,4 +139,42 @@ describe('SubscriptionManager', () => {
       expect(matching).toHaveLength(0);
     });
   });
+
+  describe('expiry', () => {
+    const request: CreateSubscriptionRequest = {
+      filter: {},
+      delivery: { channels: ['websocket'], priority: 'normal' },
+      expiresAt: '2025-01-15T10:00:00.000Z',
+    };
+
+    it('should expire subscriptions after the grace period', async () => {
+      manager = new SubscriptionManager({ expiryGracePeriodMs: 60000 });
+      const sub = await manager.create('client-1', request);
+
+      expect(await manager.expireDue(new Date('2025-01-15T10:00:30.000Z'))).toHaveLength(0);
+
+      const expired = await manager.expireDue(new Date('2025-01-15T10:01:00.000Z'));
+      expect(expired.map((s) => s.id)).toEqual([sub.id]);
+      expect((await manager.get(sub.id))?.status).toBe('expired');
+
+      // Already expired subscriptions are not reported again
+      expect(await manager.expireDue(new Date('2025-01-15T10:02:00.000Z'))).toHaveLength(0);
+    });
+
+    it('should renew an expired subscription when expiresAt moves', async () => {
+      const sub = await manager.create('client-1', request);
+      await manager.expireDue(new Date('2025-01-15T10:00:00.000Z'));
+
+      const renewed = await manager.update(sub.id, 'client-1', {
+        expiresAt: new Date(Date.now() + 3600000).toISOString(),
+      });
+      expect(renewed?.status).toBe('active');
+
+      const other = await manager.create('client-1', request);
+      await manager.expireDue(new Date());
+      const cleared = await manager.update(other.id, 'client-1', { expiresAt: null });
+      expect(cleared?.status).toBe('active');
+      expect(cleared?.expiresAt).toBeUndefined();
+    });
+  });
 });
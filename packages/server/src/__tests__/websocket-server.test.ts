@@ -0,0 +1,69 @@
+import { describe, it, beforeAll, afterAll } from 'vitest';
+import { connect, createServer, type AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import { WebSocketServerTransport } from '../transport/websocket-server.js';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Send a raw upgrade request and resolve with whatever the server answers
+ */
+function rawUpgrade(port: number, path: string, host: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(port, '127.0.0.1', () => {
+      socket.write(
+        [
+          `GET ${path} HTTP/1.1`,
+          `Host: ${host}`,
+          'Upgrade: websocket',
+          'Connection: Upgrade',
+          'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+          'Sec-WebSocket-Version: 13',
+          '',
+          '',
+        ].join('\r\n')
+      );
+    });
+    let received = '';
+    socket.on('data', (data) => (received += data.toString('latin1')));
+    socket.on('close', () => resolve(received));
+    socket.on('error', reject);
+    setTimeout(() => socket.destroy(), 500);
+  });
+}
+
+describe('WebSocketServerTransport', () => {
+  let transport: WebSocketServerTransport;
+  let port: number;
+
+  beforeAll(async () => {
+    port = await freePort();
+    transport = new WebSocketServerTransport({ port, host: '127.0.0.1' });
+    await transport.start();
+  });
+
+  afterAll(async () => {
+    await transport.stop();
+  });
+
+  it.each([
+    ['a malformed Host header', '/', 'a b'],
+    ['a protocol-relative path with a malformed host', '//a b/', '127.0.0.1'],
+  ])('should survive %s', async (_name, path, host) => {
+    await rawUpgrade(port, path, host);
+
+    // The server still accepts connections
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/?token=abc`);
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+    socket.close();
+  });
+});
@@ -0,0 +1,35 @@
+import type { ESMCPEvent } from '@esmcp/core';
+
+/**
+ * Receives every event published on the bus, including this node's own
+ */
+export type EventBusHandler = (event: ESMCPEvent) => Promise<void>;
+
+/**
+ * Carries published events to every hub node. Each node subscribes once
+ * and delivers the events it receives to its locally connected clients.
+ */
+export interface EventBus {
+  subscribe(handler: EventBusHandler): Promise<void>;
+  publish(event: ESMCPEvent): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Single-process bus; publish resolves once the handlers have run
+ */
+export class MemoryEventBus implements EventBus {
+  private handlers: Set<EventBusHandler> = new Set();
+
+  async subscribe(handler: EventBusHandler): Promise<void> {
+    this.handlers.add(handler);
+  }
+
+  async publish(event: ESMCPEvent): Promise<void> {
+    await Promise.all(Array.from(this.handlers, (handler) => handler(event)));
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,305 @@
+import { connect, type Socket } from 'node:net';
+import { URL } from 'node:url';
+import type { ESMCPEvent } from '@esmcp/core';
+import type { EventBus, EventBusHandler } from './bus.js';
+
+export interface RedisEventBusOptions {
+  /** redis://[[username]:password@]host[:port] (default: redis://127.0.0.1:6379) */
+  url?: string;
+  /** Pub/sub channel shared by all hub nodes (default: 'esmcp:events') */
+  channel?: string;
+  /** Delay before reconnecting a dropped subscriber, doubled on each failed attempt (default: 100) */
+  reconnectDelayMs?: number;
+  /** Longest delay between reconnect attempts (default: 30000) */
+  maxReconnectDelayMs?: number;
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+}
+
+/**
+ * Parse one RESP value
+ * @returns the value and the offset after it, or undefined if incomplete
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue; next: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new Error(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, next };
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return undefined;
+        items.push(item.value);
+        position = item.next;
+      }
+      return { value: items, next: position };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type: ${type}`);
+  }
+}
+
+/**
+ * A Redis connection answering commands in order. Pub/sub messages go to
+ * onMessage instead of a pending command, and onClose is called when the
+ * connection drops without close() being called.
+ */
+class RedisConnection {
+  private socket: Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = [];
+  private closing = false;
+
+  constructor(
+    private url: URL,
+    private onMessage?: (channel: string, payload: string) => void,
+    private onClose?: () => void
+  ) {}
+
+  async open(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const socket = connect(Number(this.url.port || 6379), this.url.hostname || '127.0.0.1');
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        resolve();
+      });
+      socket.once('error', reject);
+
+      socket.on('data', (chunk) => this.receive(chunk));
+      socket.on('error', (error) => this.failPending(error));
+      socket.on('close', () => {
+        this.failPending(new Error('Redis connection closed'));
+        if (!this.closing) {
+          console.error(`Redis event bus connection to ${this.url.host} closed`);
+          this.onClose?.();
+        }
+      });
+      this.socket = socket;
+    });
+
+    if (this.url.password) {
+      const auth = this.url.username
+        ? ['AUTH', decodeURIComponent(this.url.username), decodeURIComponent(this.url.password)]
+        : ['AUTH', decodeURIComponent(this.url.password)];
+      try {
+        await this.command(auth);
+      } catch (error) {
+        await this.close();
+        throw error;
+      }
+    }
+  }
+
+  command(args: string[]): Promise<RespValue> {
+    if (!this.socket || this.socket.destroyed) {
+      return Promise.reject(new Error('Redis connection not open'));
+    }
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  close(): Promise<void> {
+    this.closing = true;
+    return new Promise((resolve) => {
+      if (!this.socket || this.socket.destroyed) {
+        resolve();
+        return;
+      }
+      this.socket.once('close', () => resolve());
+      this.socket.end();
+    });
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    let reply: ReturnType<typeof parseReply>;
+    try {
+      while (offset < this.buffer.length && (reply = parseReply(this.buffer, offset))) {
+        offset = reply.next;
+        this.dispatch(reply.value);
+      }
+    } catch (error) {
+      // Replies can no longer be matched to commands, so drop the connection
+      this.buffer = Buffer.alloc(0);
+      this.failPending(error as Error);
+      this.socket?.destroy();
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private dispatch(value: RespValue): void {
+    if (Array.isArray(value) && value[0] === 'message' && this.onMessage) {
+      this.onMessage(value[1] as string, value[2] as string);
+      return;
+    }
+
+    const pending = this.pending.shift();
+    if (!pending) return;
+    if (value instanceof Error) {
+      pending.reject(value);
+    } else {
+      pending.resolve(value);
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(({ reject }) => reject(error));
+  }
+}
+
+/**
+ * Event bus over Redis pub/sub (or any server speaking the Redis protocol),
+ * for running several hub nodes behind a load balancer.
+ *
+ * Events are fire-and-forget: a node that is not connected when an event is
+ * published does not receive it. A dropped subscriber reconnects with
+ * backoff and subscribes again.
+ */
+export class RedisEventBus implements EventBus {
+  private url: URL;
+  private channel: string;
+  private reconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private publisher: Promise<RedisConnection> | null = null;
+  private subscriber: RedisConnection | null = null;
+  private handler: EventBusHandler | null = null;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  constructor(options: RedisEventBusOptions = {}) {
+    this.url = new URL(options.url ?? 'redis://127.0.0.1:6379');
+    this.channel = options.channel ?? 'esmcp:events';
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 100;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000;
+  }
+
+  async subscribe(handler: EventBusHandler): Promise<void> {
+    this.subscriber = await this.connectSubscriber(handler);
+    this.handler = handler;
+  }
+
+  async publish(event: ESMCPEvent): Promise<void> {
+    if (!this.publisher) {
+      const connection = new RedisConnection(this.url, undefined, () => this.forgetPublisher(publisher));
+      const publisher = connection.open().then(() => connection);
+      this.publisher = publisher;
+      publisher.catch(() => this.forgetPublisher(publisher));
+    }
+    const publisher = await this.publisher;
+    await publisher.command(['PUBLISH', this.channel, JSON.stringify(event)]);
+  }
+
+  async close(): Promise<void> {
+    const subscriber = this.subscriber;
+    const publisher = this.publisher?.catch(() => null);
+    this.subscriber = null;
+    this.publisher = null;
+    this.handler = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    await Promise.all([subscriber?.close(), publisher?.then((connection) => connection?.close())]);
+  }
+
+  private async connectSubscriber(handler: EventBusHandler): Promise<RedisConnection> {
+    const subscriber: RedisConnection = new RedisConnection(
+      this.url,
+      (channel, payload) => {
+        if (channel !== this.channel) return;
+
+        let event: ESMCPEvent;
+        try {
+          event = JSON.parse(payload) as ESMCPEvent;
+        } catch {
+          console.error('Ignoring malformed event on the Redis event bus');
+          return;
+        }
+        handler(event).catch((error) => {
+          console.error(`Failed to deliver event ${event.id} from the Redis event bus:`, error);
+        });
+      },
+      () => {
+        if (this.subscriber === subscriber) {
+          this.subscriber = null;
+          this.reconnect(0);
+        }
+      }
+    );
+
+    await subscriber.open();
+    try {
+      await subscriber.command(['SUBSCRIBE', this.channel]);
+    } catch (error) {
+      await subscriber.close();
+      throw error;
+    }
+    return subscriber;
+  }
+
+  /**
+   * Subscribe again after the subscriber connection dropped
+   */
+  private reconnect(attempt: number): void {
+    const delay = Math.min(this.reconnectDelayMs * 2 ** attempt, this.maxReconnectDelayMs);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      const handler = this.handler;
+      if (!handler) return;
+
+      this.connectSubscriber(handler).then(
+        (subscriber) => {
+          if (this.handler !== handler) {
+            // Closed while reconnecting
+            void subscriber.close();
+            return;
+          }
+          this.subscriber = subscriber;
+        },
+        (error) => {
+          console.error(`Failed to reconnect the Redis event bus to ${this.url.host}:`, error);
+          this.reconnect(attempt + 1);
+        }
+      );
+    }, delay);
+  }
+
+  private forgetPublisher(publisher: Promise<RedisConnection>): void {
+    if (this.publisher === publisher) {
+      this.publisher = null;
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import type { ESMCPEvent, Subscription, APNSTransportOptions } from '@esmcp/core';
 import type { DeviceStore, Device } from '../device/store.js';
+import type { DeliveryChannelAdapter } from './channels.js';
 
 export interface APNSDeliveryOptions {
   apnsOptions: APNSTransportOptions;
@@ -38,7 +39,8 @@ export interface APNSResponse {
   reason?: string;
 }
 
-export class APNSDelivery {
+export class APNSDelivery implements DeliveryChannelAdapter {
+  readonly channel = 'apns' as const;
   private client: APNSClient | null = null;
   private deviceStore: DeviceStore;
   private apnsOptions: APNSTransportOptions;
@@ -52,13 +54,19 @@ export class APNSDelivery {
     this.client = client;
   }
 
+  async isAvailable(subscription: Subscription): Promise<boolean> {
+    if (!this.client) return false;
+    const devices = await this.listDevices(subscription.clientId);
+    return devices.length > 0;
+  }
+
   async deliver(event: ESMCPEvent, subscription: Subscription): Promise<void> {
     if (!this.client) {
       throw new Error('APNS client not configured');
     }
 
     // Get devices for this client
-    const devices = await this.deviceStore.listByClient(subscription.clientId);
+    const devices = await this.listDevices(subscription.clientId);
 
     if (devices.length === 0) {
       throw new Error('No devices registered for client');
@@ -84,6 +92,11 @@ export class APNSDelivery {
     }
   }
 
+  private async listDevices(clientId: string): Promise<Device[]> {
+    const devices = await this.deviceStore.listByClient(clientId);
+    return devices.filter((device) => device.platform !== 'web');
+  }
+
   private async sendToDevice(
     device: Device,
     notification: APNSNotification
@@ -0,0 +1,107 @@
+import type { ESMCPEvent, Subscription } from '@esmcp/core';
+
+/**
+ * Delivers the coalesced events of one subscription, oldest first
+ */
+export type BatchFlushFunction = (
+  subscription: Subscription,
+  events: ESMCPEvent[]
+) => Promise<void>;
+
+export interface EventBatcherOptions {
+  /** Interval used when a subscription has no batchInterval (default: 60000) */
+  defaultIntervalMs?: number;
+  /** Events after which a batch is flushed early (default: 100) */
+  maxBatchSize?: number;
+}
+
+interface PendingBatch {
+  subscription: Subscription;
+  events: ESMCPEvent[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Coalesces events for batch-priority subscriptions.
+ *
+ * The first event of a batch starts a timer of `delivery.batchInterval`;
+ * when it fires (or the batch reaches maxBatchSize) every buffered event is
+ * handed to the flush function at once.
+ */
+export class EventBatcher {
+  private flushFn: BatchFlushFunction;
+  private defaultIntervalMs: number;
+  private maxBatchSize: number;
+  private batches: Map<string, PendingBatch> = new Map();
+
+  constructor(flushFn: BatchFlushFunction, options: EventBatcherOptions = {}) {
+    this.flushFn = flushFn;
+    this.defaultIntervalMs = options.defaultIntervalMs ?? 60000;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+  }
+
+  /**
+   * Buffer an event for a subscription
+   */
+  async add(event: ESMCPEvent, subscription: Subscription): Promise<void> {
+    let batch = this.batches.get(subscription.id);
+    if (!batch) {
+      const interval = subscription.delivery.batchInterval ?? this.defaultIntervalMs;
+      batch = {
+        subscription,
+        events: [],
+        timer: setTimeout(() => {
+          this.flush(subscription.id).catch((error) => {
+            console.error('Batch delivery failed:', error);
+          });
+        }, interval),
+      };
+      this.batches.set(subscription.id, batch);
+    }
+
+    batch.subscription = subscription;
+    batch.events.push(event);
+
+    if (batch.events.length >= this.maxBatchSize) {
+      await this.flush(subscription.id);
+    }
+  }
+
+  /**
+   * Deliver a subscription's buffered events now
+   */
+  async flush(subscriptionId: string): Promise<void> {
+    const batch = this.take(subscriptionId);
+    if (batch) {
+      await this.flushFn(batch.subscription, batch.events);
+    }
+  }
+
+  /**
+   * Drop a subscription's buffered events without delivering them
+   */
+  discard(subscriptionId: string): void {
+    this.take(subscriptionId);
+  }
+
+  getPending(subscriptionId: string): ESMCPEvent[] {
+    return [...(this.batches.get(subscriptionId)?.events ?? [])];
+  }
+
+  /**
+   * Stop all batch timers and drop buffered events
+   */
+  stop(): void {
+    this.batches.forEach((batch) => clearTimeout(batch.timer));
+    this.batches.clear();
+  }
+
+  private take(subscriptionId: string): PendingBatch | undefined {
+    const batch = this.batches.get(subscriptionId);
+    if (batch) {
+      clearTimeout(batch.timer);
+      this.batches.delete(subscriptionId);
+    }
+    return batch;
+  }
+}
@@ -0,0 +1,155 @@
+import type {
+  DeliveryChannel,
+  ESMCPEvent,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  Principal,
+  Subscription,
+} from '@esmcp/core';
+import { createJsonRpcNotification } from '@esmcp/core';
+import type { WebSocketServerTransport } from '../transport/websocket-server.js';
+
+export interface DeliveryContext {
+  /** Delivery attempt for acknowledged delivery */
+  attempt?: number;
+}
+
+/**
+ * A delivery channel the coordinator can route events through
+ */
+export interface DeliveryChannelAdapter {
+  readonly channel: DeliveryChannel;
+  /** Whether the subscription's client can be reached on this channel right now */
+  isAvailable(subscription: Subscription): Promise<boolean>;
+  /** Deliver an event; rejects if delivery failed */
+  deliver(event: ESMCPEvent, subscription: Subscription, context?: DeliveryContext): Promise<void>;
+  /** Deliver coalesced events at once; without it the events are delivered one by one */
+  deliverBatch?(events: ESMCPEvent[], subscription: Subscription): Promise<void>;
+}
+
+/**
+ * Rewrites a notification for the client it is sent to, e.g. into the
+ * mcp-tools protocol flavour
+ */
+export type NotificationEncoder = (clientId: string, notification: JsonRpcNotification) => JsonRpcNotification;
+
+const sendAsIs: NotificationEncoder = (_clientId, notification) => notification;
+
+export function createEventNotification(
+  event: ESMCPEvent,
+  subscription: Subscription,
+  context?: DeliveryContext
+): JsonRpcNotification {
+  return createJsonRpcNotification('notifications/event', {
+    event,
+    subscriptionId: subscription.id,
+    ...(context?.attempt !== undefined && { attempt: context.attempt }),
+  });
+}
+
+export function createEventBatchNotification(
+  events: ESMCPEvent[],
+  subscription: Subscription
+): JsonRpcNotification {
+  return createJsonRpcNotification('notifications/event_batch', {
+    events,
+    subscriptionId: subscription.id,
+  });
+}
+
+export class WebSocketChannelAdapter implements DeliveryChannelAdapter {
+  readonly channel = 'websocket' as const;
+
+  constructor(
+    private transport: WebSocketServerTransport,
+    private encode: NotificationEncoder = sendAsIs
+  ) {}
+
+  async isAvailable(subscription: Subscription): Promise<boolean> {
+    const client = this.transport.getClient(subscription.clientId);
+    return !!client?.initialized && this.transport.isClientConnected(subscription.clientId);
+  }
+
+  async deliver(
+    event: ESMCPEvent,
+    subscription: Subscription,
+    context?: DeliveryContext
+  ): Promise<void> {
+    await this.transport.send(
+      subscription.clientId,
+      this.encode(subscription.clientId, createEventNotification(event, subscription, context))
+    );
+  }
+
+  async deliverBatch(events: ESMCPEvent[], subscription: Subscription): Promise<void> {
+    await this.transport.send(
+      subscription.clientId,
+      this.encode(subscription.clientId, createEventBatchNotification(events, subscription))
+    );
+  }
+}
+
+/**
+ * A client connection on an SSEChannelServer
+ */
+export interface SSEChannelClient {
+  id: string;
+  initialized: boolean;
+  /** Set when the SSE server authenticated the connection */
+  principal?: Principal;
+}
+
+/**
+ * The parts of an SSE server (e.g. SSEServer from @esmcp/sse) the hub uses.
+ * getClient may return disconnected clients whose notifications are buffered
+ * for replay.
+ */
+export interface SSEChannelServer {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  on(event: 'message', listener: (client: SSEChannelClient, message: JsonRpcRequest) => void): void;
+  on(event: 'disconnect', listener: (client: SSEChannelClient) => void): void;
+  getClient(clientId: string): SSEChannelClient | undefined;
+  isClientConnected(clientId: string): boolean;
+  markInitialized(clientId: string): void;
+  sendResponse(clientId: string, response: JsonRpcResponse): boolean;
+  sendNotification(clientId: string, notification: JsonRpcNotification): boolean;
+}
+
+export class SSEChannelAdapter implements DeliveryChannelAdapter {
+  readonly channel = 'sse' as const;
+
+  constructor(
+    private server: SSEChannelServer,
+    private encode: NotificationEncoder = sendAsIs
+  ) {}
+
+  async isAvailable(subscription: Subscription): Promise<boolean> {
+    return !!this.server.getClient(subscription.clientId)?.initialized;
+  }
+
+  async deliver(
+    event: ESMCPEvent,
+    subscription: Subscription,
+    context?: DeliveryContext
+  ): Promise<void> {
+    const sent = this.server.sendNotification(
+      subscription.clientId,
+      this.encode(subscription.clientId, createEventNotification(event, subscription, context))
+    );
+    if (!sent) {
+      throw new Error('Client not connected');
+    }
+  }
+
+  async deliverBatch(events: ESMCPEvent[], subscription: Subscription): Promise<void> {
+    const sent = this.server.sendNotification(
+      subscription.clientId,
+      this.encode(subscription.clientId, createEventBatchNotification(events, subscription))
+    );
+    if (!sent) {
+      throw new Error('Client not connected');
+    }
+  }
+}
@@ -1,27 +1,75 @@
-import type { ESMCPEvent, Subscription } from '@esmcp/core';
-import { createJsonRpcNotification } from '@esmcp/core';
+import type { DeliveryChannel, ESMCPEvent, Subscription } from '@esmcp/core';
 import type { WebSocketServerTransport } from '../transport/websocket-server.js';
 import type { APNSDelivery } from './apns.js';
+import {
+  WebSocketChannelAdapter,
+  type DeliveryChannelAdapter,
+  type DeliveryContext,
+  type NotificationEncoder,
+} from './channels.js';
+
+export interface ChannelDeliveryResult {
+  channel: DeliveryChannel;
+  success: boolean;
+  /** The channel was not attempted (not configured or client not reachable) */
+  skipped?: boolean;
+  error?: string;
+}
 
 export interface DeliveryResult {
   subscriptionId: string;
-  channel: 'websocket' | 'apns';
+  /** Channel the event was delivered on, or the last channel tried */
+  channel?: DeliveryChannel;
   success: boolean;
   error?: string;
+  /** Outcome per channel, in the order they were tried */
+  channels: ChannelDeliveryResult[];
 }
 
 export interface DeliveryCoordinatorOptions {
-  transport: WebSocketServerTransport;
+  transport?: WebSocketServerTransport;
+  /** Rewrites notifications sent on the transport */
+  encodeNotification?: NotificationEncoder;
   apnsDelivery?: APNSDelivery;
+  /** Additional channel adapters (SSE, Web Push, ...) */
+  adapters?: DeliveryChannelAdapter[];
 }
 
+/**
+ * Routes events to subscribers through registered channel adapters.
+ *
+ * Channels are tried in the order of `subscription.delivery.channels`; the
+ * first channel that delivers successfully wins.
+ */
 export class DeliveryCoordinator {
-  private transport: WebSocketServerTransport;
-  private apnsDelivery?: APNSDelivery;
+  private adapters: Map<DeliveryChannel, DeliveryChannelAdapter> = new Map();
+
+  constructor(options: DeliveryCoordinatorOptions = {}) {
+    if (options.transport) {
+      this.register(new WebSocketChannelAdapter(options.transport, options.encodeNotification));
+    }
+    if (options.apnsDelivery) {
+      this.register(options.apnsDelivery);
+    }
+    options.adapters?.forEach((adapter) => this.register(adapter));
+  }
+
+  /**
+   * Register a channel adapter, replacing any adapter for the same channel
+   */
+  register(adapter: DeliveryChannelAdapter): void {
+    this.adapters.set(adapter.channel, adapter);
+  }
+
+  unregister(channel: DeliveryChannel): boolean {
+    return this.adapters.delete(channel);
+  }
 
-  constructor(options: DeliveryCoordinatorOptions) {
-    this.transport = options.transport;
-    this.apnsDelivery = options.apnsDelivery;
+  /**
+   * Channels with a registered adapter
+   */
+  getChannels(): DeliveryChannel[] {
+    return Array.from(this.adapters.keys());
   }
 
   async deliver(
@@ -38,100 +86,75 @@ export class DeliveryCoordinator {
     return results;
   }
 
-  private async deliverToSubscription(
+  async deliverToSubscription(
     event: ESMCPEvent,
+    subscription: Subscription,
+    context?: DeliveryContext
+  ): Promise<DeliveryResult> {
+    return this.route(subscription, (adapter) => adapter.deliver(event, subscription, context));
+  }
+
+  /**
+   * Deliver coalesced events of a batch-priority subscription on one channel
+   */
+  async deliverBatchToSubscription(
+    events: ESMCPEvent[],
     subscription: Subscription
   ): Promise<DeliveryResult> {
-    const { channels } = subscription.delivery;
+    return this.route(subscription, async (adapter) => {
+      if (adapter.deliverBatch) {
+        await adapter.deliverBatch(events, subscription);
+        return;
+      }
+      for (const event of events) {
+        await adapter.deliver(event, subscription);
+      }
+    });
+  }
+
+  private async route(
+    subscription: Subscription,
+    send: (adapter: DeliveryChannelAdapter) => Promise<void>
+  ): Promise<DeliveryResult> {
+    const channels: ChannelDeliveryResult[] = [];
 
-    // Try WebSocket first if available
-    if (channels.includes('websocket')) {
-      const wsResult = await this.deliverViaWebSocket(event, subscription);
-      if (wsResult.success) {
-        return wsResult;
+    for (const channel of subscription.delivery.channels) {
+      const adapter = this.adapters.get(channel);
+      if (!adapter) {
+        channels.push({ channel, success: false, skipped: true, error: 'Channel not configured' });
+        continue;
       }
-    }
 
-    // Fall back to APNS if WebSocket failed or unavailable
-    if (channels.includes('apns') && this.apnsDelivery) {
-      return this.deliverViaAPNS(event, subscription);
+      if (!(await adapter.isAvailable(subscription))) {
+        channels.push({ channel, success: false, skipped: true, error: 'Client not reachable' });
+        continue;
+      }
+
+      try {
+        await send(adapter);
+        channels.push({ channel, success: true });
+        return {
+          subscriptionId: subscription.id,
+          channel,
+          success: true,
+          channels,
+        };
+      } catch (error) {
+        channels.push({
+          channel,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
     }
 
-    // No delivery channel available
+    const last = channels[channels.length - 1];
     return {
       subscriptionId: subscription.id,
-      channel: 'websocket',
+      channel: last?.channel,
       success: false,
-      error: 'No delivery channel available',
+      error: last?.error ?? 'No delivery channel available',
+      channels,
     };
   }
-
-  private async deliverViaWebSocket(
-    event: ESMCPEvent,
-    subscription: Subscription
-  ): Promise<DeliveryResult> {
-    const { clientId, id: subscriptionId } = subscription;
-
-    if (!this.transport.isClientConnected(clientId)) {
-      return {
-        subscriptionId,
-        channel: 'websocket',
-        success: false,
-        error: 'Client not connected',
-      };
-    }
-
-    try {
-      const notification = createJsonRpcNotification('notifications/event', {
-        event,
-        subscriptionId,
-      });
-
-      await this.transport.send(clientId, notification);
-
-      return {
-        subscriptionId,
-        channel: 'websocket',
-        success: true,
-      };
-    } catch (error) {
-      return {
-        subscriptionId,
-        channel: 'websocket',
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
-  }
-
-  private async deliverViaAPNS(
-    event: ESMCPEvent,
-    subscription: Subscription
-  ): Promise<DeliveryResult> {
-    if (!this.apnsDelivery) {
-      return {
-        subscriptionId: subscription.id,
-        channel: 'apns',
-        success: false,
-        error: 'APNS not configured',
-      };
-    }
-
-    try {
-      await this.apnsDelivery.deliver(event, subscription);
-
-      return {
-        subscriptionId: subscription.id,
-        channel: 'apns',
-        success: true,
-      };
-    } catch (error) {
-      return {
-        subscriptionId: subscription.id,
-        channel: 'apns',
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
-  }
 }
@@ -0,0 +1,63 @@
+import type { ESMCPEvent } from '@esmcp/core';
+
+export type DeadLetterReason = 'max_attempts' | 'queue_full';
+
+export interface DeadLetter {
+  id: string;
+  event: ESMCPEvent;
+  subscriptionId: string;
+  clientId: string;
+  /** Number of delivery attempts made */
+  attempts: number;
+  reason: DeadLetterReason;
+  /** Error from the last failed attempt, if any */
+  lastError?: string;
+  deadLetteredAt: string;
+}
+
+export interface DeadLetterStore {
+  add(deadLetter: DeadLetter): Promise<DeadLetter>;
+  get(id: string): Promise<DeadLetter | null>;
+  list(subscriptionId?: string): Promise<DeadLetter[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface MemoryDeadLetterStoreOptions {
+  /** Dead letters kept before the oldest are dropped (default: 1000) */
+  maxEntries?: number;
+}
+
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private deadLetters: Map<string, DeadLetter> = new Map();
+  private maxEntries: number;
+
+  constructor(options: MemoryDeadLetterStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  async add(deadLetter: DeadLetter): Promise<DeadLetter> {
+    this.deadLetters.set(deadLetter.id, deadLetter);
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.deadLetters.size > this.maxEntries) {
+      this.deadLetters.delete(this.deadLetters.keys().next().value!);
+    }
+    return deadLetter;
+  }
+
+  async get(id: string): Promise<DeadLetter | null> {
+    return this.deadLetters.get(id) || null;
+  }
+
+  async list(subscriptionId?: string): Promise<DeadLetter[]> {
+    const result = Array.from(this.deadLetters.values());
+    if (subscriptionId) {
+      return result.filter((dl) => dl.subscriptionId === subscriptionId);
+    }
+    return result;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.deadLetters.delete(id);
+  }
+}
@@ -1,2 +1,9 @@
 export * from './coordinator.js';
 export * from './apns.js';
+export * from './tracker.js';
+export * from './dead-letter.js';
+export * from './channels.js';
+export * from './webpush.js';
+export * from './queue.js';
+export * from './batcher.js';
+export * from './scheduler.js';
@@ -0,0 +1,48 @@
+import type { DeliveryPriority } from '@esmcp/core';
+
+type QueuedJob = () => Promise<void>;
+
+/**
+ * Runs delivery jobs with bounded concurrency.
+ *
+ * Realtime jobs are started ahead of any queued normal jobs; within a
+ * priority jobs run in the order they were enqueued.
+ */
+export class DeliveryQueue {
+  private realtime: QueuedJob[] = [];
+  private normal: QueuedJob[] = [];
+  private active = 0;
+
+  constructor(private concurrency = 10) {}
+
+  /**
+   * Queue a job; resolves or rejects with the job once it has run
+   */
+  enqueue<T>(priority: DeliveryPriority, job: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const lane = priority === 'realtime' ? this.realtime : this.normal;
+      lane.push(() => job().then(resolve, reject));
+      this.drain();
+    });
+  }
+
+  /**
+   * Jobs waiting to start
+   */
+  get size(): number {
+    return this.realtime.length + this.normal.length;
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency) {
+      const next = this.realtime.shift() ?? this.normal.shift();
+      if (!next) return;
+
+      this.active++;
+      next().finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { Cron } from 'croner';
+import type { DeliveryPreferences, ESMCPEvent, Subscription } from '@esmcp/core';
+
+/**
+ * Delivers the events collected for a subscription since its last run.
+ * Rejecting keeps the events queued for the next run.
+ */
+export type DigestDeliveryFunction = (
+  subscription: Subscription,
+  events: ESMCPEvent[]
+) => Promise<void>;
+
+/**
+ * Called after a one-time scheduled delivery succeeded
+ */
+export type ScheduleCompleteFunction = (subscription: Subscription) => Promise<void>;
+
+export interface EventSchedulerOptions {
+  /** Events kept per subscription when the schedule sets no limit; the oldest are dropped (default: 1000) */
+  maxEventsPerSubscription?: number;
+  /** Delay before a failed one-time scheduled delivery is retried (default: 60000) */
+  retryDelayMs?: number;
+}
+
+interface ScheduledJob {
+  subscription: Subscription;
+  cronJob?: Cron;
+  timer?: NodeJS.Timeout;
+  nextRun?: Date;
+}
+
+// setTimeout fires immediately for delays above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Whether a subscription is delivered on a schedule (cron or scheduled channel)
+ */
+export function hasSchedule(subscription: Pick<Subscription, 'delivery'>): boolean {
+  const { delivery } = subscription;
+  return (
+    (delivery.channels.includes('cron') && !!delivery.cronSchedule) ||
+    (delivery.channels.includes('scheduled') && !!delivery.scheduledDelivery)
+  );
+}
+
+/**
+ * Check that the schedule configuration matches the requested channels
+ * @returns an error message, or undefined if valid
+ */
+export function validateSchedule(delivery: DeliveryPreferences): string | undefined {
+  if (delivery.channels.includes('cron')) {
+    if (!delivery.cronSchedule) {
+      return 'cronSchedule is required for the cron channel';
+    }
+    try {
+      new Cron(delivery.cronSchedule.expression, {
+        timezone: delivery.cronSchedule.timezone || 'UTC',
+        paused: true,
+      }).stop();
+    } catch (error) {
+      return `Invalid cron expression: ${error instanceof Error ? error.message : delivery.cronSchedule.expression}`;
+    }
+  }
+
+  if (delivery.channels.includes('scheduled') && !delivery.scheduledDelivery) {
+    return 'scheduledDelivery is required for the scheduled channel';
+  }
+
+  return undefined;
+}
+
+/**
+ * Collects events for cron and one-time scheduled subscriptions and hands
+ * them to the delivery function when the schedule fires.
+ */
+export class EventScheduler {
+  private deliverFn: DigestDeliveryFunction;
+  private onComplete: ScheduleCompleteFunction;
+  private maxEventsPerSubscription: number;
+  private retryDelayMs: number;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private pending: Map<string, ESMCPEvent[]> = new Map();
+
+  constructor(
+    deliverFn: DigestDeliveryFunction,
+    onComplete: ScheduleCompleteFunction,
+    options: EventSchedulerOptions = {}
+  ) {
+    this.deliverFn = deliverFn;
+    this.onComplete = onComplete;
+    this.maxEventsPerSubscription = options.maxEventsPerSubscription ?? 1000;
+    this.retryDelayMs = options.retryDelayMs ?? 60000;
+  }
+
+  /**
+   * Start (or restart) the schedule of a subscription; queued events are kept
+   */
+  start(subscription: Subscription): void {
+    this.stop(subscription.id);
+
+    const { cronSchedule, scheduledDelivery, channels } = subscription.delivery;
+    if (channels.includes('cron') && cronSchedule) {
+      const cronJob = new Cron(
+        cronSchedule.expression,
+        { timezone: cronSchedule.timezone || 'UTC' },
+        () => void this.run(subscription.id)
+      );
+      this.jobs.set(subscription.id, { subscription, cronJob });
+    } else if (channels.includes('scheduled') && scheduledDelivery) {
+      const job: ScheduledJob = { subscription, nextRun: new Date(scheduledDelivery.deliverAt) };
+      this.jobs.set(subscription.id, job);
+      this.arm(job);
+    }
+  }
+
+  /**
+   * Stop the schedule of a subscription, keeping its queued events
+   */
+  stop(subscriptionId: string): void {
+    const job = this.jobs.get(subscriptionId);
+    if (!job) return;
+
+    job.cronJob?.stop();
+    if (job.timer) {
+      clearTimeout(job.timer);
+    }
+    this.jobs.delete(subscriptionId);
+  }
+
+  /**
+   * Stop the schedule of a subscription and discard its queued events
+   */
+  remove(subscriptionId: string): void {
+    this.stop(subscriptionId);
+    this.pending.delete(subscriptionId);
+  }
+
+  /**
+   * Queue an event until the subscription's next run
+   */
+  queue(event: ESMCPEvent, subscription: Subscription): void {
+    let events = this.pending.get(subscription.id);
+    if (!events) {
+      events = [];
+      this.pending.set(subscription.id, events);
+    }
+
+    events.push(event);
+    const max =
+      subscription.delivery.cronSchedule?.maxEventsPerDelivery ?? this.maxEventsPerSubscription;
+    if (events.length > max) {
+      events.splice(0, events.length - max);
+    }
+  }
+
+  getPendingCount(subscriptionId: string): number {
+    return this.pending.get(subscriptionId)?.length ?? 0;
+  }
+
+  getNextRun(subscriptionId: string): Date | undefined {
+    const job = this.jobs.get(subscriptionId);
+    if (!job) return undefined;
+    return job.cronJob ? job.cronJob.nextRun() ?? undefined : job.nextRun;
+  }
+
+  /**
+   * Stop all schedules
+   */
+  stopAll(): void {
+    for (const id of Array.from(this.jobs.keys())) {
+      this.stop(id);
+    }
+  }
+
+  private arm(job: ScheduledJob): void {
+    const delay = job.nextRun!.getTime() - Date.now();
+    job.timer = setTimeout(
+      () => {
+        job.timer = undefined;
+        if (job.nextRun!.getTime() > Date.now()) {
+          this.arm(job);
+          return;
+        }
+        const id = job.subscription.id;
+        this.run(id, job.subscription)
+          .then((delivered) => {
+            // Stopped or restarted while delivering
+            if (this.jobs.get(id) !== job) return;
+
+            if (!delivered) {
+              // The events are queued again; retry until a delivery succeeds
+              job.nextRun = new Date(Date.now() + this.retryDelayMs);
+              this.arm(job);
+              return;
+            }
+            this.stop(id);
+            this.pending.delete(id);
+            return this.onComplete(job.subscription);
+          })
+          .catch((error) => {
+            console.error(`Scheduled delivery failed for subscription ${id}:`, error);
+          });
+      },
+      Math.max(0, Math.min(delay, MAX_TIMER_DELAY))
+    );
+  }
+
+  /**
+   * Deliver the queued events of a subscription
+   * @returns false if the delivery failed and the events were queued again
+   */
+  private async run(subscriptionId: string, subscription?: Subscription): Promise<boolean> {
+    const target = subscription ?? this.jobs.get(subscriptionId)?.subscription;
+    const events = this.pending.get(subscriptionId);
+    if (!target || !events || events.length === 0) {
+      return true;
+    }
+
+    this.pending.delete(subscriptionId);
+    try {
+      await this.deliverFn(target, events);
+      return true;
+    } catch (error) {
+      // Put the events back ahead of anything queued meanwhile
+      this.pending.set(subscriptionId, [...events, ...(this.pending.get(subscriptionId) ?? [])]);
+      console.error(`Digest delivery failed for subscription ${subscriptionId}:`, error);
+      return false;
+    }
+  }
+}
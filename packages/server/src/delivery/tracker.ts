@@ -0,0 +1,250 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ESMCPEvent, Subscription } from '@esmcp/core';
+import {
+  MemoryDeadLetterStore,
+  type DeadLetterReason,
+  type DeadLetterStore,
+} from './dead-letter.js';
+
+export interface PendingDelivery {
+  event: ESMCPEvent;
+  subscriptionId: string;
+  clientId: string;
+  /** Delivery attempts made so far */
+  attempts: number;
+  queuedAt: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Sends one delivery attempt.
+ * Resolves false when the client is unavailable (the event stays queued
+ * until the client re-initializes); rejects when the attempt failed.
+ */
+export type DeliverFunction = (delivery: PendingDelivery) => Promise<boolean>;
+
+export interface DeliveryTrackerOptions {
+  /** Time to wait for an acknowledgement before the first redelivery (default: 10000) */
+  ackTimeoutMs?: number;
+  /** Multiplier applied to the wait after every attempt (default: 2) */
+  backoffMultiplier?: number;
+  /** Upper bound for the wait between attempts (default: 300000) */
+  maxBackoffMs?: number;
+  /** Attempts before an unacknowledged event is dead-lettered (default: 5) */
+  maxAttempts?: number;
+  /** Unacknowledged events kept per subscription; the oldest is dead-lettered beyond this (default: 1000) */
+  maxPendingPerSubscription?: number;
+  /** Where dead-lettered events go (default: in-memory) */
+  deadLetterStore?: DeadLetterStore;
+}
+
+/**
+ * Tracks unacknowledged deliveries for at-least-once semantics.
+ *
+ * Every tracked event is redelivered with exponential backoff until the client
+ * acknowledges it or maxAttempts is reached, at which point it is moved to the
+ * dead-letter store. Attempts are not consumed while the client is offline.
+ */
+export class DeliveryTracker {
+  readonly deadLetterStore: DeadLetterStore;
+  private deliverFn: DeliverFunction;
+  private ackTimeoutMs: number;
+  private backoffMultiplier: number;
+  private maxBackoffMs: number;
+  private maxAttempts: number;
+  private maxPendingPerSubscription: number;
+  // subscriptionId -> eventId -> delivery, in delivery order
+  private pending: Map<string, Map<string, PendingDelivery>> = new Map();
+  private timers: Map<PendingDelivery, NodeJS.Timeout> = new Map();
+
+  constructor(deliverFn: DeliverFunction, options: DeliveryTrackerOptions = {}) {
+    this.deliverFn = deliverFn;
+    this.ackTimeoutMs = options.ackTimeoutMs ?? 10000;
+    this.backoffMultiplier = options.backoffMultiplier ?? 2;
+    this.maxBackoffMs = options.maxBackoffMs ?? 300000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.maxPendingPerSubscription = options.maxPendingPerSubscription ?? 1000;
+    this.deadLetterStore = options.deadLetterStore ?? new MemoryDeadLetterStore();
+  }
+
+  /**
+   * Queue an event for a subscription and attempt delivery
+   */
+  async track(event: ESMCPEvent, subscription: Subscription): Promise<void> {
+    let queue = this.pending.get(subscription.id);
+    if (!queue) {
+      queue = new Map();
+      this.pending.set(subscription.id, queue);
+    }
+
+    const delivery: PendingDelivery = {
+      event,
+      subscriptionId: subscription.id,
+      clientId: subscription.clientId,
+      attempts: 0,
+      queuedAt: new Date().toISOString(),
+    };
+    queue.set(event.id, delivery);
+
+    while (queue.size > this.maxPendingPerSubscription) {
+      const oldest = queue.values().next().value as PendingDelivery;
+      await this.deadLetter(oldest, 'queue_full');
+    }
+
+    await this.attempt(delivery);
+  }
+
+  /**
+   * Record an acknowledgement
+   * @returns true if the event was awaiting acknowledgement
+   */
+  acknowledge(subscriptionId: string, eventId: string): boolean {
+    const delivery = this.pending.get(subscriptionId)?.get(eventId);
+    if (!delivery) {
+      return false;
+    }
+    this.forget(delivery);
+    return true;
+  }
+
+  /**
+   * Redeliver the backlog of a client, oldest first (after it re-initializes)
+   */
+  async flush(clientId: string): Promise<void> {
+    for (const delivery of this.listByClient(clientId)) {
+      this.clearTimer(delivery);
+      await this.attempt(delivery);
+    }
+  }
+
+  /**
+   * Stop redelivery timers for a client that went offline
+   */
+  suspend(clientId: string): void {
+    for (const delivery of this.listByClient(clientId)) {
+      this.clearTimer(delivery);
+    }
+  }
+
+  /**
+   * Move the backlog of a client to the client ID of its new connection
+   */
+  reassign(fromClientId: string, toClientId: string): void {
+    for (const delivery of this.listByClient(fromClientId)) {
+      delivery.clientId = toClientId;
+    }
+  }
+
+  /**
+   * Forget all pending deliveries of a removed subscription
+   */
+  drop(subscriptionId: string): void {
+    const queue = this.pending.get(subscriptionId);
+    if (!queue) return;
+
+    queue.forEach((delivery) => this.clearTimer(delivery));
+    this.pending.delete(subscriptionId);
+  }
+
+  getPending(subscriptionId: string): PendingDelivery[] {
+    return Array.from(this.pending.get(subscriptionId)?.values() ?? []);
+  }
+
+  /**
+   * Stop all redelivery timers
+   */
+  stop(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private async attempt(delivery: PendingDelivery): Promise<void> {
+    if (delivery.attempts >= this.maxAttempts) {
+      await this.deadLetter(delivery, 'max_attempts');
+      return;
+    }
+
+    let sent: boolean;
+    try {
+      sent = await this.deliverFn({ ...delivery, attempts: delivery.attempts + 1 });
+      delivery.lastError = undefined;
+    } catch (error) {
+      sent = true;
+      delivery.lastError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    // Client unavailable - wait for flush() instead of consuming attempts
+    if (!sent || !this.isPending(delivery)) {
+      return;
+    }
+
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+
+    const wait = Math.min(
+      this.ackTimeoutMs * Math.pow(this.backoffMultiplier, delivery.attempts - 1),
+      this.maxBackoffMs
+    );
+    this.timers.set(
+      delivery,
+      setTimeout(() => {
+        this.timers.delete(delivery);
+        if (this.isPending(delivery)) {
+          this.attempt(delivery).catch((error) => {
+            console.error('Redelivery failed:', error);
+          });
+        }
+      }, wait)
+    );
+  }
+
+  private async deadLetter(delivery: PendingDelivery, reason: DeadLetterReason): Promise<void> {
+    this.forget(delivery);
+    await this.deadLetterStore.add({
+      id: uuidv4(),
+      event: delivery.event,
+      subscriptionId: delivery.subscriptionId,
+      clientId: delivery.clientId,
+      attempts: delivery.attempts,
+      reason,
+      lastError: delivery.lastError,
+      deadLetteredAt: new Date().toISOString(),
+    });
+  }
+
+  private forget(delivery: PendingDelivery): void {
+    this.clearTimer(delivery);
+    const queue = this.pending.get(delivery.subscriptionId);
+    if (!queue) return;
+
+    queue.delete(delivery.event.id);
+    if (queue.size === 0) {
+      this.pending.delete(delivery.subscriptionId);
+    }
+  }
+
+  private isPending(delivery: PendingDelivery): boolean {
+    return this.pending.get(delivery.subscriptionId)?.get(delivery.event.id) === delivery;
+  }
+
+  private clearTimer(delivery: PendingDelivery): void {
+    const timer = this.timers.get(delivery);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(delivery);
+    }
+  }
+
+  private listByClient(clientId: string): PendingDelivery[] {
+    const result: PendingDelivery[] = [];
+    this.pending.forEach((queue) => {
+      queue.forEach((delivery) => {
+        if (delivery.clientId === clientId) {
+          result.push(delivery);
+        }
+      });
+    });
+    return result;
+  }
+}
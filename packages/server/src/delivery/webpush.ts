@@ -0,0 +1,111 @@
+import type { ESMCPEvent, Subscription, WebPushKeys } from '@esmcp/core';
+import type { DeviceStore, Device } from '../device/store.js';
+import type { DeliveryChannelAdapter } from './channels.js';
+
+/**
+ * The parts of a Web Push client (e.g. WebPushClient from @esmcp/webpush) used for delivery
+ */
+export interface WebPushSender {
+  send(
+    subscription: { endpoint: string; keys: WebPushKeys },
+    payload: WebPushEventPayload,
+    options?: { ttl?: number; urgency?: 'very-low' | 'low' | 'normal' | 'high'; topic?: string }
+  ): Promise<{ success: boolean; statusCode?: number; error?: string }>;
+}
+
+export interface WebPushEventPayload {
+  title: string;
+  body?: string;
+  tag?: string;
+  data?: Record<string, unknown>;
+  timestamp?: number;
+}
+
+export interface WebPushDeliveryOptions {
+  client: WebPushSender;
+  deviceStore: DeviceStore;
+  /** Seconds the push service keeps undelivered messages (default: 86400) */
+  ttl?: number;
+}
+
+export class WebPushDelivery implements DeliveryChannelAdapter {
+  readonly channel = 'webpush' as const;
+  private client: WebPushSender;
+  private deviceStore: DeviceStore;
+  private ttl: number;
+
+  constructor(options: WebPushDeliveryOptions) {
+    this.client = options.client;
+    this.deviceStore = options.deviceStore;
+    this.ttl = options.ttl ?? 86400;
+  }
+
+  async isAvailable(subscription: Subscription): Promise<boolean> {
+    const devices = await this.listDevices(subscription.clientId);
+    return devices.length > 0;
+  }
+
+  async deliver(event: ESMCPEvent, subscription: Subscription): Promise<void> {
+    const devices = await this.listDevices(subscription.clientId);
+
+    if (devices.length === 0) {
+      throw new Error('No push subscriptions registered for client');
+    }
+
+    const payload = this.buildPayload(event, subscription);
+    const results = await Promise.allSettled(
+      devices.map((device) => this.sendToDevice(device, payload, subscription))
+    );
+
+    if (!results.some((result) => result.status === 'fulfilled')) {
+      throw new Error('Failed to deliver to any push subscription');
+    }
+  }
+
+  private async listDevices(clientId: string): Promise<Device[]> {
+    const devices = await this.deviceStore.listByClient(clientId);
+    return devices.filter((device) => device.platform === 'web' && device.keys);
+  }
+
+  private async sendToDevice(
+    device: Device,
+    payload: WebPushEventPayload,
+    subscription: Subscription
+  ): Promise<void> {
+    const response = await this.client.send(
+      { endpoint: device.token, keys: device.keys! },
+      payload,
+      {
+        ttl: this.ttl,
+        urgency: subscription.delivery.priority === 'realtime' ? 'high' : 'normal',
+      }
+    );
+
+    if (!response.success) {
+      // 404/410: the push subscription expired or was revoked
+      if (response.statusCode === 404 || response.statusCode === 410) {
+        await this.deviceStore.delete(device.id);
+      }
+
+      throw new Error(`Web Push error: ${response.error || response.statusCode}`);
+    }
+  }
+
+  private buildPayload(event: ESMCPEvent, subscription: Subscription): WebPushEventPayload {
+    const entries = Object.entries(event.data).slice(0, 3);
+
+    return {
+      title: event.type,
+      body: entries.map(([k, v]) => `${k}: ${String(v).slice(0, 30)}`).join(', '),
+      tag: event.id,
+      data: {
+        esmcp: {
+          eventId: event.id,
+          eventType: event.type,
+          subscriptionId: subscription.id,
+        },
+      },
+      timestamp: new Date(event.metadata.timestamp).getTime(),
+    };
+  }
+}
@@ -1,9 +1,14 @@
+import type { WebPushKeys } from '@esmcp/core';
+
 export interface Device {
   id: string;
   clientId: string;
   token: string;
-  platform: 'ios' | 'macos';
-  bundleId: string;
+  platform: 'ios' | 'macos' | 'web';
+  /** App bundle identifier (APNS devices) */
+  bundleId?: string;
+  /** Push subscription keys (Web Push devices, token is the endpoint) */
+  keys?: WebPushKeys;
   createdAt: string;
   updatedAt: string;
 }
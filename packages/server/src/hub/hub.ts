@@ -1,15 +1,24 @@
 import { v4 as uuidv4 } from 'uuid';
 import type {
   JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
   ServerInfo,
   ServerCapabilities,
   InitializeResult,
   ESMCPEvent,
+  Subscription,
   ASPCapabilities,
   ASPSchemaResponse,
+  APNSTransportOptions,
+  AuthCredentials,
+  Authenticator,
+  EventFilter,
+  Principal,
+  MCPInitializeResult,
+  MCPEProtocolVersion,
 } from '@esmcp/core';
 import {
-  PROTOCOL_VERSION,
   createJsonRpcResponse,
   createJsonRpcError,
   createJsonRpcNotification,
@@ -20,6 +29,7 @@ import {
   SubscriptionListParamsSchema,
   SubscriptionUpdateParamsSchema,
   EventAcknowledgeParamsSchema,
+  EventPublishParamsSchema,
   DeviceRegisterParamsSchema,
   DeviceInvalidateParamsSchema,
   SubscriptionPauseParamsSchema,
@@ -27,14 +37,49 @@ import {
   SchemaRequestParamsSchema,
   ASPMethods,
   ASP_PROTOCOL_VERSION,
-  ASPOperationDefinitions,
+  MCPE_PROTOCOL_VERSIONS,
+  getMCPECapabilitiesForVersion,
+  getMCPEOperationsForVersion,
+  negotiateProtocolVersion,
+  isFilterAllowed,
+  isEventTypeAllowed,
+  MCPMethods,
+  MCPToolCallParamsSchema,
+  flavourOfProtocolVersion,
+  getMCPEToolDefinitions,
+  resultToToolResult,
+  toMcpToolsNotification,
+  toolCallToRequest,
 } from '@esmcp/core';
-import {
-  WebSocketServerTransport,
-  ClientConnection,
-} from '../transport/websocket-server.js';
+import { WebSocketServerTransport } from '../transport/websocket-server.js';
+import { HttpIngestServer } from '../transport/http-ingest.js';
+import { MemoryEventBus, type EventBus } from '../bus/bus.js';
 import { SubscriptionManager } from '../subscription/manager.js';
 import { DeviceStore, MemoryDeviceStore, Device } from '../device/store.js';
+import { SessionRegistry } from './sessions.js';
+import {
+  DeliveryTracker,
+  type DeliveryTrackerOptions,
+  type PendingDelivery,
+} from '../delivery/tracker.js';
+import type { DeadLetter } from '../delivery/dead-letter.js';
+import { DeliveryCoordinator, type DeliveryResult } from '../delivery/coordinator.js';
+import {
+  SSEChannelAdapter,
+  type DeliveryChannelAdapter,
+  type NotificationEncoder,
+  type SSEChannelServer,
+} from '../delivery/channels.js';
+import { APNSDelivery, type APNSClient } from '../delivery/apns.js';
+import { WebPushDelivery, type WebPushSender } from '../delivery/webpush.js';
+import { DeliveryQueue } from '../delivery/queue.js';
+import { EventBatcher, type EventBatcherOptions } from '../delivery/batcher.js';
+import {
+  EventScheduler,
+  hasSchedule,
+  validateSchedule,
+  type EventSchedulerOptions,
+} from '../delivery/scheduler.js';
 
 export interface EventHubOptions {
   port: number;
@@ -42,19 +87,124 @@ export interface EventHubOptions {
   path?: string;
   serverInfo?: ServerInfo;
   maxSubscriptionsPerClient?: number;
-  /** Enable APNS push notifications */
+  /** Enable APNS push notifications (default: whether `apns` is configured) */
   apnsEnabled?: boolean;
-  /** Enable WebPush notifications */
+  /** Enable WebPush notifications (default: whether `webPushClient` is configured) */
   webPushEnabled?: boolean;
+  /**
+   * SSE server whose clients are served by this hub (e.g. SSEServer from
+   * @esmcp/sse). It is started and stopped with the hub.
+   */
+  sseServer?: SSEChannelServer;
+  /** Client for the webpush channel (e.g. WebPushClient from @esmcp/webpush) */
+  webPushClient?: WebPushSender;
+  /** Client and credentials for the apns channel */
+  apns?: { client: APNSClient; options: APNSTransportOptions };
+  /** Additional delivery channel adapters */
+  channels?: DeliveryChannelAdapter[];
+  /**
+   * Redelivery policy for clients that initialize with
+   * `capabilities.acknowledgements` (at-least-once delivery)
+   */
+  acknowledgements?: DeliveryTrackerOptions;
+  /** Coalescing of events for subscriptions with batch priority */
+  batching?: EventBatcherOptions;
+  /** Deliveries in flight at once; realtime deliveries queue ahead of normal ones (default: 10) */
+  deliveryConcurrency?: number;
+  /** Event collection for cron and scheduled subscriptions */
+  scheduler?: EventSchedulerOptions;
+  /**
+   * How long a disconnected client can resume its session with the
+   * sessionToken from its initialize result; its subscriptions and devices
+   * are removed afterwards (default: while the hub runs)
+   */
+  sessionTtlMs?: number;
+  /** Enforcement of subscription expiresAt */
+  expiry?: {
+    /** How often expired subscriptions are swept (default: 60000) */
+    sweepIntervalMs?: number;
+    /** How long a subscription keeps matching after expiresAt, to allow renewal (default: 0) */
+    gracePeriodMs?: number;
+  };
+  /**
+   * Require clients to authenticate. Credentials come from the initialize
+   * params or the connection request; SSE connections already
+   * authenticated by their SSEServer are accepted as they are.
+   */
+  authenticator?: Authenticator;
+  /**
+   * Whether an authenticated principal may subscribe with a filter
+   * (default: isFilterAllowed, which applies the principal's allowed event
+   * types and tags)
+   */
+  authorizeSubscription?: (principal: Principal, filter: EventFilter) => boolean | Promise<boolean>;
+  /**
+   * Accept events from external producers via `events/publish` and,
+   * optionally, an HTTP ingest endpoint (disabled by default)
+   */
+  publishing?: {
+    /**
+     * Authenticates publishers, separately from subscribers. A publisher's
+     * allowedEventTypes limit the event types it may publish.
+     */
+    authenticator: Authenticator;
+    /** Serve HttpIngestServer on its own port */
+    http?: { port: number; host?: string; path?: string };
+  };
+  /**
+   * Carries published events to every hub node, each delivering them to its
+   * own clients (default: MemoryEventBus, a single node)
+   */
+  bus?: EventBus;
+}
+
+/**
+ * A client connection on one of the hub's transports
+ */
+interface HubClient {
+  id: string;
+  initialized: boolean;
+  /** Credentials from the connection request */
+  credentials?: AuthCredentials;
+  principal?: Principal;
+}
+
+/**
+ * How the hub answers requests on a transport
+ */
+interface HubClientTransport {
+  send(clientId: string, response: JsonRpcResponse): Promise<void>;
+  markInitialized(clientId: string): void;
 }
 
 export class EventHub {
   private transport: WebSocketServerTransport;
+  private sseServer?: SSEChannelServer;
+  private deliveryCoordinator: DeliveryCoordinator;
   private subscriptionManager: SubscriptionManager;
   private deviceStore: DeviceStore;
   private serverInfo: ServerInfo;
   private serverCapabilities: ServerCapabilities;
   private aspCapabilities: ASPCapabilities;
+  private deliveryTracker: DeliveryTracker;
+  private deliveryQueue: DeliveryQueue;
+  private batcher: EventBatcher;
+  private scheduler: EventScheduler;
+  private expirySweepIntervalMs: number;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private sessions: SessionRegistry = new SessionRegistry();
+  private sessionTtlMs?: number;
+  private authenticator?: Authenticator;
+  private authorizeSubscription: (principal: Principal, filter: EventFilter) => boolean | Promise<boolean>;
+  private publisherAuthenticator?: Authenticator;
+  private ingestServer?: HttpIngestServer;
+  private bus: EventBus;
+  // Clients that acknowledge events
+  private ackClients: Set<string> = new Set();
+  // Clients speaking the mcp-tools protocol flavour (MCP clients such as EventsClient)
+  private mcpToolClients: Set<string> = new Set();
+  // Protocol version negotiated with each jsonrpc flavour client
+  private protocolVersions: Map<string, MCPEProtocolVersion> = new Map();
 
   constructor(options: EventHubOptions) {
     this.transport = new WebSocketServerTransport({
@@ -65,9 +215,63 @@ export class EventHub {
 
     this.subscriptionManager = new SubscriptionManager({
       maxSubscriptionsPerClient: options.maxSubscriptionsPerClient ?? 100,
+      expiryGracePeriodMs: options.expiry?.gracePeriodMs,
     });
+    this.expirySweepIntervalMs = options.expiry?.sweepIntervalMs ?? 60000;
+    this.sessionTtlMs = options.sessionTtlMs;
+    this.authenticator = options.authenticator;
+    this.authorizeSubscription = options.authorizeSubscription ?? isFilterAllowed;
+    this.bus = options.bus ?? new MemoryEventBus();
+    this.publisherAuthenticator = options.publishing?.authenticator;
+    if (options.publishing?.http) {
+      this.ingestServer = new HttpIngestServer(
+        { ...options.publishing.http, authenticator: options.publishing.authenticator },
+        (event) => this.publishEvent(event)
+      );
+    }
 
     this.deviceStore = new MemoryDeviceStore();
+    this.sseServer = options.sseServer;
+
+    const encodeNotification: NotificationEncoder = (clientId, notification) =>
+      this.encodeNotification(clientId, notification);
+    this.deliveryCoordinator = new DeliveryCoordinator({
+      transport: this.transport,
+      encodeNotification,
+      adapters: options.channels,
+    });
+    if (this.sseServer) {
+      this.deliveryCoordinator.register(new SSEChannelAdapter(this.sseServer, encodeNotification));
+    }
+    if (options.webPushClient) {
+      this.deliveryCoordinator.register(
+        new WebPushDelivery({ client: options.webPushClient, deviceStore: this.deviceStore })
+      );
+    }
+    if (options.apns) {
+      const apnsDelivery = new APNSDelivery({
+        apnsOptions: options.apns.options,
+        deviceStore: this.deviceStore,
+      });
+      apnsDelivery.setClient(options.apns.client);
+      this.deliveryCoordinator.register(apnsDelivery);
+    }
+    const channels = this.deliveryCoordinator.getChannels();
+
+    this.deliveryQueue = new DeliveryQueue(options.deliveryConcurrency);
+    this.batcher = new EventBatcher(
+      (subscription, events) => this.deliverBatch(subscription, events),
+      options.batching
+    );
+    this.scheduler = new EventScheduler(
+      (subscription, events) => this.deliverDigest(subscription, events),
+      (subscription) => this.completeSchedule(subscription),
+      options.scheduler
+    );
+    this.deliveryTracker = new DeliveryTracker(
+      (delivery) => this.deliverTracked(delivery),
+      options.acknowledgements
+    );
 
     this.serverInfo = options.serverInfo ?? {
       name: 'ASP Hub',
@@ -94,15 +298,21 @@ export class EventHub {
         supportsWildcardTypes: true,
         supportsTagFiltering: true,
         supportsPriorityFiltering: true,
+        supportsDataFiltering: true,
       },
       delivery: {
-        supportedChannels: ['websocket', 'sse', 'webpush', 'apns'],
+        supportedChannels: [...channels, 'cron', 'scheduled'],
         supportedPriorities: ['realtime', 'normal', 'batch'],
         supportsMultiChannel: true,
       },
       push: {
-        apnsEnabled: options.apnsEnabled ?? false,
-        webPushEnabled: options.webPushEnabled ?? false,
+        apnsEnabled: options.apnsEnabled ?? channels.includes('apns'),
+        webPushEnabled: options.webPushEnabled ?? channels.includes('webpush'),
+      },
+      scheduling: {
+        cronEnabled: true,
+        scheduledEnabled: true,
+        cronPresets: ['@hourly', '@daily', '@weekly', '@monthly'],
       },
     };
 
@@ -110,152 +320,486 @@ export class EventHub {
   }
 
   async start(): Promise<void> {
+    await this.bus.subscribe((event) => this.deliverLocally(event));
     await this.transport.start();
+    await this.sseServer?.start();
+    await this.ingestServer?.start();
+
+    this.expiryTimer = setInterval(() => {
+      this.sweepExpired().catch((error) => {
+        console.error('Expiry sweep failed:', error);
+      });
+      this.pruneSessions().catch((error) => {
+        console.error('Session pruning failed:', error);
+      });
+    }, this.expirySweepIntervalMs);
   }
 
   async stop(): Promise<void> {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    this.deliveryTracker.stop();
+    this.batcher.stop();
+    this.scheduler.stopAll();
+    await this.ingestServer?.stop();
+    await this.sseServer?.stop();
     await this.transport.stop();
+    await this.bus.close();
   }
 
+  /**
+   * Publish an event to the subscribers on every node sharing the hub's bus
+   */
   async publishEvent(event: ESMCPEvent): Promise<void> {
+    await this.bus.publish(event);
+  }
+
+  /**
+   * Deliver an event from the bus to the subscriptions of this node's clients
+   */
+  private async deliverLocally(event: ESMCPEvent): Promise<void> {
     const matchingSubscriptions =
       await this.subscriptionManager.findMatchingSubscriptions(event);
 
-    for (const subscription of matchingSubscriptions) {
-      const notification = createJsonRpcNotification('notifications/event', {
-        event,
+    await Promise.all(
+      matchingSubscriptions.map(async (subscription) => {
+        // Cron and scheduled subscriptions receive events as a digest when their schedule fires
+        if (hasSchedule(subscription)) {
+          this.scheduler.queue(event, subscription);
+          return;
+        }
+
+        // Clients that acknowledge get tracked, redelivered events (never coalesced)
+        if (this.ackClients.has(subscription.clientId)) {
+          return this.deliveryTracker.track(event, subscription);
+        }
+
+        if (subscription.delivery.priority === 'batch') {
+          return this.batcher.add(event, subscription);
+        }
+
+        return this.deliveryQueue.enqueue(subscription.delivery.priority, async () => {
+          const result = await this.deliveryCoordinator.deliverToSubscription(event, subscription);
+          this.logDeliveryFailure(result, subscription, event.id);
+        });
+      })
+    );
+  }
+
+  /**
+   * Expire subscriptions past their expiresAt (plus grace period) and notify
+   * their clients. Runs periodically while the hub is started.
+   * @returns IDs of the subscriptions that were expired
+   */
+  async sweepExpired(): Promise<string[]> {
+    const expired = await this.subscriptionManager.expireDue();
+
+    for (const subscription of expired) {
+      this.scheduler.stop(subscription.id);
+      await this.notifySubscriptionExpired(subscription);
+    }
+
+    return expired.map((subscription) => subscription.id);
+  }
+
+  /**
+   * Forget sessions disconnected for longer than sessionTtlMs and remove
+   * their subscriptions, devices and queued events. Runs periodically while
+   * the hub is started.
+   * @returns client IDs of the forgotten sessions
+   */
+  async pruneSessions(): Promise<string[]> {
+    if (this.sessionTtlMs === undefined) {
+      return [];
+    }
+
+    const pruned = this.sessions.prune(this.sessionTtlMs);
+    for (const clientId of pruned) {
+      await this.releaseClient(clientId);
+    }
+    return pruned;
+  }
+
+  /**
+   * Get events that were dead-lettered after exhausting delivery attempts
+   */
+  async getDeadLetters(subscriptionId?: string): Promise<DeadLetter[]> {
+    return this.deliveryTracker.deadLetterStore.list(subscriptionId);
+  }
+
+  /**
+   * Send a batch of coalesced events in one notification
+   */
+  private async deliverBatch(subscription: Subscription, events: ESMCPEvent[]): Promise<void> {
+    const current = await this.subscriptionManager.get(subscription.id);
+    if (!current) {
+      return;
+    }
+
+    await this.deliveryQueue.enqueue('normal', async () => {
+      const result = await this.deliveryCoordinator.deliverBatchToSubscription(events, current);
+      this.logDeliveryFailure(result, current, `batch of ${events.length}`);
+    });
+  }
+
+  /**
+   * Send the events collected for a cron or scheduled subscription.
+   *
+   * The digest goes out on the subscription's other channels, or on the
+   * client's connection if it only lists cron/scheduled.
+   */
+  private async deliverDigest(subscription: Subscription, events: ESMCPEvent[]): Promise<void> {
+    const current = await this.subscriptionManager.get(subscription.id);
+    if (!current) {
+      return;
+    }
+
+    const listed = current.delivery.channels.filter((c) => c !== 'cron' && c !== 'scheduled');
+    const channels = listed.length > 0 ? listed : (['websocket', 'sse'] as const);
+    const result = await this.deliveryQueue.enqueue('normal', () =>
+      this.deliveryCoordinator.deliverBatchToSubscription(events, {
+        ...current,
+        delivery: { ...current.delivery, channels: [...channels] },
+      })
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  /**
+   * Expire a subscription after its one-time scheduled delivery, if requested
+   */
+  private async completeSchedule(subscription: Subscription): Promise<void> {
+    if (subscription.delivery.scheduledDelivery?.autoExpire === false) {
+      return;
+    }
+
+    const expired = await this.subscriptionManager.update(subscription.id, subscription.clientId, {
+      status: 'expired',
+    });
+    if (expired) {
+      await this.notifySubscriptionExpired(expired);
+    }
+  }
+
+  private async notifySubscriptionExpired(subscription: Subscription): Promise<void> {
+    await this.notifyClient(
+      subscription.clientId,
+      createJsonRpcNotification(ASPMethods.NotificationSubscriptionExpired, {
         subscriptionId: subscription.id,
-      });
+        expiredAt: subscription.updatedAt,
+      })
+    );
+  }
 
-      // Try WebSocket first
-      if (
-        subscription.delivery.channels.includes('websocket') &&
-        this.transport.isClientConnected(subscription.clientId)
-      ) {
-        await this.transport.send(subscription.clientId, notification);
-      } else if (subscription.delivery.channels.includes('apns')) {
-        // APNS delivery will be handled by the delivery coordinator
-        // This is a placeholder for Phase 2
-      }
+  /**
+   * Send a notification on whichever connection the client has open
+   */
+  private async notifyClient(clientId: string, notification: JsonRpcNotification): Promise<boolean> {
+    const encoded = this.encodeNotification(clientId, notification);
+    if (this.transport.isClientConnected(clientId)) {
+      await this.transport.send(clientId, encoded);
+      return true;
+    }
+    return this.sseServer?.sendNotification(clientId, encoded) ?? false;
+  }
+
+  /**
+   * Rename notifications for clients of the mcp-tools flavour
+   */
+  private encodeNotification(clientId: string, notification: JsonRpcNotification): JsonRpcNotification {
+    return this.mcpToolClients.has(clientId) ? toMcpToolsNotification(notification) : notification;
+  }
+
+  private logDeliveryFailure(result: DeliveryResult, subscription: Subscription, what: string): void {
+    if (!result.success && result.channels.some((c) => !c.skipped)) {
+      console.error(`Failed to deliver ${what} to subscription ${subscription.id}:`, result.error);
+    }
+  }
+
+  /**
+   * Send one attempt of a tracked delivery through the subscription's channels
+   */
+  private async deliverTracked(delivery: PendingDelivery): Promise<boolean> {
+    const subscription = await this.subscriptionManager.get(delivery.subscriptionId);
+    if (!subscription) {
+      return false;
+    }
+
+    const result = await this.deliveryQueue.enqueue(subscription.delivery.priority, () =>
+      this.deliveryCoordinator.deliverToSubscription(
+        delivery.event,
+        subscription,
+        { attempt: delivery.attempts }
+      )
+    );
+    if (result.success) {
+      return true;
+    }
+    if (result.channels.some((c) => !c.skipped)) {
+      throw new Error(result.error);
     }
+    return false;
   }
 
   private setupTransportHandlers(): void {
     this.transport.on('message', (client, request) => {
-      this.handleRequest(client, request);
+      this.handleRequest(client, request, this.transport);
     });
 
-    this.transport.on('disconnect', (_client) => {
-      // Optionally clean up subscriptions for disconnected clients
-      // or keep them for APNS delivery
+    this.transport.on('disconnect', (client) => {
+      // Keep subscriptions and unacknowledged events for when the client returns
+      this.deliveryTracker.suspend(client.id);
+      this.sessions.disconnected(client.id);
     });
 
     this.transport.on('error', (error) => {
       console.error('Transport error:', error);
     });
+
+    const sseServer = this.sseServer;
+    if (sseServer) {
+      const sseTransport: HubClientTransport = {
+        send: async (clientId, response) => {
+          sseServer.sendResponse(clientId, response);
+        },
+        markInitialized: (clientId) => sseServer.markInitialized(clientId),
+      };
+
+      sseServer.on('message', (client, request) => {
+        this.handleRequest(client, request, sseTransport);
+      });
+
+      sseServer.on('disconnect', (client) => {
+        this.deliveryTracker.suspend(client.id);
+        this.sessions.disconnected(client.id);
+      });
+    }
   }
 
   private async handleRequest(
-    client: ClientConnection,
-    request: JsonRpcRequest
+    client: HubClient,
+    request: JsonRpcRequest,
+    via: HubClientTransport
   ): Promise<void> {
-    try {
-      let result: unknown;
-
-      switch (request.method) {
-        // Core protocol
-        case ASPMethods.Initialize:
-          result = await this.handleInitialize(client, request.params);
-          break;
-
-        // ASP Capability & Schema Discovery
-        case ASPMethods.GetCapabilities:
-          result = await this.handleGetCapabilities(client);
-          break;
-        case ASPMethods.GetSchema:
-          result = await this.handleGetSchema(client, request.params);
-          break;
-
-        // Subscription Management
-        case ASPMethods.SubscriptionCreate:
-          result = await this.handleSubscriptionCreate(client, request.params);
-          break;
-        case ASPMethods.SubscriptionRemove:
-          result = await this.handleSubscriptionRemove(client, request.params);
-          break;
-        case ASPMethods.SubscriptionList:
-          result = await this.handleSubscriptionList(client, request.params);
-          break;
-        case ASPMethods.SubscriptionUpdate:
-          result = await this.handleSubscriptionUpdate(client, request.params);
-          break;
-        case ASPMethods.SubscriptionPause:
-          result = await this.handleSubscriptionPause(client, request.params);
-          break;
-        case ASPMethods.SubscriptionResume:
-          result = await this.handleSubscriptionResume(client, request.params);
-          break;
-
-        // Event Operations
-        case ASPMethods.EventAcknowledge:
-          result = await this.handleEventAcknowledge(client, request.params);
-          break;
-
-        // Device Management
-        case ASPMethods.DeviceRegister:
-          result = await this.handleDeviceRegister(client, request.params);
-          break;
-        case ASPMethods.DeviceInvalidate:
-          result = await this.handleDeviceInvalidate(client, request.params);
-          break;
-
-        default:
-          throw { code: ErrorCodes.MethodNotFound, message: 'Method not found' };
-      }
+    // Notifications, such as notifications/initialized from MCP clients, get no response
+    if (request.id === undefined || request.id === null) {
+      return;
+    }
 
+    try {
+      const result = await this.dispatch(client, request.method, request.params, via);
       const response = createJsonRpcResponse(request.id, result);
-      await this.transport.send(client.id, response);
+      await via.send(client.id, response);
+
+      // Redeliver the backlog once the client has its initialize response
+      if (request.method === ASPMethods.Initialize && this.ackClients.has(client.id)) {
+        await this.deliveryTracker.flush(client.id);
+      }
     } catch (error: unknown) {
       const errorObj = error as { code?: number; message?: string };
       const code = errorObj.code ?? ErrorCodes.InternalError;
       const message = errorObj.message ?? 'Internal error';
       const response = createJsonRpcError(request.id, code, message);
-      await this.transport.send(client.id, response);
+      await via.send(client.id, response);
+    }
+  }
+
+  private async dispatch(
+    client: HubClient,
+    method: string,
+    params: unknown,
+    via: HubClientTransport
+  ): Promise<unknown> {
+    switch (method) {
+      // Core protocol
+      case ASPMethods.Initialize:
+        return this.handleInitialize(client, params, via);
+
+      // ASP Capability & Schema Discovery
+      case ASPMethods.GetCapabilities:
+        return this.handleGetCapabilities(client);
+      case ASPMethods.GetSchema:
+        return this.handleGetSchema(client, params);
+
+      // Subscription Management
+      case ASPMethods.SubscriptionCreate:
+        return this.handleSubscriptionCreate(client, params);
+      case ASPMethods.SubscriptionRemove:
+        return this.handleSubscriptionRemove(client, params);
+      case ASPMethods.SubscriptionList:
+        return this.handleSubscriptionList(client, params);
+      case ASPMethods.SubscriptionUpdate:
+        return this.handleSubscriptionUpdate(client, params);
+      case ASPMethods.SubscriptionPause:
+        return this.handleSubscriptionPause(client, params);
+      case ASPMethods.SubscriptionResume:
+        return this.handleSubscriptionResume(client, params);
+
+      // Event Operations
+      case ASPMethods.EventAcknowledge:
+        return this.handleEventAcknowledge(client, params);
+      case ASPMethods.EventPublish:
+        return this.handleEventPublish(client, params);
+
+      // Device Management
+      case ASPMethods.DeviceRegister:
+        return this.handleDeviceRegister(client, params);
+      case ASPMethods.DeviceInvalidate:
+        return this.handleDeviceInvalidate(client, params);
+
+      // MCP tools flavour
+      case MCPMethods.ToolsList:
+        this.ensureInitialized(client);
+        return { tools: getMCPEToolDefinitions() };
+      case MCPMethods.ToolsCall:
+        return this.handleToolCall(client, params, via);
+      case MCPMethods.Ping:
+        return {};
+
+      default:
+        throw { code: ErrorCodes.MethodNotFound, message: 'Method not found' };
     }
   }
 
   private async handleInitialize(
-    client: ClientConnection,
-    params: unknown
-  ): Promise<InitializeResult> {
+    client: HubClient,
+    params: unknown,
+    via: HubClientTransport
+  ): Promise<InitializeResult | MCPInitializeResult> {
     const parsed = InitializeParamsSchema.parse(params);
 
-    // Check protocol version compatibility
-    if (parsed.protocolVersion !== PROTOCOL_VERSION) {
+    // MCP clients get their version echoed; jsonrpc clients get the highest
+    // version both sides support
+    const mcpTools = flavourOfProtocolVersion(parsed.protocolVersion) === 'mcp-tools';
+    const protocolVersion = negotiateProtocolVersion(parsed.protocolVersion, parsed.supportedVersions);
+    if (!mcpTools && !protocolVersion) {
       throw {
         code: ErrorCodes.InvalidParams,
-        message: `Unsupported protocol version: ${parsed.protocolVersion}`,
+        message:
+          `Unsupported protocol version: ${parsed.protocolVersion} ` +
+          `(supported: ${MCPE_PROTOCOL_VERSIONS.join(', ')})`,
       };
     }
 
-    this.transport.markInitialized(client.id);
+    if (this.authenticator && !client.principal) {
+      const principal = await this.authenticator.authenticate(
+        parsed.credentials ?? client.credentials ?? {}
+      );
+      if (!principal) {
+        throw { code: ErrorCodes.Unauthorized, message: 'Invalid or missing credentials' };
+      }
+      client.principal = principal;
+    }
+
+    const session = this.sessions.bind(client.id, parsed.sessionToken, client.principal?.id);
+    if (session.previousClientId && session.previousClientId !== client.id) {
+      await this.resumeSession(session.previousClientId, client.id);
+    }
+
+    via.markInitialized(client.id);
+
+    if (parsed.capabilities?.acknowledgements) {
+      this.ackClients.add(client.id);
+    } else {
+      this.ackClients.delete(client.id);
+    }
+
+    if (mcpTools || !protocolVersion) {
+      this.mcpToolClients.add(client.id);
+      this.protocolVersions.delete(client.id);
+      return {
+        protocolVersion: parsed.protocolVersion,
+        serverInfo: this.serverInfo,
+        capabilities: { tools: {} },
+      };
+    }
+    this.mcpToolClients.delete(client.id);
+    this.protocolVersions.set(client.id, protocolVersion);
 
     return {
-      protocolVersion: PROTOCOL_VERSION,
+      protocolVersion,
       serverInfo: this.serverInfo,
       capabilities: this.serverCapabilities,
+      sessionToken: session.token,
+      ...(parsed.sessionToken && { resumed: session.previousClientId !== undefined }),
     };
   }
 
+  /**
+   * Rebind the subscriptions, devices and queued events of a previous
+   * connection to the client's new connection
+   */
+  private async resumeSession(fromClientId: string, toClientId: string): Promise<void> {
+    await this.subscriptionManager.reassignClient(fromClientId, toClientId);
+
+    const devices = await this.deviceStore.listByClient(fromClientId);
+    for (const device of devices) {
+      await this.deviceStore.update(device.id, { clientId: toClientId });
+    }
+
+    this.deliveryTracker.reassign(fromClientId, toClientId);
+    this.ackClients.delete(fromClientId);
+    this.mcpToolClients.delete(fromClientId);
+    this.protocolVersions.delete(fromClientId);
+  }
+
+  /**
+   * Remove the subscriptions, devices and queued events of a client that
+   * will not return
+   */
+  private async releaseClient(clientId: string): Promise<void> {
+    const subscriptions = await this.subscriptionManager.listByClient(clientId);
+    for (const subscription of subscriptions) {
+      await this.subscriptionManager.remove(subscription.id, clientId);
+      this.deliveryTracker.drop(subscription.id);
+      this.batcher.discard(subscription.id);
+      this.scheduler.remove(subscription.id);
+    }
+
+    const devices = await this.deviceStore.listByClient(clientId);
+    for (const device of devices) {
+      await this.deviceStore.delete(device.id);
+    }
+
+    this.ackClients.delete(clientId);
+    this.mcpToolClients.delete(clientId);
+    this.protocolVersions.delete(clientId);
+  }
+
+  /**
+   * Handle an MCP tools/call by running the matching subscriptions/* method.
+   * Failures of the method are reported in the tool result.
+   */
+  private async handleToolCall(client: HubClient, params: unknown, via: HubClientTransport) {
+    this.ensureInitialized(client);
+    const { name, arguments: args = {} } = MCPToolCallParamsSchema.parse(params);
+    const realtimeChannel = this.transport.isClientConnected(client.id) ? 'websocket' : 'sse';
+    const request = toolCallToRequest(name, args, realtimeChannel);
+
+    try {
+      const result = await this.dispatch(client, request.method, request.params, via);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(resultToToolResult(name, result, args)) }],
+      };
+    } catch (error: unknown) {
+      const message = (error as { message?: string }).message ?? 'Internal error';
+      return { content: [{ type: 'text', text: message }], isError: true };
+    }
+  }
+
   /**
    * Handle ASP capability discovery request
-   * Returns full server capabilities for agent introspection
+   * Returns the server capabilities of the client's protocol version
    */
   private async handleGetCapabilities(
-    client: ClientConnection
+    client: HubClient
   ): Promise<ASPCapabilities> {
     this.ensureInitialized(client);
-    return this.aspCapabilities;
+    return getMCPECapabilitiesForVersion(this.aspCapabilities, this.protocolVersionOf(client.id));
   }
 
   /**
@@ -263,35 +807,42 @@ export class EventHub {
    * Returns operation schemas for LLM reasoning
    */
   private async handleGetSchema(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ): Promise<ASPSchemaResponse> {
     this.ensureInitialized(client);
     const parsed = SchemaRequestParamsSchema.parse(params || {});
 
     // Filter operations if specific ones requested
-    if (parsed.operations && parsed.operations.length > 0) {
-      return {
-        operations: ASPOperationDefinitions.filter((op) =>
-          parsed.operations!.includes(op.name)
-        ),
-      };
-    }
+    return {
+      operations: getMCPEOperationsForVersion(this.protocolVersionOf(client.id), parsed.operations),
+    };
+  }
 
-    return { operations: ASPOperationDefinitions };
+  /**
+   * Protocol version negotiated with a client (the latest for mcp-tools clients)
+   */
+  private protocolVersionOf(clientId: string): MCPEProtocolVersion {
+    return this.protocolVersions.get(clientId) ?? MCPE_PROTOCOL_VERSIONS[0];
   }
 
   private async handleSubscriptionCreate(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
     const parsed = SubscriptionCreateParamsSchema.parse(params);
-    return this.subscriptionManager.create(client.id, parsed);
+    await this.ensureAuthorized(client, parsed.filter);
+    this.ensureValidSchedule(parsed.delivery);
+    const subscription = await this.subscriptionManager.create(client.id, parsed);
+    if (hasSchedule(subscription)) {
+      this.scheduler.start(subscription);
+    }
+    return subscription;
   }
 
   private async handleSubscriptionRemove(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
@@ -306,11 +857,14 @@ export class EventHub {
         message: 'Subscription not found',
       };
     }
+    this.deliveryTracker.drop(parsed.subscriptionId);
+    this.batcher.discard(parsed.subscriptionId);
+    this.scheduler.remove(parsed.subscriptionId);
     return { success: true };
   }
 
   private async handleSubscriptionList(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
@@ -323,11 +877,17 @@ export class EventHub {
   }
 
   private async handleSubscriptionUpdate(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
     const parsed = SubscriptionUpdateParamsSchema.parse(params);
+    if (parsed.updates.filter) {
+      await this.ensureAuthorized(client, parsed.updates.filter);
+    }
+    if (parsed.updates.delivery) {
+      this.ensureValidSchedule(parsed.updates.delivery);
+    }
     const updated = await this.subscriptionManager.update(
       parsed.subscriptionId,
       client.id,
@@ -339,6 +899,11 @@ export class EventHub {
         message: 'Subscription not found',
       };
     }
+    // Deliver what was coalesced so far once a subscription stops batching
+    if (updated.delivery.priority !== 'batch') {
+      await this.batcher.flush(updated.id);
+    }
+    this.syncSchedule(updated);
     return updated;
   }
 
@@ -346,7 +911,7 @@ export class EventHub {
    * Handle subscription pause request
    */
   private async handleSubscriptionPause(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
@@ -362,6 +927,7 @@ export class EventHub {
         message: 'Subscription not found',
       };
     }
+    this.syncSchedule(updated);
     return { success: true, status: 'paused' as const };
   }
 
@@ -369,7 +935,7 @@ export class EventHub {
    * Handle subscription resume request
    */
   private async handleSubscriptionResume(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
@@ -385,25 +951,75 @@ export class EventHub {
         message: 'Subscription not found',
       };
     }
+    this.syncSchedule(updated);
     return { success: true, status: 'active' as const };
   }
 
   private async handleEventAcknowledge(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
-    EventAcknowledgeParamsSchema.parse(params);
-    // Event acknowledgment logic - could be used for delivery tracking
-    return { success: true };
+    const parsed = EventAcknowledgeParamsSchema.parse(params);
+    const subscription = await this.subscriptionManager.get(parsed.subscriptionId);
+    if (!subscription || subscription.clientId !== client.id) {
+      throw {
+        code: ErrorCodes.SubscriptionNotFound,
+        message: 'Subscription not found',
+      };
+    }
+    // false when the event was already acknowledged or was never tracked
+    return {
+      success: this.deliveryTracker.acknowledge(parsed.subscriptionId, parsed.eventId),
+    };
+  }
+
+  /**
+   * Handle an event from an external producer. Needs publisher credentials
+   * but not an initialized subscriber session.
+   */
+  private async handleEventPublish(
+    client: HubClient,
+    params: unknown
+  ) {
+    if (!this.publisherAuthenticator) {
+      throw { code: ErrorCodes.MethodNotFound, message: 'Publishing is not enabled' };
+    }
+
+    const parsed = EventPublishParamsSchema.safeParse(params);
+    if (!parsed.success) {
+      throw { code: ErrorCodes.InvalidParams, message: `Invalid event: ${parsed.error.message}` };
+    }
+
+    const { event, credentials } = parsed.data;
+    const publisher = await this.publisherAuthenticator.authenticate(
+      credentials ?? client.credentials ?? {}
+    );
+    if (!publisher) {
+      throw { code: ErrorCodes.Unauthorized, message: 'Invalid or missing publisher credentials' };
+    }
+    if (!isEventTypeAllowed(publisher, event.type)) {
+      throw {
+        code: ErrorCodes.Unauthorized,
+        message: `Publisher ${publisher.id} may not publish ${event.type} events`,
+      };
+    }
+
+    await this.publishEvent(event);
+    return { eventId: event.id };
   }
 
   private async handleDeviceRegister(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
     const parsed = DeviceRegisterParamsSchema.parse(params);
+    // Web Push subscriptions carry encryption keys instead of a bundle ID
+    const details =
+      parsed.platform === 'web'
+        ? { platform: parsed.platform, keys: parsed.keys, bundleId: undefined }
+        : { platform: parsed.platform, bundleId: parsed.bundleId, keys: undefined };
 
     // Check if device with this token already exists
     const existing = await this.deviceStore.getByToken(parsed.token);
@@ -411,8 +1027,7 @@ export class EventHub {
       // Update existing device
       await this.deviceStore.update(existing.id, {
         clientId: client.id,
-        platform: parsed.platform,
-        bundleId: parsed.bundleId,
+        ...details,
       });
       return { deviceId: existing.id };
     }
@@ -422,8 +1037,7 @@ export class EventHub {
       id: uuidv4(),
       clientId: client.id,
       token: parsed.token,
-      platform: parsed.platform,
-      bundleId: parsed.bundleId,
+      ...details,
       createdAt: now,
       updatedAt: now,
     };
@@ -433,7 +1047,7 @@ export class EventHub {
   }
 
   private async handleDeviceInvalidate(
-    client: ClientConnection,
+    client: HubClient,
     params: unknown
   ) {
     this.ensureInitialized(client);
@@ -445,9 +1059,38 @@ export class EventHub {
     return { success: true };
   }
 
-  private ensureInitialized(client: ClientConnection): void {
+  private ensureInitialized(client: HubClient): void {
     if (!client.initialized) {
       throw { code: ErrorCodes.NotInitialized, message: 'Client not initialized' };
     }
   }
+
+  private async ensureAuthorized(client: HubClient, filter: EventFilter): Promise<void> {
+    if (client.principal && !(await this.authorizeSubscription(client.principal, filter))) {
+      throw {
+        code: ErrorCodes.Unauthorized,
+        message: `Principal ${client.principal.id} may not subscribe to this filter`,
+      };
+    }
+  }
+
+  private ensureValidSchedule(delivery: Subscription['delivery']): void {
+    const error = validateSchedule(delivery);
+    if (error) {
+      throw { code: ErrorCodes.InvalidParams, message: error };
+    }
+  }
+
+  /**
+   * Run the schedule of an active cron/scheduled subscription, stop it otherwise
+   */
+  private syncSchedule(subscription: Subscription): void {
+    if (!hasSchedule(subscription)) {
+      this.scheduler.remove(subscription.id);
+    } else if (subscription.status === 'active') {
+      this.scheduler.start(subscription);
+    } else {
+      this.scheduler.stop(subscription.id);
+    }
+  }
 }
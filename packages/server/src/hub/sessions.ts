@@ -0,0 +1,81 @@
+import { randomBytes } from 'node:crypto';
+
+interface ClientSession {
+  clientId: string;
+  /** Authenticated principal that owns the session */
+  principalId?: string;
+  /** Set while no connection holds the session */
+  disconnectedAt?: number;
+}
+
+/**
+ * Server-issued session tokens that let a reconnecting client take over the
+ * subscriptions, devices and queued events of its previous connection
+ */
+export class SessionRegistry {
+  private sessions: Map<string, ClientSession> = new Map();
+  private tokens: Map<string, string> = new Map(); // clientId -> token
+
+  /**
+   * Bind a connection to a session
+   *
+   * @param token - Token supplied by the client, if any
+   * @param principalId - Authenticated principal of the connection; a token
+   *   only resumes sessions of the same principal
+   * @returns the session token, and the client ID of the resumed connection
+   *   if a known token was supplied
+   */
+  bind(
+    clientId: string,
+    token?: string,
+    principalId?: string
+  ): { token: string; previousClientId?: string } {
+    const session = token ? this.sessions.get(token) : undefined;
+    if (token && session && session.principalId === principalId) {
+      const previousClientId = session.clientId;
+      this.tokens.delete(previousClientId);
+      this.tokens.set(clientId, token);
+      session.clientId = clientId;
+      session.disconnectedAt = undefined;
+      return { token, previousClientId };
+    }
+
+    // Re-initializing on the same connection keeps its session
+    const existing = this.tokens.get(clientId);
+    if (existing) {
+      return { token: existing };
+    }
+
+    const issued = randomBytes(24).toString('base64url');
+    this.sessions.set(issued, { clientId, principalId });
+    this.tokens.set(clientId, issued);
+    return { token: issued };
+  }
+
+  /**
+   * Record that a client's connection closed
+   */
+  disconnected(clientId: string): void {
+    const token = this.tokens.get(clientId);
+    const session = token ? this.sessions.get(token) : undefined;
+    if (session) {
+      session.disconnectedAt = Date.now();
+    }
+  }
+
+  /**
+   * Forget sessions that have been disconnected for longer than ttlMs
+   * @returns client IDs of the forgotten sessions
+   */
+  prune(ttlMs: number, now: number = Date.now()): string[] {
+    const pruned: string[] = [];
+    for (const [token, session] of this.sessions) {
+      if (session.disconnectedAt !== undefined && now - session.disconnectedAt >= ttlMs) {
+        this.sessions.delete(token);
+        this.tokens.delete(session.clientId);
+        pruned.push(session.clientId);
+      }
+    }
+    return pruned;
+  }
+}
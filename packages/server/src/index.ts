@@ -3,3 +3,4 @@ export * from './subscription/index.js';
 export * from './transport/index.js';
 export * from './device/index.js';
 export * from './delivery/index.js';
+export * from './bus/index.js';
@@ -12,15 +12,19 @@ import { MemorySubscriptionStore } from './memory-store.js';
 export interface SubscriptionManagerOptions {
   store?: SubscriptionStore;
   maxSubscriptionsPerClient?: number;
+  /** How long a subscription keeps matching after its expiresAt, to allow renewal (default: 0) */
+  expiryGracePeriodMs?: number;
 }
 
 export class SubscriptionManager {
   private store: SubscriptionStore;
   private maxSubscriptionsPerClient: number;
+  private expiryGracePeriodMs: number;
 
   constructor(options: SubscriptionManagerOptions = {}) {
     this.store = options.store || new MemorySubscriptionStore();
     this.maxSubscriptionsPerClient = options.maxSubscriptionsPerClient ?? 100;
+    this.expiryGracePeriodMs = options.expiryGracePeriodMs ?? 0;
   }
 
   async create(
@@ -75,6 +79,15 @@ export class SubscriptionManager {
     }
     if (updates.expiresAt !== undefined) {
       updateData.expiresAt = updates.expiresAt ?? undefined;
+
+      // Moving the expiry of an expired subscription renews it
+      if (
+        existing.status === 'expired' &&
+        updates.status === undefined &&
+        !this.isExpired({ expiresAt: updateData.expiresAt }, new Date())
+      ) {
+        updateData.status = 'active';
+      }
     }
 
     return this.store.update(id, updateData);
@@ -88,6 +101,18 @@ export class SubscriptionManager {
     return this.store.delete(id);
   }
 
+  /**
+   * Move all subscriptions of a client to another client ID (session resumption)
+   * @returns number of subscriptions moved
+   */
+  async reassignClient(fromClientId: string, toClientId: string): Promise<number> {
+    const subscriptions = await this.store.listByClient(fromClientId);
+    for (const sub of subscriptions) {
+      await this.store.update(sub.id, { clientId: toClientId });
+    }
+    return subscriptions.length;
+  }
+
   async listByClient(
     clientId: string,
     status?: string
@@ -110,7 +135,7 @@ export class SubscriptionManager {
       }
 
       // Check if subscription has expired
-      if (sub.expiresAt && new Date(sub.expiresAt) < now) {
+      if (this.isExpired(sub, now)) {
         return false;
       }
 
@@ -119,6 +144,27 @@ export class SubscriptionManager {
     });
   }
 
+  /**
+   * Mark active and paused subscriptions whose expiry (plus grace period)
+   * has passed as expired
+   * @returns the subscriptions that were expired
+   */
+  async expireDue(now: Date = new Date()): Promise<Subscription[]> {
+    const allSubscriptions = await this.store.listAll();
+    const expired: Subscription[] = [];
+
+    for (const sub of allSubscriptions) {
+      if (sub.status !== 'expired' && this.isExpired(sub, now)) {
+        const updated = await this.store.update(sub.id, { status: 'expired' });
+        if (updated) {
+          expired.push(updated);
+        }
+      }
+    }
+
+    return expired;
+  }
+
   async cleanupExpired(): Promise<number> {
     const allSubscriptions = await this.store.listAll();
     const now = new Date();
@@ -133,4 +179,11 @@ export class SubscriptionManager {
 
     return cleaned;
   }
+
+  private isExpired(subscription: Pick<Subscription, 'expiresAt'>, now: Date): boolean {
+    return (
+      !!subscription.expiresAt &&
+      new Date(subscription.expiresAt).getTime() + this.expiryGracePeriodMs <= now.getTime()
+    );
+  }
 }
@@ -0,0 +1,149 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { URL } from 'node:url';
+import type { Authenticator, ESMCPEvent, Principal } from '@esmcp/core';
+import { ESMCPEventSchema, credentialsFromRequest, isEventTypeAllowed } from '@esmcp/core';
+
+export interface HttpIngestServerOptions {
+  port: number;
+  host?: string;
+  /** Path events are POSTed to (default: '/events') */
+  path?: string;
+  /** Authenticates publishers; their allowedEventTypes limit what they may publish */
+  authenticator: Authenticator;
+  /** Largest accepted request body in bytes (default: 1 MiB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Publishes an accepted event
+ */
+export type IngestPublishFunction = (event: ESMCPEvent, publisher: Principal) => Promise<void>;
+
+/**
+ * HTTP endpoint for external producers: POST an ESMCPEvent as the JSON body
+ * with publisher credentials in `Authorization: Bearer` or `X-API-Key`.
+ *
+ * Responds 202 with `{ eventId }`, 400 for invalid events, 401 for missing or
+ * invalid credentials and 403 for event types outside the publisher's
+ * allowed namespaces.
+ */
+export class HttpIngestServer {
+  private server: ReturnType<typeof createServer> | null = null;
+
+  constructor(
+    private options: HttpIngestServerOptions,
+    private publish: IngestPublishFunction
+  ) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = createServer((req, res) => {
+        this.handleRequest(req, res).catch((error) => {
+          console.error('Ingest request failed:', error);
+          if (!res.headersSent) {
+            this.respond(res, 500, { error: 'Internal error' });
+          }
+        });
+      });
+
+      this.server.on('error', reject);
+      this.server.listen(this.options.port, this.options.host, () => resolve());
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+
+      this.server.close((error) => {
+        if (error) reject(error);
+        else resolve();
+        this.server = null;
+      });
+    });
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // The Host header is client input, so the URL is parsed against a fixed base
+    let url: URL;
+    try {
+      url = new URL(req.url || '/', 'http://localhost');
+    } catch {
+      this.respond(res, 400, { error: 'Invalid request URL' });
+      return;
+    }
+    if (url.pathname !== (this.options.path ?? '/events')) {
+      this.respond(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      this.respond(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const publisher = await this.options.authenticator.authenticate(
+      credentialsFromRequest(req.headers, url.searchParams)
+    );
+    if (!publisher) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.respond(res, 401, { error: 'Invalid or missing publisher credentials' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    if (body === undefined) {
+      this.respond(res, 413, { error: 'Request body too large' });
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      this.respond(res, 400, { error: 'Invalid JSON' });
+      return;
+    }
+
+    const parsed = ESMCPEventSchema.safeParse(json);
+    if (!parsed.success) {
+      this.respond(res, 400, { error: 'Invalid event', issues: parsed.error.issues });
+      return;
+    }
+    if (!isEventTypeAllowed(publisher, parsed.data.type)) {
+      this.respond(res, 403, {
+        error: `Publisher ${publisher.id} may not publish ${parsed.data.type} events`,
+      });
+      return;
+    }
+
+    await this.publish(parsed.data, publisher);
+    this.respond(res, 202, { eventId: parsed.data.id });
+  }
+
+  /**
+   * @returns the body, or undefined if it exceeds maxBodyBytes
+   */
+  private async readBody(req: IncomingMessage): Promise<string | undefined> {
+    const limit = this.options.maxBodyBytes ?? 1024 * 1024;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > limit) {
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private respond(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -1 +1,2 @@
 export * from './websocket-server.js';
+export * from './http-ingest.js';
@@ -1,6 +1,10 @@
+import { URL } from 'node:url';
 import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
+import { credentialsFromRequest } from '@esmcp/core';
 import type {
+  AuthCredentials,
+  Principal,
   JsonRpcRequest,
   JsonRpcResponse,
   JsonRpcNotification,
@@ -11,6 +15,10 @@ export interface ClientConnection {
   id: string;
   ws: WebSocket;
   initialized: boolean;
+  /** Credentials from the connection request headers or query */
+  credentials: AuthCredentials;
+  /** Set once the client authenticated */
+  principal?: Principal;
 }
 
 export interface WebSocketServerTransportEvents {
@@ -43,11 +51,21 @@ export class WebSocketServerTransport {
           resolve();
         });
 
-        this.wss.on('connection', (ws) => {
+        this.wss.on('connection', (ws, req) => {
+          // The Host header is client input, so the URL is parsed against a fixed base
+          let url: URL;
+          try {
+            url = new URL(req.url || '/', 'http://localhost');
+          } catch {
+            ws.close(1008, 'Invalid request URL');
+            return;
+          }
+
           const client: ClientConnection = {
             id: uuidv4(),
             ws,
             initialized: false,
+            credentials: credentialsFromRequest(req.headers, url.searchParams),
           };
 
           this.clients.set(client.id, client);
@@ -0,0 +1,314 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { request, type IncomingMessage } from 'node:http';
+import { connect as connectSocket, createServer, type AddressInfo } from 'node:net';
+import type { Authenticator, JsonRpcNotification, JsonRpcRequest } from '@esmcp/core';
+import { SSEServer, type SSEServerOptions } from '../server/sse-server.js';
+
+interface SSEFrame {
+  event?: string;
+  data?: unknown;
+  id?: string;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() - started > 2000) reject(new Error('Timed out'));
+      else setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+const notification = (n: number): JsonRpcNotification => ({ jsonrpc: '2.0', method: 'test', params: { n } });
+
+describe('SSEServer', () => {
+  let server: SSEServer | undefined;
+  let port: number;
+  let streams: IncomingMessage[];
+
+  afterEach(async () => {
+    streams.forEach((stream) => stream.destroy());
+    await server?.stop();
+    server = undefined;
+  });
+
+  async function start(options: Partial<SSEServerOptions> = {}): Promise<SSEServer> {
+    port = await freePort();
+    streams = [];
+    server = new SSEServer({ port, host: '127.0.0.1', ...options });
+    await server.start();
+    return server;
+  }
+
+  /**
+   * Open an event stream, collecting its frames
+   */
+  function connect(
+    path: string,
+    headers: Record<string, string> = {}
+  ): Promise<{ status: number; frames: SSEFrame[]; close: () => void }> {
+    return new Promise((resolve, reject) => {
+      request({ host: '127.0.0.1', port, path, headers }, (res) => {
+        streams.push(res);
+        const frames: SSEFrame[] = [];
+        let buffer = '';
+        res.on('data', (chunk) => {
+          buffer += chunk.toString('utf8');
+          let end: number;
+          while ((end = buffer.indexOf('\n\n')) !== -1) {
+            const frame: SSEFrame = {};
+            for (const line of buffer.slice(0, end).split('\n')) {
+              const [field, ...rest] = line.split(': ');
+              const value = rest.join(': ');
+              if (field === 'event') frame.event = value;
+              else if (field === 'data') frame.data = JSON.parse(value);
+              else if (field === 'id') frame.id = value;
+            }
+            buffer = buffer.slice(end + 2);
+            if (frame.event) frames.push(frame);
+          }
+        });
+        res.on('error', () => {});
+        resolve({ status: res.statusCode!, frames, close: () => res.destroy() });
+      })
+        .on('error', reject)
+        .end();
+    });
+  }
+
+  it('should answer requests with a malformed Host header with 400 and keep serving', async () => {
+    const sse = await start();
+    const response = await new Promise<string>((resolve, reject) => {
+      const socket = connectSocket(port, '127.0.0.1', () => {
+        socket.write('GET //a%20b/events HTTP/1.1\r\nHost: a b\r\nConnection: close\r\n\r\n');
+      });
+      let received = '';
+      socket.on('data', (data) => (received += data.toString()));
+      socket.on('end', () => resolve(received));
+      socket.on('error', reject);
+    });
+    expect(response).toMatch(/^HTTP\/1\.1 400/);
+
+    await connect('/events/client-1');
+    await waitFor(() => sse.isClientConnected('client-1'));
+  });
+
+  it('should answer POST bodies that are not JSON-RPC requests with 400 and keep serving', async () => {
+    const sse = await start({ syncResponses: true });
+    await connect('/events/client-1');
+    await waitFor(() => sse.isClientConnected('client-1'));
+    const received: JsonRpcRequest[] = [];
+    sse.on('message', (_client, message) => received.push(message));
+
+    const post = (body: string, headers: Record<string, string> = {}) =>
+      new Promise<{ status: number; body: unknown }>((resolve, reject) => {
+        request({ host: '127.0.0.1', port, path: '/rpc/client-1', method: 'POST', headers }, (res) => {
+          let data = '';
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+        })
+          .on('error', reject)
+          .end(body);
+      });
+
+    for (const body of ['null', '42', '[]', '{"id":1}']) {
+      for (const headers of [{}, { Prefer: 'wait' }] as Array<Record<string, string>>) {
+        expect(await post(body, headers)).toEqual({ status: 400, body: { error: 'Invalid JSON-RPC request' } });
+      }
+    }
+    expect(received).toHaveLength(0);
+
+    expect((await post(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }))).status).toBe(202);
+    expect(received).toHaveLength(1);
+  });
+
+  describe('Last-Event-ID replay', () => {
+    it('should resend the frames sent after Last-Event-ID, including those sent while away', async () => {
+      const sse = await start();
+      const first = await connect('/events/client-1');
+      await waitFor(() => sse.isClientConnected('client-1'));
+      sse.sendNotification('client-1', notification(1));
+      sse.sendNotification('client-1', notification(2));
+      await waitFor(() => first.frames.length === 3);
+      const [, one] = first.frames;
+
+      first.close();
+      await waitFor(() => !sse.isClientConnected('client-1'));
+      sse.sendNotification('client-1', notification(3));
+
+      const second = await connect('/events/client-1', { 'Last-Event-ID': one.id! });
+      await waitFor(() => second.frames.length === 3);
+      expect(second.frames.map((frame) => frame.event)).toEqual(['connected', 'notification', 'notification']);
+      expect(second.frames.slice(1).map((frame) => (frame.data as JsonRpcNotification).params)).toEqual([
+        { n: 2 },
+        { n: 3 },
+      ]);
+    });
+
+    it('should accept the last event ID as a query parameter', async () => {
+      const sse = await start();
+      const first = await connect('/events/client-1');
+      await waitFor(() => sse.isClientConnected('client-1'));
+      sse.sendNotification('client-1', notification(1));
+      sse.sendNotification('client-1', notification(2));
+      await waitFor(() => first.frames.length === 3);
+      first.close();
+      await waitFor(() => !sse.isClientConnected('client-1'));
+
+      const second = await connect(`/events/client-1?lastEventId=${first.frames[1].id}`);
+      await waitFor(() => second.frames.length === 2);
+      expect((second.frames[1].data as JsonRpcNotification).params).toEqual({ n: 2 });
+    });
+
+    it('should send a gap event when frames after Last-Event-ID were evicted', async () => {
+      const sse = await start({ replayBufferSize: 2 });
+      const first = await connect('/events/client-1');
+      await waitFor(() => sse.isClientConnected('client-1'));
+      for (let n = 1; n <= 4; n++) {
+        sse.sendNotification('client-1', notification(n));
+      }
+      await waitFor(() => first.frames.length === 5);
+      const ids = first.frames.slice(1).map((frame) => Number(frame.id));
+      first.close();
+      await waitFor(() => !sse.isClientConnected('client-1'));
+
+      const second = await connect('/events/client-1', { 'Last-Event-ID': String(ids[0]) });
+      await waitFor(() => second.frames.length === 4);
+      expect(second.frames[1]).toEqual({ event: 'gap', data: { lastEventId: ids[0], resumedFrom: ids[2] } });
+      expect(second.frames.slice(2).map((frame) => (frame.data as JsonRpcNotification).params)).toEqual([
+        { n: 3 },
+        { n: 4 },
+      ]);
+    });
+
+    it('should send a gap event for streams it does not know', async () => {
+      await start();
+      const stream = await connect('/events/client-1', { 'Last-Event-ID': '42' });
+      await waitFor(() => stream.frames.length === 2);
+      expect(stream.frames[1]).toEqual({ event: 'gap', data: { lastEventId: 42 } });
+    });
+  });
+
+  describe('authentication', () => {
+    const authenticator: Authenticator = {
+      authenticate: async ({ bearerToken }) => (bearerToken ? { id: bearerToken } : null),
+    };
+
+    function post(path: string, headers: Record<string, string> = {}): Promise<number> {
+      return new Promise((resolve, reject) => {
+        request({ host: '127.0.0.1', port, path, method: 'POST', headers }, (res) => {
+          res.resume();
+          resolve(res.statusCode!);
+        })
+          .on('error', reject)
+          .end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+      });
+    }
+
+    it('should reject streams and requests without valid credentials', async () => {
+      const sse = await start({ authenticator });
+
+      const rejected = await connect('/events/client-1');
+      expect(rejected.status).toBe(401);
+
+      const accepted = await connect('/events/client-1?access_token=alice');
+      expect(accepted.status).toBe(200);
+      await waitFor(() => sse.isClientConnected('client-1'));
+      expect(sse.getClient('client-1')?.principal).toEqual({ id: 'alice' });
+
+      expect(await post('/rpc/client-1')).toBe(401);
+      expect(await post('/rpc/client-1', { Authorization: 'Bearer bob' })).toBe(403);
+      expect(await post('/rpc/client-1', { Authorization: 'Bearer alice' })).toBe(202);
+    });
+
+    it('should keep a client ID bound to its principal until the client is forgotten', async () => {
+      const sse = await start({ authenticator, retainDisconnectedMs: 0 });
+
+      const alice = await connect('/events/client-1', { Authorization: 'Bearer alice' });
+      await waitFor(() => sse.isClientConnected('client-1'));
+      expect((await connect('/events/client-1', { Authorization: 'Bearer bob' })).status).toBe(403);
+
+      alice.close();
+      await waitFor(() => sse.getClient('client-1') === undefined);
+      expect((await connect('/events/client-1', { Authorization: 'Bearer bob' })).status).toBe(200);
+    });
+  });
+
+  describe('synchronous responses', () => {
+    function post(
+      id: number,
+      headers: Record<string, string> = { Prefer: 'wait' }
+    ): Promise<{ status: number; body: unknown }> {
+      return new Promise((resolve, reject) => {
+        request({ host: '127.0.0.1', port, path: '/rpc/client-1', method: 'POST', headers }, (res) => {
+          let body = '';
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(body) }));
+        })
+          .on('error', reject)
+          .end(JSON.stringify({ jsonrpc: '2.0', id, method: 'ping' }));
+      });
+    }
+
+    async function startWithClient(options: Partial<SSEServerOptions> = {}) {
+      const sse = await start({ syncResponses: true, ...options });
+      const stream = await connect('/events/client-1');
+      await waitFor(() => sse.isClientConnected('client-1'));
+      const received: JsonRpcRequest[] = [];
+      sse.on('message', (_client, message) => received.push(message));
+      return { sse, stream, received };
+    }
+
+    it('should answer a request with Prefer: wait in the response body', async () => {
+      const { sse } = await startWithClient();
+      sse.on('message', (client, message) => {
+        sse.sendResponse(client.id, { jsonrpc: '2.0', id: message.id, result: { pong: true } });
+      });
+
+      expect(await post(1)).toEqual({ status: 200, body: { jsonrpc: '2.0', id: 1, result: { pong: true } } });
+    });
+
+    it('should fall back to 202 and the event stream once the wait times out', async () => {
+      const { sse, stream, received } = await startWithClient({ syncResponseTimeout: 50 });
+
+      expect(await post(1)).toEqual({ status: 202, body: { received: true, id: 1 } });
+      expect(received).toHaveLength(1);
+
+      sse.sendResponse('client-1', { jsonrpc: '2.0', id: 1, result: { late: true } });
+      await waitFor(() => stream.frames.length === 2);
+      expect(stream.frames[1]).toMatchObject({ event: 'response', data: { id: 1, result: { late: true } } });
+    });
+
+    it('should reject a request whose ID is already waiting and still answer the first', async () => {
+      const { sse, received } = await startWithClient();
+
+      const first = post(1);
+      await waitFor(() => received.length === 1);
+      expect(await post(1)).toEqual({ status: 409, body: { error: 'Request 1 is already waiting for its response' } });
+      expect(received).toHaveLength(1);
+
+      sse.sendResponse('client-1', { jsonrpc: '2.0', id: 1, result: 'first' });
+      expect(await first).toEqual({ status: 200, body: { jsonrpc: '2.0', id: 1, result: 'first' } });
+
+      // The ID can be used again once answered
+      const again = post(1);
+      await waitFor(() => received.length === 2);
+      sse.sendResponse('client-1', { jsonrpc: '2.0', id: 1, result: 'again' });
+      expect(await again).toMatchObject({ status: 200, body: { result: 'again' } });
+    });
+  });
+});
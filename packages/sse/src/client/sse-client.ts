@@ -6,7 +6,10 @@
  * In Node.js, uses http/https modules.
  */
 
+import { credentialsToHeaders } from '@esmcp/core';
+import type { SSEGap } from '../server/sse-server.js';
 import type {
+  AuthCredentials,
   Transport,
   TransportState,
   TransportEvents,
@@ -21,6 +24,16 @@ export interface SSEClientOptions {
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  /**
+   * Credentials for servers with an authenticator. EventSource cannot set
+   * headers, so the event stream carries them as query parameters.
+   */
+  credentials?: AuthCredentials;
+  /**
+   * Called on reconnect when the server no longer buffers everything sent
+   * since the last received event
+   */
+  onGap?: (gap: SSEGap) => void;
 }
 
 export class SSEClientTransport implements Transport {
@@ -30,6 +43,9 @@ export class SSEClientTransport implements Transport {
   private listeners: Map<keyof TransportEvents, Set<Function>> = new Map();
   private reconnectAttempts = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastEventId: string | null = null;
+  // Whether the server answers POSTed requests in the HTTP body
+  private syncResponses = false;
 
   constructor(private options: SSEClientOptions) {}
 
@@ -46,7 +62,9 @@ export class SSEClientTransport implements Transport {
 
     return new Promise((resolve, reject) => {
       const basePath = this.options.path || '';
-      const url = `${this.options.serverUrl}${basePath}/events`;
+      // Reconnects keep the client ID and resume after the last received event
+      const stream = this.clientId ? `/events/${encodeURIComponent(this.clientId)}` : '/events';
+      const url = `${this.options.serverUrl}${basePath}${stream}${this.streamQuery()}`;
 
       // Use native EventSource (works in browsers, need polyfill for Node.js)
       if (typeof EventSource === 'undefined') {
@@ -59,7 +77,10 @@ export class SSEClientTransport implements Transport {
       // Custom event handlers (SSE allows custom event types)
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const addHandler = (name: string, handler: (data: string) => void) => {
-        this.eventSource!.addEventListener(name, ((e: { data: string }) => {
+        this.eventSource!.addEventListener(name, ((e: { data: string; lastEventId?: string }) => {
+          if (e.lastEventId) {
+            this.lastEventId = e.lastEventId;
+          }
           handler(e.data);
         }) as unknown as (e: Event) => void);
       };
@@ -68,6 +89,7 @@ export class SSEClientTransport implements Transport {
         try {
           const parsed = JSON.parse(data);
           this.clientId = parsed.clientId;
+          this.syncResponses = parsed.syncResponses === true;
           this._state = 'connected';
           this.reconnectAttempts = 0;
           this.emit('connect');
@@ -77,6 +99,14 @@ export class SSEClientTransport implements Transport {
         }
       });
 
+      addHandler('gap', (data) => {
+        try {
+          this.options.onGap?.(JSON.parse(data) as SSEGap);
+        } catch {
+          this.emit('error', new Error('Failed to parse gap'));
+        }
+      });
+
       addHandler('response', (data) => {
         try {
           const message = JSON.parse(data) as JsonRpcResponse;
@@ -97,9 +127,18 @@ export class SSEClientTransport implements Transport {
 
       this.eventSource.onerror = () => {
         if (this._state === 'connecting') {
+          this.eventSource?.close();
+          this.eventSource = null;
           this._state = 'error';
           reject(new Error('SSE connection failed'));
+          // Keep retrying if this was a reconnect attempt
+          if (this.reconnectAttempts > 0) {
+            this.handleReconnect();
+          }
         } else {
+          // Reconnect through handleReconnect() rather than EventSource's own retry
+          this.eventSource?.close();
+          this.eventSource = null;
           this._state = 'disconnected';
           this.emit('disconnect', 'Connection lost');
           this.handleReconnect();
@@ -121,6 +160,7 @@ export class SSEClientTransport implements Transport {
 
     this._state = 'disconnected';
     this.clientId = null;
+    this.lastEventId = null;
   }
 
   async send(message: JsonRpcRequest | JsonRpcResponse | JsonRpcNotification): Promise<void> {
@@ -131,10 +171,15 @@ export class SSEClientTransport implements Transport {
     const basePath = this.options.path || '';
     const url = `${this.options.serverUrl}${basePath}/rpc/${this.clientId}`;
 
+    // Requests wait for their response in the body when the server supports it
+    const sync = this.syncResponses && 'method' in message && 'id' in message;
+
     const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(sync && { Prefer: 'wait' }),
+        ...credentialsToHeaders(this.options.credentials ?? {}),
       },
       body: JSON.stringify(message),
     });
@@ -142,6 +187,30 @@ export class SSEClientTransport implements Transport {
     if (!response.ok) {
       throw new Error(`HTTP error: ${response.status}`);
     }
+
+    // 202 means the response comes over the event stream
+    if (sync && response.status === 200) {
+      try {
+        this.emit('message', (await response.json()) as JsonRpcResponse);
+      } catch {
+        this.emit('error', new Error('Failed to parse response'));
+      }
+    }
+  }
+
+  /**
+   * Query for the event stream: credentials (EventSource cannot set headers)
+   * and the last received event ID, since a new EventSource does not send
+   * Last-Event-ID
+   */
+  private streamQuery(): string {
+    const { bearerToken, apiKey } = this.options.credentials ?? {};
+    const query = new URLSearchParams({
+      ...(bearerToken && { access_token: bearerToken }),
+      ...(apiKey && { api_key: apiKey }),
+      ...(this.lastEventId && { lastEventId: this.lastEventId }),
+    }).toString();
+    return query ? `?${query}` : '';
   }
 
   getClientId(): string | null {
@@ -5,7 +5,9 @@
  *
  * SSE is unidirectional (server → client), so we use:
  * - GET /events/:clientId - SSE stream for receiving events
- * - POST /rpc/:clientId - HTTP endpoint for sending commands
+ * - POST /rpc/:clientId - HTTP endpoint for sending commands; with
+ *   `syncResponses`, a request sent with `Prefer: wait` gets its response in
+ *   the HTTP body instead of the stream
  *
  * Advantages over WebSocket:
  * - Works through HTTP proxies and firewalls
@@ -17,7 +19,10 @@
 import { createServer, IncomingMessage, ServerResponse } from 'node:http';
 import { URL } from 'node:url';
 import { v4 as uuidv4 } from 'uuid';
+import { credentialsFromRequest } from '@esmcp/core';
 import type {
+  Authenticator,
+  Principal,
   JsonRpcRequest,
   JsonRpcResponse,
   JsonRpcNotification,
@@ -27,7 +32,17 @@ export interface SSEClient {
   id: string;
   response: ServerResponse;
   initialized: boolean;
+  /** Last-Event-ID the client reconnected with (0 for a new stream) */
   lastEventId: number;
+  /**
+   * False while the client is disconnected but kept for replay; frames sent
+   * meanwhile are buffered until it reconnects
+   */
+  connected: boolean;
+  /** When the client disconnected, while not connected */
+  disconnectedAt?: number;
+  /** Set when the server has an authenticator */
+  principal?: Principal;
 }
 
 export interface SSEServerOptions {
@@ -36,6 +51,56 @@ export interface SSEServerOptions {
   path?: string;
   heartbeatInterval?: number; // Keep-alive interval in ms
   cors?: boolean | string; // CORS origin
+  /**
+   * Require credentials on /events and /rpc. A client ID stays bound to the
+   * principal that first connected with it.
+   */
+  authenticator?: Authenticator;
+  /** Frames kept per client for Last-Event-ID replay (default: 1000, 0 disables replay) */
+  replayBufferSize?: number;
+  /**
+   * How long a disconnected client keeps its ID, initialized state and
+   * replay buffer (default: 300000)
+   */
+  retainDisconnectedMs?: number;
+  /**
+   * Answer POSTed requests that carry `Prefer: wait` in the HTTP response
+   * body. Notifications still go over the event stream.
+   */
+  syncResponses?: boolean;
+  /**
+   * Longest time a synchronous POST waits for its response before falling
+   * back to 202 and the event stream (default: 30000). `Prefer: wait=<seconds>`
+   * can shorten it.
+   */
+  syncResponseTimeout?: number;
+}
+
+/**
+ * Data of the `gap` event, sent on reconnect when frames after the client's
+ * Last-Event-ID are no longer buffered
+ */
+export interface SSEGap {
+  /** Last-Event-ID the client reconnected with */
+  lastEventId: number;
+  /** ID of the first frame replayed, if any */
+  resumedFrom?: number;
+}
+
+interface SSEFrame {
+  id: number;
+  text: string;
+}
+
+interface PendingResponse {
+  res: ServerResponse;
+  timer: NodeJS.Timeout;
+}
+
+interface ReplayBuffer {
+  frames: SSEFrame[];
+  /** Highest frame ID evicted from the buffer */
+  evictedThrough: number;
 }
 
 export interface SSEServerEvents {
@@ -51,6 +116,11 @@ export class SSEServer {
   private listeners: Map<keyof SSEServerEvents, Set<Function>> = new Map();
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private eventId = 0;
+  // clientId -> principal ID, kept across reconnects
+  private owners: Map<string, string> = new Map();
+  private replay: Map<string, ReplayBuffer> = new Map();
+  // clientId -> request ID -> POST waiting for its response
+  private pendingResponses: Map<string, Map<string | number, PendingResponse>> = new Map();
 
   constructor(private options: SSEServerOptions) {}
 
@@ -70,6 +140,7 @@ export class SSEServer {
         const interval = this.options.heartbeatInterval ?? 30000;
         this.heartbeatTimer = setInterval(() => {
           this.sendHeartbeat();
+          this.pruneDisconnected();
         }, interval);
 
         resolve();
@@ -85,9 +156,21 @@ export class SSEServer {
 
     // Close all client connections
     this.clients.forEach((client) => {
-      client.response.end();
+      if (client.connected) {
+        client.response.end();
+      }
     });
     this.clients.clear();
+    this.replay.clear();
+    this.owners.clear();
+    this.pendingResponses.forEach((pending) => {
+      pending.forEach(({ res, timer }) => {
+        clearTimeout(timer);
+        res.writeHead(503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Server stopping' }));
+      });
+    });
+    this.pendingResponses.clear();
 
     return new Promise((resolve, reject) => {
       if (!this.server) {
@@ -109,7 +192,11 @@ export class SSEServer {
       const origin = this.options.cors === true ? '*' : this.options.cors;
       res.setHeader('Access-Control-Allow-Origin', origin);
       res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Last-Event-ID');
+      res.setHeader(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Last-Event-ID, Authorization, X-API-Key, Prefer'
+      );
+      res.setHeader('Access-Control-Expose-Headers', 'Preference-Applied');
     }
 
     // Handle preflight
@@ -119,19 +206,26 @@ export class SSEServer {
       return;
     }
 
-    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    // The Host header is client input, so the URL is parsed against a fixed base
+    let url: URL;
+    try {
+      url = new URL(req.url || '/', 'http://localhost');
+    } catch {
+      this.sendError(res, 400, 'Invalid request URL');
+      return;
+    }
     const basePath = this.options.path || '';
 
     // GET /events - New SSE connection (client ID assigned)
     // GET /events/:clientId - Reconnect with existing client ID
     if (req.method === 'GET' && url.pathname.startsWith(`${basePath}/events`)) {
-      this.handleSSEConnection(req, res, url);
+      this.handleSSEConnection(req, res, url).catch((error) => this.emit('error', error));
       return;
     }
 
     // POST /rpc/:clientId - RPC request from client
     if (req.method === 'POST' && url.pathname.startsWith(`${basePath}/rpc/`)) {
-      this.handleRPCRequest(req, res, url);
+      this.handleRPCRequest(req, res, url).catch((error) => this.emit('error', error));
       return;
     }
 
@@ -140,17 +234,29 @@ export class SSEServer {
     res.end(JSON.stringify({ error: 'Not found' }));
   }
 
-  private handleSSEConnection(
+  private async handleSSEConnection(
     req: IncomingMessage,
     res: ServerResponse,
     url: URL
-  ): void {
+  ): Promise<void> {
     const basePath = this.options.path || '';
     const pathParts = url.pathname.replace(`${basePath}/events`, '').split('/').filter(Boolean);
     const clientId = pathParts[0] || uuidv4();
 
-    // Check for reconnection
-    const lastEventId = req.headers['last-event-id'];
+    const principal = await this.authenticate(req, res, url);
+    if (principal === null) return;
+    if (principal) {
+      const owner = this.owners.get(clientId);
+      if (owner !== undefined && owner !== principal.id) {
+        this.sendError(res, 403, 'Client ID belongs to another principal');
+        return;
+      }
+      this.owners.set(clientId, principal.id);
+    }
+
+    // Check for reconnection; EventSource sends the header, other clients may use the query
+    const lastEventIdValue = req.headers['last-event-id'] ?? url.searchParams.get('lastEventId');
+    const lastEventId = Number(lastEventIdValue) || 0;
 
     // Set SSE headers
     res.writeHead(200, {
@@ -160,101 +266,308 @@ export class SSEServer {
       'X-Client-ID': clientId,
     });
 
-    // Send initial connection event
-    res.write(`event: connected\ndata: ${JSON.stringify({ clientId })}\nid: ${++this.eventId}\n\n`);
+    // Send initial connection event (without an ID, so it does not move the client's Last-Event-ID)
+    const connected = { clientId, ...(this.options.syncResponses && { syncResponses: true }) };
+    res.write(`event: connected\ndata: ${JSON.stringify(connected)}\n\n`);
 
-    const client: SSEClient = {
+    // A retained client keeps its state; a still-open stream for it is replaced
+    const previous = this.clients.get(clientId);
+    if (previous?.connected) {
+      previous.connected = false;
+      previous.response.end();
+    }
+    const client: SSEClient = previous ?? {
       id: clientId,
       response: res,
       initialized: false,
-      lastEventId: lastEventId ? parseInt(lastEventId as string, 10) : 0,
+      lastEventId,
+      connected: true,
     };
+    client.response = res;
+    client.lastEventId = lastEventId;
+    client.connected = true;
+    client.disconnectedAt = undefined;
+    if (principal) {
+      client.principal = principal;
+    }
 
     this.clients.set(clientId, client);
+    if (lastEventId > 0) {
+      this.replayFrames(client, lastEventId);
+    }
     this.emit('connection', client);
 
     // Handle client disconnect
     req.on('close', () => {
-      this.clients.delete(clientId);
+      if (client.response !== res) {
+        return; // Replaced by a newer stream
+      }
+      client.connected = false;
+      client.disconnectedAt = Date.now();
+      if (!this.retainDisconnectedMs) {
+        this.forget(clientId);
+      }
       this.emit('disconnect', client);
     });
   }
 
-  private handleRPCRequest(
+  /**
+   * Resend buffered frames after lastEventId, preceded by a `gap` event if
+   * some of them are no longer buffered
+   */
+  private replayFrames(client: SSEClient, lastEventId: number): void {
+    const buffer = this.replay.get(client.id);
+    const frames = buffer?.frames.filter((frame) => frame.id > lastEventId) ?? [];
+
+    // Unknown streams (e.g. after a restart or expired retention) may have missed anything
+    if (!buffer || buffer.evictedThrough > lastEventId) {
+      const gap: SSEGap = { lastEventId, ...(frames.length > 0 && { resumedFrom: frames[0].id }) };
+      client.response.write(`event: gap\ndata: ${JSON.stringify(gap)}\n\n`);
+    }
+
+    for (const frame of frames) {
+      client.response.write(frame.text);
+    }
+  }
+
+  private get retainDisconnectedMs(): number {
+    return this.options.retainDisconnectedMs ?? 300000;
+  }
+
+  /**
+   * Write a frame to a client, buffering it for replay
+   */
+  private writeFrame(client: SSEClient, eventName: string, payload: string, id = ++this.eventId): void {
+    const text = `event: ${eventName}\ndata: ${payload}\nid: ${id}\n\n`;
+
+    const size = this.options.replayBufferSize ?? 1000;
+    if (size > 0) {
+      let buffer = this.replay.get(client.id);
+      if (!buffer) {
+        buffer = { frames: [], evictedThrough: 0 };
+        this.replay.set(client.id, buffer);
+      }
+      buffer.frames.push({ id, text });
+      if (buffer.frames.length > size) {
+        const evicted = buffer.frames.splice(0, buffer.frames.length - size);
+        buffer.evictedThrough = evicted[evicted.length - 1].id;
+      }
+    }
+
+    if (client.connected) {
+      client.response.write(text);
+    }
+  }
+
+  private forget(clientId: string): void {
+    this.clients.delete(clientId);
+    this.replay.delete(clientId);
+    this.owners.delete(clientId);
+  }
+
+  /**
+   * Drop clients disconnected for longer than retainDisconnectedMs
+   */
+  private pruneDisconnected(now: number = Date.now()): void {
+    this.clients.forEach((client) => {
+      if (!client.connected && now - (client.disconnectedAt ?? now) >= this.retainDisconnectedMs) {
+        this.forget(client.id);
+      }
+    });
+  }
+
+  private async handleRPCRequest(
     req: IncomingMessage,
     res: ServerResponse,
     url: URL
-  ): void {
+  ): Promise<void> {
     const basePath = this.options.path || '';
     const clientId = url.pathname.replace(`${basePath}/rpc/`, '');
     const client = this.clients.get(clientId);
+    const wait = this.syncWaitMs(req);
 
-    if (!client) {
+    // Synchronous requests do not need an open stream, only a known client
+    if (!client || (!client.connected && wait === undefined)) {
       res.writeHead(404, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Client not found. Connect to /events first.' }));
       return;
     }
 
+    const principal = await this.authenticate(req, res, url);
+    if (principal === null) return;
+    if (principal && principal.id !== client.principal?.id) {
+      this.sendError(res, 403, 'Client ID belongs to another principal');
+      return;
+    }
+
     let body = '';
     req.on('data', (chunk) => {
       body += chunk;
     });
 
     req.on('end', () => {
+      let message: JsonRpcRequest;
       try {
-        const message = JSON.parse(body) as JsonRpcRequest;
-
-        // Emit message for processing
-        this.emit('message', client, message);
-
-        // Response will be sent via sendResponse()
-        // For now, acknowledge receipt
-        res.writeHead(202, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ received: true, id: message.id }));
+        message = JSON.parse(body) as JsonRpcRequest;
       } catch (error) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        return;
+      }
+
+      // null, numbers and arrays parse as JSON but are not requests
+      if (
+        typeof message !== 'object' ||
+        message === null ||
+        Array.isArray(message) ||
+        typeof message.method !== 'string'
+      ) {
+        this.sendError(res, 400, 'Invalid JSON-RPC request');
+        return;
+      }
+
+      if (wait !== undefined && message.id !== undefined) {
+        // The response could not tell the two requests apart
+        if (this.pendingResponses.get(client.id)?.has(message.id)) {
+          this.sendError(res, 409, `Request ${message.id} is already waiting for its response`);
+          return;
+        }
+        // sendResponse() answers in the body; on timeout the response goes over the stream
+        this.holdResponse(client.id, message.id, res, wait);
+        res.on('close', () => this.releaseResponse(client.id, message.id, res));
+      } else {
+        // Response will be sent via sendResponse()
+        this.acknowledge(res, message.id);
       }
+
+      // Emit message for processing
+      this.emit('message', client, message);
     });
   }
 
   /**
-   * Send a JSON-RPC response to a client via SSE
+   * How long a POST may wait for its response
+   * @returns undefined unless syncResponses is on and the request has `Prefer: wait`
    */
-  sendResponse(clientId: string, response: JsonRpcResponse): boolean {
-    const client = this.clients.get(clientId);
-    if (!client) return false;
+  private syncWaitMs(req: IncomingMessage): number | undefined {
+    if (!this.options.syncResponses) return undefined;
 
-    const eventId = ++this.eventId;
-    const data = JSON.stringify(response);
-    client.response.write(`event: response\ndata: ${data}\nid: ${eventId}\n\n`);
+    const prefer = /(?:^|[,;\s])wait(?:=(\d+))?(?:$|[,;\s])/i.exec(String(req.headers.prefer ?? ''));
+    if (!prefer) return undefined;
+
+    const limit = this.options.syncResponseTimeout ?? 30000;
+    return prefer[1] === undefined ? limit : Math.min(Number(prefer[1]) * 1000, limit);
+  }
+
+  private holdResponse(
+    clientId: string,
+    requestId: string | number,
+    res: ServerResponse,
+    wait: number
+  ): void {
+    let pending = this.pendingResponses.get(clientId);
+    if (!pending) {
+      pending = new Map();
+      this.pendingResponses.set(clientId, pending);
+    }
+
+    const timer = setTimeout(() => {
+      if (this.releaseResponse(clientId, requestId)) {
+        this.acknowledge(res, requestId);
+      }
+    }, wait);
+    pending.set(requestId, { res, timer });
+  }
+
+  /**
+   * Stop waiting for a response
+   * @param res - Only release the wait of this POST
+   * @returns false if the POST was no longer waiting
+   */
+  private releaseResponse(clientId: string, requestId: string | number, res?: ServerResponse): boolean {
+    const pending = this.pendingResponses.get(clientId);
+    const entry = pending?.get(requestId);
+    if (!pending || !entry || (res && entry.res !== res)) return false;
+
+    clearTimeout(entry.timer);
+    pending.delete(requestId);
+    if (pending.size === 0) {
+      this.pendingResponses.delete(clientId);
+    }
     return true;
   }
 
+  private acknowledge(res: ServerResponse, requestId: string | number | undefined): void {
+    res.writeHead(202, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: true, id: requestId }));
+  }
+
+  /**
+   * Authenticate a request when the server has an authenticator
+   * @returns the principal, undefined without an authenticator, or null
+   *   after rejecting the request
+   */
+  private async authenticate(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<Principal | null | undefined> {
+    const { authenticator } = this.options;
+    if (!authenticator) return undefined;
+
+    let principal: Principal | null = null;
+    try {
+      principal = await authenticator.authenticate(
+        credentialsFromRequest(req.headers, url.searchParams)
+      );
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+
+    if (!principal) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, 'Unauthorized');
+      return null;
+    }
+    return principal;
+  }
+
+  private sendError(res: ServerResponse, status: number, error: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error }));
+  }
+
+  /**
+   * Send a JSON-RPC response to a client via SSE
+   * @returns false for unknown clients; frames for disconnected clients are buffered
+   */
+  sendResponse(clientId: string, response: JsonRpcResponse): boolean {
+    const res = this.pendingResponses.get(clientId)?.get(response.id)?.res;
+    if (res && this.releaseResponse(clientId, response.id)) {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Preference-Applied': 'wait' });
+      res.end(JSON.stringify(response));
+      return true;
+    }
+    return this.sendEvent(clientId, 'response', response);
+  }
+
   /**
    * Send a notification to a client via SSE
    */
   sendNotification(clientId: string, notification: JsonRpcNotification): boolean {
-    const client = this.clients.get(clientId);
-    if (!client) return false;
-
-    const eventId = ++this.eventId;
-    const data = JSON.stringify(notification);
-    client.response.write(`event: notification\ndata: ${data}\nid: ${eventId}\n\n`);
-    return true;
+    return this.sendEvent(clientId, 'notification', notification);
   }
 
   /**
-   * Broadcast a notification to all connected clients
+   * Broadcast a notification to all initialized clients
    */
   broadcast(notification: JsonRpcNotification): void {
     const eventId = ++this.eventId;
     const data = JSON.stringify(notification);
-    const message = `event: notification\ndata: ${data}\nid: ${eventId}\n\n`;
 
     this.clients.forEach((client) => {
       if (client.initialized) {
-        client.response.write(message);
+        this.writeFrame(client, 'notification', data, eventId);
       }
     });
   }
@@ -266,29 +579,34 @@ export class SSEServer {
     const client = this.clients.get(clientId);
     if (!client) return false;
 
-    const eventId = ++this.eventId;
-    const payload = JSON.stringify(data);
-    client.response.write(`event: ${eventName}\ndata: ${payload}\nid: ${eventId}\n\n`);
+    this.writeFrame(client, eventName, JSON.stringify(data));
     return true;
   }
 
   private sendHeartbeat(): void {
     const comment = `: heartbeat ${Date.now()}\n\n`;
     this.clients.forEach((client) => {
-      client.response.write(comment);
+      if (client.connected) {
+        client.response.write(comment);
+      }
     });
   }
 
+  /**
+   * Get a client, including one disconnected but retained for replay
+   */
   getClient(clientId: string): SSEClient | undefined {
     return this.clients.get(clientId);
   }
 
   getConnectedClients(): string[] {
-    return Array.from(this.clients.keys());
+    return Array.from(this.clients.values())
+      .filter((client) => client.connected)
+      .map((client) => client.id);
   }
 
   isClientConnected(clientId: string): boolean {
-    return this.clients.has(clientId);
+    return this.clients.get(clientId)?.connected ?? false;
   }
 
   markInitialized(clientId: string): void {